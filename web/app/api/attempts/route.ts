@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getAttemptRepository } from "@/lib/attempts/repository";
+import { validateAttemptInput, type AttemptInput } from "@/lib/attempts/types";
+
+// Saves a finished quiz with every answer and how long each one took
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const input = await request.json();
+    const validationError = validateAttemptInput(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const attempt = await getAttemptRepository().create(
+      userId,
+      input as AttemptInput
+    );
+    return NextResponse.json({ attempt }, { status: 201 });
+  } catch (error) {
+    console.error("Quiz attempt error:", error);
+    return apiError("internal_error", "Failed to save your quiz results");
+  }
+}
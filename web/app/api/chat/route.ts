@@ -0,0 +1,158 @@
+import {
+  apiError,
+  describeError,
+  getUserId,
+  unauthorized,
+  upstreamError,
+} from "@/lib/api/server";
+import type { ChatStreamEvent } from "@/lib/chat/events";
+import { quotePassage, validatePassage } from "@/lib/chat/passages";
+import { respond } from "@/lib/chat/respond";
+import { getConversationRepository } from "@/lib/conversations/repository";
+import { DEFAULT_TITLE } from "@/lib/conversations/types";
+import type { Citation } from "@/lib/documents/types";
+import { getFileRepository } from "@/lib/files/repository";
+import { getProfileRepository } from "@/lib/profiles/repository";
+
+const MAX_TITLE_LENGTH = 60;
+
+// Names a conversation after the learner's first question
+function titleFrom(message: string) {
+  const title = message.trim().replace(/\s+/g, " ");
+  return title.length > MAX_TITLE_LENGTH
+    ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : title;
+}
+
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { conversationId, message, passage } = await request.json();
+
+    if (typeof message !== "string" || !message.trim()) {
+      return apiError("bad_request", "Message is required");
+    }
+    if (typeof conversationId !== "string") {
+      return apiError("bad_request", "conversationId is required");
+    }
+    if (passage !== undefined && passage !== null) {
+      const passageError = validatePassage(passage);
+      if (passageError) return apiError("bad_request", passageError);
+    }
+
+    const conversations = getConversationRepository();
+    let conversation = await conversations.get(userId, conversationId);
+    if (!conversation) {
+      return apiError("not_found", "Conversation not found");
+    }
+
+    const [profile, userFiles, history] = await Promise.all([
+      getProfileRepository().get(userId),
+      getFileRepository().list(userId),
+      conversations.messages(conversationId),
+    ]);
+    const files = userFiles.filter((file) =>
+      conversation!.fileIds.includes(file.id)
+    );
+
+    // The passage the learner highlighted, kept with their message so later
+    // turns still know what "this" refers to
+    let quoted: Citation | undefined;
+    if (passage) {
+      const source = userFiles.find((file) => file.id === passage.fileId);
+      if (!source) return apiError("not_found", "File not found");
+      quoted = {
+        fileId: source.id,
+        fileName: source.name,
+        location: { kind: passage.location.kind, number: passage.location.number },
+        excerpt: passage.excerpt.trim(),
+      };
+    }
+
+    const userMessage = await conversations.addMessage(conversationId, {
+      type: "user",
+      text: message.trim(),
+      citations: quoted ? [quoted] : [],
+    });
+    if (
+      conversation.title === DEFAULT_TITLE &&
+      !history.some((msg) => msg.type === "user")
+    ) {
+      conversation = await conversations.update(userId, conversationId, {
+        title: titleFrom(message),
+      });
+    } else {
+      conversation = await conversations.get(userId, conversationId);
+    }
+
+    // The learner stopping generation closes the connection
+    const stop = new AbortController();
+    request.signal.addEventListener("abort", () => stop.abort());
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: ChatStreamEvent) => {
+          if (stop.signal.aborted) return;
+          controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+        };
+
+        send({ type: "start", conversation: conversation!, userMessage });
+        try {
+          const { stopped, ...reply } = await respond(
+            {
+              message,
+              passage: quoted,
+              history: history.map((msg) => ({
+                role: msg.type,
+                content:
+                  msg.type === "user" && msg.citations[0]?.excerpt
+                    ? quotePassage(msg.text, msg.citations[0])
+                    : msg.text,
+              })),
+              files,
+              profile,
+            },
+            {
+              onText: (text) => send({ type: "delta", text }),
+              signal: stop.signal,
+            }
+          );
+
+          if (reply.text) {
+            const assistantMessage = await conversations.addMessage(
+              conversationId,
+              { type: "assistant", ...reply }
+            );
+            send({ type: "done", message: assistantMessage, stopped });
+          }
+        } catch (error) {
+          console.error("Chat error:", error);
+          send({
+            type: "error",
+            ...describeError(
+              error,
+              "Wiz AI couldn't answer that. Please try again."
+            ),
+          });
+        }
+        if (!stop.signal.aborted) controller.close();
+      },
+      cancel() {
+        stop.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+      },
+    });
+  } catch (error) {
+    console.error("Chat error:", error);
+    return upstreamError(error, "Wiz AI couldn't answer that. Please try again.");
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getConversationRepository } from "@/lib/conversations/repository";
+import { validateConversationUpdate } from "@/lib/conversations/validate";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const repository = getConversationRepository();
+    const conversation = await repository.get(userId, id);
+    if (!conversation) {
+      return apiError("not_found", "Conversation not found");
+    }
+
+    const messages = await repository.messages(id);
+    return NextResponse.json({ conversation, messages });
+  } catch (error) {
+    console.error("Conversation load error:", error);
+    return apiError("internal_error", "Failed to load conversation");
+  }
+}
+
+export async function PATCH(request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const input = await request.json();
+    const validationError = validateConversationUpdate(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const conversation = await getConversationRepository().update(userId, id, {
+      title: input.title,
+      fileIds: input.fileIds,
+    });
+    if (!conversation) {
+      return apiError("not_found", "Conversation not found");
+    }
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error("Conversation update error:", error);
+    return apiError("internal_error", "Failed to update conversation");
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    await getConversationRepository().delete(userId, id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Conversation delete error:", error);
+    return apiError("internal_error", "Failed to delete conversation");
+  }
+}
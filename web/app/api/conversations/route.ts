@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { welcomeMessage } from "@/lib/chat/persona";
+import { getConversationRepository } from "@/lib/conversations/repository";
+import { validateConversationUpdate } from "@/lib/conversations/validate";
+import { getFileRepository } from "@/lib/files/repository";
+
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const conversations = await getConversationRepository().list(userId);
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error("Conversation list error:", error);
+    return apiError("internal_error", "Failed to load conversations");
+  }
+}
+
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const input = await request.json();
+    const validationError = validateConversationUpdate(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    // Default to every readable file the learner has uploaded
+    const fileIds =
+      input.fileIds ??
+      (await getFileRepository().list(userId))
+        .filter((file) => !file.extractionError)
+        .map((file) => file.id);
+
+    const repository = getConversationRepository();
+    const conversation = await repository.create(userId, {
+      title: input.title,
+      fileIds,
+    });
+    const welcome = await repository.addMessage(conversation.id, {
+      type: "assistant",
+      text: welcomeMessage(fileIds.length),
+      citations: [],
+    });
+
+    return NextResponse.json(
+      { conversation, messages: [welcome] },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error("Conversation create error:", error);
+    return apiError("internal_error", "Failed to start a conversation");
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { buildApkg } from "@/lib/export/apkg";
+import { toDelimited } from "@/lib/export/delimited";
+import { cardNotes, questionNotes } from "@/lib/export/notes";
+import {
+  validateExportRequest,
+  type ExportFormat,
+  type ExportNote,
+} from "@/lib/export/types";
+import { getFlashcardRepository } from "@/lib/flashcards/repository";
+import { parseQuestion } from "@/lib/quiz/parse";
+import type { QuestionContent } from "@/lib/quiz/types";
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  apkg: "application/apkg",
+  csv: "text/csv; charset=utf-8",
+  tsv: "text/tab-separated-values; charset=utf-8",
+};
+
+async function exportBody(format: ExportFormat, title: string, notes: ExportNote[]) {
+  if (format === "apkg") return new Uint8Array(await buildApkg(title, notes));
+  return toDelimited(notes, format === "tsv" ? "\t" : ",");
+}
+
+// Downloads a flashcard deck, or the questions of a quiz, as an Anki package
+// or a CSV/TSV file
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const input = await request.json();
+    const validationError = validateExportRequest(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    let title: string;
+    let notes: ExportNote[];
+    if (input.deckId !== undefined) {
+      const repository = getFlashcardRepository();
+      const deck = await repository.getDeck(userId, input.deckId);
+      if (!deck) {
+        return apiError("not_found", "Flashcard deck not found");
+      }
+      title = deck.title;
+      notes = cardNotes(await repository.cards(userId, deck.id));
+    } else {
+      const questions: QuestionContent[] = [];
+      for (const [index, item] of (input.questions as unknown[]).entries()) {
+        const question = parseQuestion(item, index);
+        if ("error" in question) {
+          return apiError("bad_request", question.error);
+        }
+        questions.push(question);
+      }
+      title = input.title.trim();
+      notes = questionNotes(questions);
+    }
+
+    if (notes.length === 0) {
+      return apiError("unprocessable", "There is nothing to export");
+    }
+
+    const format: ExportFormat = input.format;
+    const fileName = `${title}.${format}`;
+    return new NextResponse(await exportBody(format, title, notes), {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      },
+    });
+  } catch (error) {
+    console.error("Export error:", error);
+    return apiError("internal_error", "Failed to export");
+  }
+}
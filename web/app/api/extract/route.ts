@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { extractDocument } from "@/lib/documents/extract";
+import { ExtractionError } from "@/lib/documents/types";
+import { indexDocument } from "@/lib/documents/vector-index";
+
+const MAX_FILE_BYTES = 25 * 1024 * 1024;
+
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file");
+
+    if (!(file instanceof File)) {
+      return apiError("bad_request", "No file provided");
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return apiError("payload_too_large", "Files must be 25 MB or smaller");
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const document = await extractDocument(buffer, file.name);
+
+    // A failed index only disables grounded answers; the text is still usable
+    let indexed = true;
+    try {
+      await indexDocument(document);
+    } catch (error) {
+      console.error("Indexing error:", error);
+      indexed = false;
+    }
+
+    return NextResponse.json({ ...document, indexed });
+  } catch (error) {
+    if (error instanceof ExtractionError) {
+      return apiError(
+        error.code === "unsupported" ? "unsupported_media_type" : "unprocessable",
+        error.message,
+      );
+    }
+    console.error("Text extraction error:", error);
+    return apiError("internal_error", "Failed to extract text from file");
+  }
+}
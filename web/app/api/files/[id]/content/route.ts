@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { Readable } from "stream";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getFileRepository } from "@/lib/files/repository";
+import { getStorage } from "@/lib/storage";
+
+// The formats text is extracted from. The type comes from the uploader's
+// browser, so anything else (e.g. HTML) is downloaded instead of rendered.
+const INLINE_TYPES = new Set([
+  "application/pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "text/plain",
+]);
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const file = await getFileRepository().get(userId, id);
+    if (!file) {
+      return apiError("not_found", "File not found");
+    }
+
+    const inline = INLINE_TYPES.has(file.type);
+    const body = await getStorage().get(file.storageKey);
+    return new NextResponse(Readable.toWeb(body) as ReadableStream, {
+      headers: {
+        "Content-Type": inline ? file.type : "application/octet-stream",
+        "Content-Length": file.size.toString(),
+        "Content-Disposition": `${inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(file.name)}`,
+        "X-Content-Type-Options": "nosniff",
+      },
+    });
+  } catch (error) {
+    console.error("File download error:", error);
+    return apiError("internal_error", "Failed to load file");
+  }
+}
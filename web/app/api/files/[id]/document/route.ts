@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { loadDocument } from "@/lib/files/documents";
+import { getFileRepository } from "@/lib/files/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+// The text of each page, slide or section, for the document viewer
+export async function GET(_request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const file = await getFileRepository().get(userId, id);
+    if (!file) {
+      return apiError("not_found", "File not found");
+    }
+    if (file.extractionError) {
+      return apiError("unprocessable", file.extractionError);
+    }
+
+    const { format, sections } = await loadDocument(file);
+    return NextResponse.json({ document: { format, sections } });
+  } catch (error) {
+    console.error("Document load error:", error);
+    return apiError("internal_error", "Failed to read document");
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { loadDocument } from "@/lib/files/documents";
+import { getFileRepository } from "@/lib/files/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+// What a document is divided into (pages, slides, or plain text) and how
+// many, so quizzes can be limited to part of it
+export async function GET(_request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const file = await getFileRepository().get(userId, id);
+    if (!file) {
+      return apiError("not_found", "File not found");
+    }
+    if (file.extractionError) {
+      return apiError("unprocessable", file.extractionError);
+    }
+
+    const { sections } = await loadDocument(file);
+    return NextResponse.json({
+      outline: {
+        kind: sections[0]?.kind ?? "text",
+        count: sections.length,
+      },
+    });
+  } catch (error) {
+    console.error("Document outline error:", error);
+    return apiError("internal_error", "Failed to read document");
+  }
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getFileRepository } from "@/lib/files/repository";
+import { toStoredFile, validateFileUpdate } from "@/lib/files/types";
+import { getStorage } from "@/lib/storage";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const input = await request.json();
+    const validationError = validateFileUpdate(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const file = await getFileRepository().update(userId, id, {
+      course: input.course,
+    });
+    if (!file) {
+      return apiError("not_found", "File not found");
+    }
+    return NextResponse.json({ file: toStoredFile(file) });
+  } catch (error) {
+    console.error("File update error:", error);
+    return apiError("internal_error", "Failed to update file");
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const file = await getFileRepository().get(userId, id);
+    if (!file) {
+      return apiError("not_found", "File not found");
+    }
+
+    await getFileRepository().delete(userId, id);
+    await getStorage().delete(file.storageKey);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("File delete error:", error);
+    return apiError("internal_error", "Failed to delete file");
+  }
+}
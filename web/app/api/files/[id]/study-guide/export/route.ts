@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getFileRepository } from "@/lib/files/repository";
+import { toMarkdown } from "@/lib/study-guides/markdown";
+import { toPdf } from "@/lib/study-guides/pdf";
+import { getStudyGuideProvider } from "@/lib/study-guides/providers";
+import { getStudyGuideRepository, toStudyGuide } from "@/lib/study-guides/repository";
+import { GUIDE_EXPORT_FORMATS, type StudyGuideExportFormat } from "@/lib/study-guides/types";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Downloads the file's study guide: ?format=markdown or ?format=pdf
+export async function GET(request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const format = new URL(request.url).searchParams.get("format") as StudyGuideExportFormat;
+    if (!GUIDE_EXPORT_FORMATS.includes(format)) {
+      return apiError("bad_request", `Export as ${GUIDE_EXPORT_FORMATS.join(" or ")}`);
+    }
+
+    const { id } = await params;
+    const file = await getFileRepository().get(userId, id);
+    if (!file) {
+      return apiError("not_found", "File not found");
+    }
+    const cached = await getStudyGuideRepository().get(
+      userId,
+      file.documentId,
+      getStudyGuideProvider().generator
+    );
+    if (!cached) {
+      return apiError("not_found", "Write the study guide before exporting it");
+    }
+
+    const guide = toStudyGuide(file, cached);
+    const baseName = `${file.name.replace(/\.[^.]+$/, "")} study guide`;
+    const [body, type, extension] =
+      format === "pdf"
+        ? [new Uint8Array(toPdf(guide)), "application/pdf", "pdf"]
+        : [toMarkdown(guide), "text/markdown; charset=utf-8", "md"];
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": type,
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(`${baseName}.${extension}`)}`,
+      },
+    });
+  } catch (error) {
+    console.error("Study guide export error:", error);
+    return apiError("internal_error", "Failed to export the study guide");
+  }
+}
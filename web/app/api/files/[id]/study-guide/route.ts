@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import {
+  apiError,
+  describeError,
+  getUserId,
+  unauthorized,
+  upstreamError,
+} from "@/lib/api/server";
+import { loadDocument } from "@/lib/files/documents";
+import { getFileRepository } from "@/lib/files/repository";
+import { writeStudyGuide } from "@/lib/study-guides/generate";
+import { getStudyGuideProvider } from "@/lib/study-guides/providers";
+import { getStudyGuideRepository, toStudyGuide } from "@/lib/study-guides/repository";
+import {
+  StudyGuideGenerationError,
+  type StudyGuideStreamEvent,
+} from "@/lib/study-guides/types";
+
+type Params = { params: Promise<{ id: string }> };
+
+// The cached guide for the file's current contents, if one has been written
+export async function GET(_request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const file = await getFileRepository().get(userId, id);
+    if (!file) {
+      return apiError("not_found", "File not found");
+    }
+
+    const cached = await getStudyGuideRepository().get(
+      userId,
+      file.documentId,
+      getStudyGuideProvider().generator
+    );
+    return NextResponse.json({ guide: cached ? toStudyGuide(file, cached) : null });
+  } catch (error) {
+    console.error("Study guide load error:", error);
+    return apiError("internal_error", "Failed to load the study guide");
+  }
+}
+
+// Writes the guide, streaming progress as newline-delimited JSON. A cached
+// guide is sent straight back unless `refresh` is set.
+export async function POST(request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const { refresh } = await request.json().catch(() => ({}));
+    const file = await getFileRepository().get(userId, id);
+    if (!file) {
+      return apiError("not_found", "File not found");
+    }
+    if (file.extractionError) {
+      return apiError("unprocessable", file.extractionError);
+    }
+
+    const provider = getStudyGuideProvider();
+    const repository = getStudyGuideRepository();
+    const cached = refresh
+      ? null
+      : await repository.get(userId, file.documentId, provider.generator);
+    const document = cached ? null : await loadDocument(file);
+
+    // A learner who leaves stops the updates, but the guide is still
+    // finished and cached for their next visit
+    let cancelled = false;
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: StudyGuideStreamEvent) => {
+          if (cancelled) return;
+          controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+        };
+
+        try {
+          const guide =
+            cached ??
+            (await repository.save(
+              userId,
+              file.documentId,
+              provider.generator,
+              await writeStudyGuide(document!, provider, (done, total) =>
+                send({ type: "progress", done, total })
+              )
+            ));
+          send({ type: "done", guide: toStudyGuide(file, guide) });
+        } catch (error) {
+          console.error("Study guide generation error:", error);
+          send({
+            type: "error",
+            ...(error instanceof StudyGuideGenerationError
+              ? { code: "unprocessable", error: error.message }
+              : describeError(error, "Failed to write the study guide")),
+          });
+        }
+        if (!cancelled) controller.close();
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "application/x-ndjson; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+      },
+    });
+  } catch (error) {
+    console.error("Study guide generation error:", error);
+    return upstreamError(error, "Failed to write the study guide");
+  }
+}
@@ -0,0 +1,76 @@
+import { randomUUID } from "crypto";
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { ExtractionError } from "@/lib/documents/types";
+import { indexDocument } from "@/lib/documents/vector-index";
+import { loadDocument } from "@/lib/files/documents";
+import { getFileRepository } from "@/lib/files/repository";
+import { toStoredFile, type FileRecord } from "@/lib/files/types";
+import { receiveUpload, UploadError } from "@/lib/files/upload";
+import { getStorage } from "@/lib/storage";
+
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const files = await getFileRepository().list(userId);
+    return NextResponse.json({ files: files.map(toStoredFile) });
+  } catch (error) {
+    console.error("File list error:", error);
+    return apiError("internal_error", "Failed to load your files");
+  }
+}
+
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  const id = randomUUID();
+  const storageKey = `${userId}/${id}`;
+  let saved = false;
+
+  try {
+    const received = await receiveUpload(request, storageKey);
+
+    const record: FileRecord = {
+      id,
+      userId,
+      storageKey,
+      name: received.name,
+      type: received.type,
+      size: received.size,
+      documentId: received.hash,
+      extractionError: null,
+      course: null,
+      createdAt: new Date().toISOString(),
+    };
+
+    // Unreadable files are kept so the learner can see why they can't be used
+    try {
+      const document = await loadDocument(record);
+      await indexDocument(document).catch((error) => {
+        console.error("Indexing error:", error);
+      });
+    } catch (error) {
+      if (!(error instanceof ExtractionError)) throw error;
+      record.extractionError = error.message;
+    }
+
+    await getFileRepository().create(record);
+    saved = true;
+    return NextResponse.json({ file: toStoredFile(record) }, { status: 201 });
+  } catch (error) {
+    // Nothing refers to the stored bytes until the record is saved
+    if (!saved) {
+      await getStorage()
+        .delete(storageKey)
+        .catch((deleteError) => console.error("Upload cleanup error:", deleteError));
+    }
+    if (error instanceof UploadError) {
+      return apiError(error.code, error.message);
+    }
+    console.error("Upload error:", error);
+    return apiError("internal_error", "Failed to upload file");
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getFlashcardRepository } from "@/lib/flashcards/repository";
+import { validateCardRating } from "@/lib/flashcards/types";
+
+type Params = { params: Promise<{ id: string; cardId: string }> };
+
+// Records how well the learner recalled a card and reschedules it
+export async function POST(request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id, cardId } = await params;
+    const input = await request.json();
+    const validationError = validateCardRating(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const card = await getFlashcardRepository().rateCard(
+      userId,
+      id,
+      cardId,
+      input.rating
+    );
+    if (!card) {
+      return apiError("not_found", "Flashcard not found");
+    }
+    return NextResponse.json({ card });
+  } catch (error) {
+    console.error("Flashcard rating error:", error);
+    return apiError("internal_error", "Failed to save your rating");
+  }
+}
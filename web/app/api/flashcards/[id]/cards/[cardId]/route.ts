@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getFlashcardRepository } from "@/lib/flashcards/repository";
+import { validateCardContent } from "@/lib/flashcards/types";
+
+type Params = { params: Promise<{ id: string; cardId: string }> };
+
+export async function PATCH(request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id, cardId } = await params;
+    const input = await request.json();
+    const validationError = validateCardContent(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const card = await getFlashcardRepository().updateCard(userId, id, cardId, {
+      kind: input.kind,
+      front: input.front,
+      back: input.back,
+    });
+    if (!card) {
+      return apiError("not_found", "Flashcard not found");
+    }
+    return NextResponse.json({ card });
+  } catch (error) {
+    console.error("Flashcard update error:", error);
+    return apiError("internal_error", "Failed to update flashcard");
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id, cardId } = await params;
+    const deleted = await getFlashcardRepository().deleteCard(userId, id, cardId);
+    if (!deleted) {
+      return apiError("not_found", "Flashcard not found");
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Flashcard delete error:", error);
+    return apiError("internal_error", "Failed to delete flashcard");
+  }
+}
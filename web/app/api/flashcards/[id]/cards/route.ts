@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getFlashcardRepository } from "@/lib/flashcards/repository";
+import { validateCardContent } from "@/lib/flashcards/types";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Adds a card the learner wrote to the end of the deck
+export async function POST(request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const input = await request.json();
+    const validationError = validateCardContent(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const card = await getFlashcardRepository().addCard(userId, id, {
+      kind: input.kind,
+      front: input.front,
+      back: input.back,
+    });
+    if (!card) {
+      return apiError("not_found", "Flashcard deck not found");
+    }
+    return NextResponse.json({ card }, { status: 201 });
+  } catch (error) {
+    console.error("Flashcard create error:", error);
+    return apiError("internal_error", "Failed to add flashcard");
+  }
+}
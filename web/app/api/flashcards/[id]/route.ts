@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getFlashcardRepository } from "@/lib/flashcards/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const repository = getFlashcardRepository();
+    const deck = await repository.getDeck(userId, id);
+    if (!deck) {
+      return apiError("not_found", "Flashcard deck not found");
+    }
+    return NextResponse.json({ deck, cards: await repository.cards(userId, id) });
+  } catch (error) {
+    console.error("Flashcard deck load error:", error);
+    return apiError("internal_error", "Failed to load flashcard deck");
+  }
+}
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const deleted = await getFlashcardRepository().deleteDeck(userId, id);
+    if (!deleted) {
+      return apiError("not_found", "Flashcard deck not found");
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Flashcard deck delete error:", error);
+    return apiError("internal_error", "Failed to delete flashcard deck");
+  }
+}
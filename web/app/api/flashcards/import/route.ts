@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { parseDelimited } from "@/lib/export/delimited";
+import { MAX_IMPORT_CARDS, validateImportRequest } from "@/lib/export/types";
+import { getFlashcardRepository } from "@/lib/flashcards/repository";
+import { validateCardContent, type CardContent } from "@/lib/flashcards/types";
+
+// Creates a deck from a CSV or TSV of front/back pairs, such as an Anki export
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const input = await request.json();
+    const validationError = validateImportRequest(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const cards = parseDelimited(input.content)
+      .slice(0, MAX_IMPORT_CARDS)
+      .map(({ front, back }): CardContent => ({
+        kind: front.endsWith("?") ? "qa" : "term",
+        front,
+        back,
+      }))
+      // Drops rows too long to be a card
+      .filter((card) => !validateCardContent(card));
+    if (cards.length === 0) {
+      return apiError(
+        "unprocessable",
+        "No cards found. Put the front in the first column and the back in the second."
+      );
+    }
+
+    const deck = await getFlashcardRepository().createDeck(userId, {
+      fileId: null,
+      fileName: null,
+      title: input.title,
+      cards,
+    });
+    return NextResponse.json({ deck }, { status: 201 });
+  } catch (error) {
+    console.error("Flashcard import error:", error);
+    return apiError("internal_error", "Failed to import flashcards");
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized, upstreamError } from "@/lib/api/server";
+import { getFlashcardProvider } from "@/lib/flashcards/providers";
+import { getFlashcardRepository } from "@/lib/flashcards/repository";
+import {
+  DEFAULT_CARD_COUNT,
+  FlashcardGenerationError,
+  validateDeckRequest,
+} from "@/lib/flashcards/types";
+import { loadDocument } from "@/lib/files/documents";
+import { getFileRepository } from "@/lib/files/repository";
+
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const decks = await getFlashcardRepository().listDecks(userId);
+    return NextResponse.json({ decks });
+  } catch (error) {
+    console.error("Flashcard deck list error:", error);
+    return apiError("internal_error", "Failed to load your flashcards");
+  }
+}
+
+// Generates a deck of flashcards from one of the learner's files
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const input = await request.json();
+    const validationError = validateDeckRequest(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const file = await getFileRepository().get(userId, input.fileId);
+    if (!file) {
+      return apiError("not_found", "File not found");
+    }
+    if (file.extractionError) {
+      return apiError("unprocessable", file.extractionError);
+    }
+
+    const document = await loadDocument(file);
+    const cards = await getFlashcardProvider().generateCards({
+      content: document.text,
+      fileName: file.name,
+      count: input.count ?? DEFAULT_CARD_COUNT,
+    });
+
+    const repository = getFlashcardRepository();
+    const deck = await repository.createDeck(userId, {
+      fileId: file.id,
+      fileName: file.name,
+      title: file.name,
+      cards,
+    });
+    return NextResponse.json(
+      { deck, cards: await repository.cards(userId, deck.id) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof FlashcardGenerationError) {
+      return apiError("unprocessable", error.message);
+    }
+    console.error("Flashcard generation error:", error);
+    return upstreamError(error, "Failed to generate flashcards");
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getProfileRepository } from "@/lib/profiles/repository";
+import { validateProfileInput, type ProfileInput } from "@/lib/profiles/types";
+
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const profile = await getProfileRepository().get(userId);
+    if (!profile) {
+      return apiError("not_found", "Profile not found");
+    }
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error("Profile load error:", error);
+    return apiError("internal_error", "Failed to load profile");
+  }
+}
+
+export async function PUT(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const input = await request.json();
+    const validationError = validateProfileInput(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const { name, studyLevel, mainSubject, learningStyle } = input as ProfileInput;
+    const profile = await getProfileRepository().upsert(userId, {
+      name,
+      studyLevel,
+      mainSubject,
+      learningStyle,
+    });
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error("Profile save error:", error);
+    return apiError("internal_error", "Failed to save profile");
+  }
+}
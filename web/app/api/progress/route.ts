@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { summarizeProgress } from "@/lib/attempts/progress";
+import { getAttemptRepository } from "@/lib/attempts/repository";
+
+// Largest real-world UTC offset, in minutes
+const MAX_OFFSET_MINUTES = 14 * 60;
+
+// Score trend, per-document mastery and streaks. `offset` is the browser's
+// Date#getTimezoneOffset() so streak days follow the learner's calendar.
+export async function GET(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  const offset = Number(new URL(request.url).searchParams.get("offset") ?? 0);
+  if (!Number.isInteger(offset) || Math.abs(offset) > MAX_OFFSET_MINUTES) {
+    return apiError("bad_request", "offset must be a time zone offset in minutes");
+  }
+
+  try {
+    const attempts = await getAttemptRepository().list(userId);
+    return NextResponse.json({
+      progress: summarizeProgress(attempts, { offsetMinutes: offset }),
+    });
+  } catch (error) {
+    console.error("Progress error:", error);
+    return apiError("internal_error", "Failed to load your progress");
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized, upstreamError } from "@/lib/api/server";
+import { parseQuestion } from "@/lib/quiz/parse";
+import { getQuizProvider } from "@/lib/quiz/providers";
+import { QuizGenerationError } from "@/lib/quiz/types";
+
+const MAX_ANSWER_CHARS = 2000;
+
+// Grades a short free-text answer against its question's rubric. Every
+// other kind of question is graded in the browser.
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const body = await request.json();
+    const question = parseQuestion(body.question, 0);
+    if ("error" in question) {
+      return apiError("bad_request", question.error);
+    }
+    if (question.type !== "short_answer") {
+      return apiError("bad_request", "Only short answers are graded here");
+    }
+
+    const answer = typeof body.answer === "string" ? body.answer.trim() : "";
+    if (!answer) {
+      return apiError("bad_request", "An answer is required");
+    }
+    if (answer.length > MAX_ANSWER_CHARS) {
+      return apiError(
+        "bad_request",
+        `Answers can be at most ${MAX_ANSWER_CHARS} characters`
+      );
+    }
+
+    const result = await getQuizProvider().gradeShortAnswer(
+      { ...question, id: 0 },
+      answer
+    );
+    return NextResponse.json({ result });
+  } catch (error) {
+    if (error instanceof QuizGenerationError) {
+      return apiError("unprocessable", error.message);
+    }
+    console.error("Answer grading error:", error);
+    return upstreamError(error, "Failed to grade your answer");
+  }
+}
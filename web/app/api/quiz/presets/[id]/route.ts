@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getQuizPresetRepository } from "@/lib/quiz/repository";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(_request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const deleted = await getQuizPresetRepository().delete(userId, id);
+    if (!deleted) {
+      return apiError("not_found", "Quiz preset not found");
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error("Quiz preset delete error:", error);
+    return apiError("internal_error", "Failed to delete quiz preset");
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getQuizPresetRepository } from "@/lib/quiz/repository";
+import {
+  validateQuizPresetInput,
+  type QuizPresetInput,
+} from "@/lib/quiz/settings";
+
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const presets = await getQuizPresetRepository().list(userId);
+    return NextResponse.json({ presets });
+  } catch (error) {
+    console.error("Quiz preset list error:", error);
+    return apiError("internal_error", "Failed to load quiz presets");
+  }
+}
+
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const input = await request.json();
+    const validationError = validateQuizPresetInput(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const { name, settings } = input as QuizPresetInput;
+    const preset = await getQuizPresetRepository().create(userId, {
+      name,
+      // Page selections belong to one document, so presets leave them out
+      settings: { ...settings, sections: null },
+    });
+    return NextResponse.json({ preset }, { status: 201 });
+  } catch (error) {
+    console.error("Quiz preset create error:", error);
+    return apiError("internal_error", "Failed to save quiz preset");
+  }
+}
@@ -0,0 +1,206 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized, upstreamError } from "@/lib/api/server";
+import { formatSections } from "@/lib/documents/extract";
+import type { DocumentSection } from "@/lib/documents/types";
+import { loadDocument } from "@/lib/files/documents";
+import { getFileRepository } from "@/lib/files/repository";
+import type { FileRecord } from "@/lib/files/types";
+import { getQuizProvider } from "@/lib/quiz/providers";
+import {
+  DEFAULT_QUIZ_SETTINGS,
+  validateQuizSettings,
+  type QuizSettings,
+} from "@/lib/quiz/settings";
+import { interleave, locateQuestion, MAX_QUIZ_FILES, splitCount } from "@/lib/quiz/sources";
+import { QuizGenerationError, type Question } from "@/lib/quiz/types";
+
+// One document's share of the quiz, narrowed to the chosen pages
+interface QuizPart {
+  file: FileRecord;
+  sections: DocumentSection[];
+  content: string;
+}
+
+function generationSettings({
+  count,
+  difficulty,
+  bloomLevel,
+  questionTypes,
+}: QuizSettings) {
+  return { count, difficulty, bloomLevel, questionTypes };
+}
+
+// Balances the questions across the files, tags each with the page it came
+// from and mixes the sources. Returns an error response for unusable files.
+async function generateFromFiles(
+  userId: string,
+  fileIds: string[],
+  settings: QuizSettings
+): Promise<Question[] | NextResponse> {
+  const files = [];
+  for (const id of fileIds) {
+    const file = await getFileRepository().get(userId, id);
+    if (!file) {
+      return apiError("not_found", "File not found");
+    }
+    if (file.extractionError) {
+      return apiError("unprocessable", `${file.name}: ${file.extractionError}`);
+    }
+    files.push(file);
+  }
+
+  const parts: QuizPart[] = [];
+  for (const file of files) {
+    const document = await loadDocument(file);
+    let sections = document.sections;
+    let content = document.text;
+    if (settings.sections) {
+      sections = sections.filter((section) =>
+        settings.sections!.includes(section.number)
+      );
+      if (sections.length === 0) {
+        return apiError(
+          "bad_request",
+          "None of the selected pages are in this document"
+        );
+      }
+      content = formatSections(sections);
+    }
+    parts.push({ file, sections, content });
+  }
+
+  const generate = async (
+    { file, sections, content }: QuizPart,
+    count: number
+  ): Promise<Question[]> => {
+    const questions = await getQuizProvider().generateQuestions({
+      content,
+      fileName: file.name,
+      ...generationSettings(settings),
+      count,
+    });
+    // Unplaced questions point at the document as a whole
+    return questions.map((question) => ({
+      ...question,
+      source: {
+        fileId: file.id,
+        fileName: file.name,
+        ...(locateQuestion(question, sections) ?? {
+          location: { kind: "text", number: 1 },
+        }),
+      },
+    }));
+  };
+
+  const counts = splitCount(settings.count, parts.length);
+  const groups: (Question[] | null)[] = [];
+  let lastError: QuizGenerationError | null = null;
+
+  // A document too short to quiz on shouldn't sink the whole course
+  for (const [index, part] of parts.entries()) {
+    try {
+      groups.push(await generate(part, counts[index]));
+    } catch (error) {
+      if (!(error instanceof QuizGenerationError)) throw error;
+      lastError = error;
+      groups.push(null);
+    }
+  }
+
+  const usable = parts.flatMap((_, index) => (groups[index] ? [index] : []));
+  if (usable.length === 0) throw lastError;
+
+  // Nor shrink the quiz: the other documents are asked again for the
+  // questions it would have had, keeping their first set if that fails
+  const missing = counts.reduce(
+    (sum, count, index) => (groups[index] ? sum : sum + count),
+    0
+  );
+  if (missing > 0) {
+    const extra = splitCount(missing, usable.length);
+    for (const [position, index] of usable.entries()) {
+      if (extra[position] === 0) continue;
+      try {
+        groups[index] = await generate(parts[index], counts[index] + extra[position]);
+      } catch (error) {
+        if (!(error instanceof QuizGenerationError)) throw error;
+      }
+    }
+  }
+
+  return interleave(groups.filter((group) => group !== null)).map((question, index) => ({
+    ...question,
+    id: index + 1,
+  }));
+}
+
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const body = await request.json();
+    const { content, fileName } = body;
+
+    let settings: QuizSettings = DEFAULT_QUIZ_SETTINGS;
+    if (body.settings !== undefined) {
+      const validationError = validateQuizSettings(body.settings);
+      if (validationError) {
+        return apiError("bad_request", validationError);
+      }
+      settings = body.settings;
+    }
+
+    const fileIds: unknown = body.fileIds;
+    if (fileIds !== undefined) {
+      if (
+        !Array.isArray(fileIds) ||
+        fileIds.length === 0 ||
+        !fileIds.every((id) => typeof id === "string")
+      ) {
+        return apiError("bad_request", "fileIds must be a list of file ids");
+      }
+      const uniqueIds = Array.from(new Set(fileIds as string[]));
+      if (uniqueIds.length > MAX_QUIZ_FILES) {
+        return apiError(
+          "bad_request",
+          `Choose up to ${MAX_QUIZ_FILES} documents for one quiz`
+        );
+      }
+      if (uniqueIds.length > settings.count) {
+        return apiError(
+          "bad_request",
+          "Ask for at least one question per document"
+        );
+      }
+      if (uniqueIds.length > 1 && settings.sections) {
+        return apiError(
+          "bad_request",
+          "Pages can only be chosen when quizzing on one document"
+        );
+      }
+
+      const questions = await generateFromFiles(userId, uniqueIds, settings);
+      if (questions instanceof NextResponse) return questions;
+      return NextResponse.json({ questions });
+    }
+
+    if (typeof content !== "string" || !content.trim()) {
+      return apiError("bad_request", "File content is required");
+    }
+
+    const questions = await getQuizProvider().generateQuestions({
+      content,
+      fileName: typeof fileName === "string" ? fileName : undefined,
+      ...generationSettings(settings),
+    });
+
+    return NextResponse.json({ questions });
+  } catch (error) {
+    if (error instanceof QuizGenerationError) {
+      return apiError("unprocessable", error.message);
+    }
+    console.error("Quiz generation error:", error);
+    return upstreamError(error, "Failed to generate quiz");
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { parseQuestion } from "@/lib/quiz/parse";
+import type { QuestionContent } from "@/lib/quiz/types";
+import { getReviewRepository } from "@/lib/reviews/repository";
+import { validateReviewAnswer, type ReviewAnswerInput } from "@/lib/reviews/types";
+
+const MAX_DECK_SIZE = 20;
+
+// The learner's due review deck, oldest first, with the total due count
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const repository = getReviewRepository();
+    const [items, dueCount] = await Promise.all([
+      repository.due(userId, MAX_DECK_SIZE),
+      repository.countDue(userId),
+    ]);
+    return NextResponse.json({ items, dueCount });
+  } catch (error) {
+    console.error("Review deck error:", error);
+    return apiError("internal_error", "Failed to load your review deck");
+  }
+}
+
+// Records one answered quiz question
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const input = await request.json();
+    const validationError = validateReviewAnswer(input);
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const { fileId, fileName, correct } = input as ReviewAnswerInput;
+    const item = await getReviewRepository().recordAnswer(userId, {
+      fileId: fileId ?? null,
+      fileName: typeof fileName === "string" ? fileName : null,
+      // Stores the normalized question rather than whatever was sent
+      question: parseQuestion(input.question, 0) as QuestionContent,
+      correct,
+    });
+    return NextResponse.json({ item }, { status: 201 });
+  } catch (error) {
+    console.error("Review answer error:", error);
+    return apiError("internal_error", "Failed to save your answer");
+  }
+}
@@ -1,39 +0,0 @@
-import { NextApiRequest, NextApiResponse } from 'next';
-import axios from 'axios';
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  try {
-    const { text } = req.body;
-
-    // ElevenLabs configuration
-    const response = await axios.post(
-      `https://api.elevenlabs.io/v1/text-to-speech/${process.env.ELEVEN_LABS_VOICE_ID}`,
-      {
-        text,
-        model_id: 'eleven_monolingual_v1',
-        voice_settings: {
-          stability: 0.5,
-          similarity_boost: 0.5,
-        },
-      },
-      {
-        headers: {
-          'Accept': 'audio/mpeg',
-          'xi-api-key': process.env.ELEVEN_LABS_API_KEY,
-          'Content-Type': 'application/json',
-        },
-        responseType: 'arraybuffer',
-      }
-    );
-
-    res.setHeader('Content-Type', 'audio/mpeg');
-    res.send(Buffer.from(response.data));
-  } catch (error) {
-    console.error('Text-to-speech error:', error);
-    res.status(500).json({ error: 'Speech generation failed' });
-  }
-}
\ No newline at end of file
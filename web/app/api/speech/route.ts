@@ -1,39 +1,68 @@
-import OpenAI from "openai";
 import { NextResponse } from "next/server";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { apiError, getUserId, unauthorized, upstreamError } from "@/lib/api/server";
+import { getSpeechProvider } from "@/lib/speech/providers";
+import { getSpeechSettingsRepository } from "@/lib/speech/repository";
+import {
+  MAX_SPEECH_CHARS,
+  SPEECH_CONTENT_TYPES,
+  SpeechProviderError,
+  validateSpeechOptions,
+  type SpeechOptions,
+} from "@/lib/speech/types";
 
 export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
   try {
-    const { text } = await request.json();
+    const { text, voice, speed, format } = await request.json();
 
-    if (!text) {
-      return NextResponse.json({ error: "Text is required" }, { status: 400 });
+    if (typeof text !== "string" || !text.trim()) {
+      return apiError("bad_request", "Text is required");
+    }
+    if (text.length > MAX_SPEECH_CHARS) {
+      return apiError(
+        "bad_request",
+        `Text must be ${MAX_SPEECH_CHARS} characters or fewer`
+      );
     }
 
-    const mp3 = await openai.audio.speech.create({
-      model: "tts-1",
-      voice: "alloy",
-      input: text,
-    });
+    const settings = await getSpeechSettingsRepository().get(userId);
+    const provider = getSpeechProvider(settings?.provider);
 
-    // Convert the raw response to a blob
-    const buffer = Buffer.from(await mp3.arrayBuffer());
+    const validationError = validateSpeechOptions(provider, { voice, speed, format });
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
 
-    // Return the audio file
-    return new NextResponse(buffer, {
+    // Request options override the learner's saved settings. A saved voice
+    // only applies to the provider it was picked for.
+    const savedVoice =
+      settings?.provider === provider.name ? settings.voice : null;
+    const savedSpeed = Math.min(
+      Math.max(settings?.speed ?? 1, provider.minSpeed),
+      provider.maxSpeed
+    );
+    const options: SpeechOptions = {
+      voice: voice ?? savedVoice ?? provider.defaultVoice,
+      speed: speed ?? savedSpeed,
+      format: format ?? provider.formats[0],
+    };
+
+    const audio = await provider.synthesize(text, options);
+    return new NextResponse(audio, {
       headers: {
-        "Content-Type": "audio/mpeg",
-        "Content-Length": buffer.length.toString(),
+        "Content-Type": SPEECH_CONTENT_TYPES[options.format],
+        "Content-Length": audio.length.toString(),
       },
     });
   } catch (error) {
     console.error("Speech generation error:", error);
-    return NextResponse.json(
-      { error: "Failed to generate speech" },
-      { status: 500 },
-    );
+    if (error instanceof SpeechProviderError) {
+      return error.status === 429
+        ? apiError("rate_limited", "Too many speech requests. Please try again in a moment.")
+        : apiError("upstream_error", "Failed to generate speech");
+    }
+    return upstreamError(error, "Failed to generate speech");
   }
 }
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import {
+  availableSpeechProviders,
+  getSpeechProvider,
+  toProviderInfo,
+} from "@/lib/speech/providers";
+import { getSpeechSettingsRepository } from "@/lib/speech/repository";
+import {
+  DEFAULT_SPEECH_SETTINGS,
+  validateSpeechSettings,
+  type SpeechSettings,
+} from "@/lib/speech/types";
+
+export async function GET() {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const settings = await getSpeechSettingsRepository().get(userId);
+    return NextResponse.json({
+      settings: settings ?? DEFAULT_SPEECH_SETTINGS,
+      providers: availableSpeechProviders().map(toProviderInfo),
+      defaultProvider: getSpeechProvider().name,
+    });
+  } catch (error) {
+    console.error("Speech settings load error:", error);
+    return apiError("internal_error", "Failed to load speech settings");
+  }
+}
+
+export async function PUT(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const input = await request.json();
+    const validationError = validateSpeechSettings(
+      input,
+      availableSpeechProviders()
+    );
+    if (validationError) {
+      return apiError("bad_request", validationError);
+    }
+
+    const { provider, voice, speed } = input as SpeechSettings;
+    const settings = await getSpeechSettingsRepository().upsert(userId, {
+      provider,
+      voice,
+      speed,
+    });
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("Speech settings save error:", error);
+    return apiError("internal_error", "Failed to save speech settings");
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getTranscriptionService } from "@/lib/transcription/service";
+import { toTranscriptionJob } from "@/lib/transcription/types";
+
+type Params = { params: Promise<{ id: string }> };
+
+// Reports a job's status, advancing it by one provider poll if needed.
+// Completed jobs include the transcript text.
+export async function GET(_request: Request, { params }: Params) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const { id } = await params;
+    const job = await getTranscriptionService().get(userId, id);
+    if (!job) {
+      return apiError("not_found", "Transcription not found");
+    }
+    return NextResponse.json({ job: toTranscriptionJob(job) });
+  } catch (error) {
+    console.error("Transcription status error:", error);
+    return apiError("internal_error", "Failed to check transcription status");
+  }
+}
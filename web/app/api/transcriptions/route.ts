@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { apiError, getUserId, unauthorized } from "@/lib/api/server";
+import { getTranscriptionService } from "@/lib/transcription/service";
+import { toTranscriptionJob } from "@/lib/transcription/types";
+
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+export async function POST(request: Request) {
+  const userId = await getUserId();
+  if (!userId) return unauthorized();
+
+  try {
+    const formData = await request.formData();
+    const audio = formData.get("audio");
+
+    if (!(audio instanceof File)) {
+      return apiError("bad_request", "No audio file provided");
+    }
+    if (audio.size > MAX_AUDIO_BYTES) {
+      return apiError("payload_too_large", "Recordings must be 25 MB or smaller");
+    }
+
+    const { job } = await getTranscriptionService().create(userId, {
+      data: Buffer.from(await audio.arrayBuffer()),
+      fileName: audio.name || "audio.webm",
+      contentType: audio.type || "audio/webm",
+    });
+
+    return NextResponse.json(
+      { job: toTranscriptionJob(job) },
+      { status: 202 },
+    );
+  } catch (error) {
+    console.error("Transcription error:", error);
+    return apiError("internal_error", "Failed to transcribe audio. Please try again.");
+  }
+}
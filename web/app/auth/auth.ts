@@ -1,8 +1,13 @@
-import NextAuth from "next-auth";
+import type { DefaultSession, NextAuthOptions } from "next-auth";
 import GoogleProvider from "next-auth/providers/google";
-import { NextAuthConfig } from "next-auth";
 
-export const authConfig: NextAuthConfig = {
+declare module "next-auth" {
+  interface Session {
+    user?: DefaultSession["user"] & { id?: string };
+  }
+}
+
+export const authOptions: NextAuthOptions = {
   providers: [
     GoogleProvider({
       clientId: process.env.GOOGLE_CLIENT_ID!,
@@ -21,7 +26,7 @@ export const authConfig: NextAuthConfig = {
       }
       return session;
     },
-    async jwt({ token, user, account }) {
+    async jwt({ token, account }) {
       // Add auth provider's access token to the token
       if (account) {
         token.accessToken = account.access_token;
@@ -36,5 +41,3 @@ export const authConfig: NextAuthConfig = {
     },
   },
 };
-
-export const { handlers, auth, signIn, signOut } = NextAuth(authConfig);
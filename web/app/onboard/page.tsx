@@ -1,5 +1,10 @@
 import OnboardPage from "@/components/pages/OnboardPage";
 
-export default function App() {
-  return <OnboardPage />;
+export default async function App({
+  searchParams,
+}: {
+  searchParams: Promise<{ edit?: string }>;
+}) {
+  const { edit } = await searchParams;
+  return <OnboardPage editing={edit === "1"} />;
 }
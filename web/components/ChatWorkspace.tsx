@@ -0,0 +1,199 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import ConversationSidebar from "./ConversationSidebar";
+import VoiceChat, { type Message } from "./VoiceChat";
+import { getJson, postJson, sendJson } from "@/lib/api/client";
+import type {
+  Conversation,
+  NewChat,
+  StoredMessage,
+} from "@/lib/conversations/types";
+import type { Citation } from "@/lib/documents/types";
+import type { StoredFile } from "@/lib/files/types";
+import type { Profile } from "@/lib/profiles/types";
+
+interface ChatWorkspaceProps {
+  files: StoredFile[];
+  profile?: Profile | null;
+  // Opened in place of the latest conversation, e.g. from a quiz question or
+  // a passage highlighted in the document viewer
+  newChat?: NewChat | null;
+  onNewChatStarted?: () => void;
+  onOpenCitation?: (citation: Citation) => void;
+}
+
+interface ConversationPayload {
+  conversation: Conversation;
+  messages: StoredMessage[];
+}
+
+export default function ChatWorkspace({
+  files,
+  profile = null,
+  newChat = null,
+  onNewChatStarted,
+  onOpenCitation,
+}: ChatWorkspaceProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [active, setActive] = useState<Conversation | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  // Sent (or left as a draft) for the learner when the new conversation opens
+  const [opening, setOpening] = useState<NewChat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  // Read once the list arrives, so a chat handed over mid-load still opens
+  const newChatRef = useRef(newChat);
+  newChatRef.current = newChat;
+
+  const open = useCallback(({ conversation, messages }: ConversationPayload) => {
+    setActive(conversation);
+    setMessages(messages);
+    setOpening(null);
+  }, []);
+
+  const createConversation = useCallback(
+    async (chat?: NewChat) => {
+      try {
+        const data = await postJson<ConversationPayload>(
+          "/api/conversations",
+          chat ? { title: chat.title, fileIds: chat.fileIds } : {}
+        );
+        setConversations((prev) => [data.conversation, ...prev]);
+        open(data);
+        if (chat) setOpening(chat);
+      } catch (error) {
+        console.error("Error creating conversation:", error);
+        setError((error as Error).message);
+      }
+    },
+    [open]
+  );
+
+  const selectConversation = useCallback(
+    async (id: string) => {
+      try {
+        open(await getJson<ConversationPayload>(`/api/conversations/${id}`));
+      } catch (error) {
+        console.error("Error loading conversation:", error);
+        setError((error as Error).message);
+      }
+    },
+    [open]
+  );
+
+  // Keeps the sidebar in sync with titles and timestamps set by the server
+  const updateConversation = (conversation: Conversation) => {
+    setActive((prev) => (prev?.id === conversation.id ? conversation : prev));
+    setConversations((prev) =>
+      prev
+        .map((c) => (c.id === conversation.id ? conversation : c))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    );
+  };
+
+  const renameConversation = async (id: string, title: string) => {
+    try {
+      const data = await sendJson<{ conversation: Conversation }>(
+        "PATCH",
+        `/api/conversations/${id}`,
+        { title }
+      );
+      updateConversation(data.conversation);
+    } catch (error) {
+      console.error("Error renaming conversation:", error);
+      setError((error as Error).message);
+    }
+  };
+
+  const deleteConversation = async (id: string) => {
+    try {
+      await sendJson("DELETE", `/api/conversations/${id}`);
+      const remaining = conversations.filter((c) => c.id !== id);
+      setConversations(remaining);
+
+      if (active?.id === id) {
+        if (remaining.length > 0) {
+          await selectConversation(remaining[0].id);
+        } else {
+          await createConversation();
+        }
+      }
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+      setError((error as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    const loadConversations = async () => {
+      try {
+        const data = await getJson<{ conversations: Conversation[] }>(
+          "/api/conversations"
+        );
+        setConversations(data.conversations);
+
+        // Pick up where the learner left off, or start their first chat,
+        // unless one was handed over to open instead
+        if (!newChatRef.current) {
+          if (data.conversations.length > 0) {
+            await selectConversation(data.conversations[0].id);
+          } else {
+            await createConversation();
+          }
+        }
+      } catch (error) {
+        console.error("Error loading conversations:", error);
+        setError((error as Error).message);
+      }
+      setLoaded(true);
+    };
+
+    loadConversations();
+  }, [createConversation, selectConversation]);
+
+  // A chat handed over, once the list has loaded. It's marked started
+  // before opening so a re-render can't open it twice.
+  useEffect(() => {
+    if (!loaded || !newChat) return;
+    onNewChatStarted?.();
+    createConversation(newChat);
+  }, [loaded, newChat, createConversation, onNewChatStarted]);
+
+  return (
+    <div className="flex gap-4">
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={active?.id ?? null}
+        onSelect={selectConversation}
+        onCreate={() => createConversation()}
+        onRename={renameConversation}
+        onDelete={deleteConversation}
+      />
+
+      <div className="flex-1 min-w-0">
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {active && (
+          <VoiceChat
+            key={active.id}
+            conversation={active}
+            files={files}
+            messages={messages}
+            setMessages={setMessages}
+            initialMessage={opening && !opening.draft ? opening.message : null}
+            initialDraft={opening?.draft ? opening.message : null}
+            initialPassage={opening?.passage ?? null}
+            onConversationChange={updateConversation}
+            profile={profile}
+            onOpenCitation={onOpenCitation}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { MessageSquare, Pencil, Plus, Trash2 } from "lucide-react";
+import type { Conversation } from "@/lib/conversations/types";
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function ConversationSidebar({
+  conversations,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const finishEditing = () => {
+    const conversation = conversations.find((c) => c.id === editingId);
+    const title = draftTitle.trim();
+    if (conversation && title && title !== conversation.title) {
+      onRename(conversation.id, title);
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversation.title}"?`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <div className="flex flex-col w-64 shrink-0 border-r pr-4 gap-2">
+      <Button onClick={onCreate} variant="outline" className="w-full">
+        <Plus className="w-4 h-4 mr-2" />
+        New Chat
+      </Button>
+
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`group flex items-center rounded-md text-sm ${
+              conversation.id === activeId
+                ? "bg-blue-50 text-blue-700"
+                : "hover:bg-gray-100"
+            }`}
+          >
+            {editingId === conversation.id ? (
+              <Input
+                autoFocus
+                value={draftTitle}
+                maxLength={100}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onBlur={finishEditing}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") finishEditing();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                className="h-8"
+              />
+            ) : (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onSelect(conversation.id)}
+                  className="flex flex-1 items-center min-w-0 p-2 text-left"
+                >
+                  <MessageSquare className="w-4 h-4 mr-2 shrink-0" />
+                  <span className="truncate">{conversation.title}</span>
+                </button>
+                <div className="hidden group-hover:flex pr-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => startEditing(conversation)}
+                    title="Rename"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-red-500"
+                    onClick={() => handleDelete(conversation)}
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
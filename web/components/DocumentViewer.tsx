@@ -0,0 +1,333 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { ExternalLink, Sparkles, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getJson } from "@/lib/api/client";
+import {
+  askAboutPassage,
+  MAX_PASSAGE_CHARS,
+  PASSAGE_ACTION_LABELS,
+  PASSAGE_ACTIONS,
+  type PassageAction,
+} from "@/lib/chat/passages";
+import type { NewChat } from "@/lib/conversations/types";
+import { formatLocation } from "@/lib/documents/citations";
+import { findPassage } from "@/lib/documents/highlight";
+import type {
+  DocumentFormat,
+  DocumentLocation,
+  DocumentSection,
+  DocumentTarget,
+} from "@/lib/documents/types";
+
+interface ViewedDocument {
+  format: DocumentFormat;
+  sections: DocumentSection[];
+}
+
+// Room needed above a selection to show the toolbar there rather than below
+const TOOLBAR_SPACE = 48;
+
+// Text the learner selected, and where to show the toolbar for it
+interface SelectedText {
+  excerpt: string;
+  location: DocumentLocation;
+  top: number;
+  left: number;
+  above: boolean;
+}
+
+const SECTION_LABELS: Record<DocumentSection["kind"], string | null> = {
+  page: "Page",
+  slide: "Slide",
+  text: null,
+};
+
+function isTargetSection(section: DocumentSection, target: DocumentTarget) {
+  return (
+    section.kind === target.location?.kind &&
+    section.number === target.location.number
+  );
+}
+
+// The section to scroll to and the passage in it to highlight. Falls back
+// to searching every section when the cited page doesn't hold the passage.
+function locate(sections: DocumentSection[], target: DocumentTarget) {
+  const cited = sections.findIndex((section) => isTargetSection(section, target));
+  if (!target.excerpt) return { index: cited, span: null };
+
+  const searchOrder = cited === -1 ? sections : [sections[cited], ...sections];
+  for (const section of searchOrder) {
+    const span = findPassage(section.text, target.excerpt);
+    if (span) return { index: sections.indexOf(section), span };
+  }
+  return { index: cited, span: null };
+}
+
+function SectionText({
+  section,
+  span,
+  markRef,
+}: {
+  section: DocumentSection;
+  span: { start: number; end: number } | null;
+  markRef: React.Ref<HTMLElement>;
+}) {
+  if (!span) return <>{section.text}</>;
+  return (
+    <>
+      {section.text.slice(0, span.start)}
+      <mark ref={markRef} className="bg-yellow-200 rounded-sm">
+        {section.text.slice(span.start, span.end)}
+      </mark>
+      {section.text.slice(span.end)}
+    </>
+  );
+}
+
+interface DocumentViewerProps {
+  target: DocumentTarget;
+  onClose: () => void;
+  // Opens a chat about a passage selected in the text
+  onAsk?: (chat: NewChat) => void;
+}
+
+// Shows a document over the page, opened at the cited page with the cited
+// passage highlighted. PDFs can also be seen as the original pages.
+export default function DocumentViewer({
+  target,
+  onClose,
+  onAsk,
+}: DocumentViewerProps) {
+  const [viewed, setViewed] = useState<ViewedDocument | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Highlighting needs the extracted text, so cited passages open there
+  const [view, setView] = useState<"original" | "text">(
+    target.excerpt ? "text" : "original"
+  );
+  const [selection, setSelection] = useState<SelectedText | null>(null);
+  const scrollRef = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    setViewed(null);
+    setError(null);
+    getJson<{ document: ViewedDocument }>(`/api/files/${target.fileId}/document`)
+      .then((data) => setViewed(data.document))
+      .catch((error) => setError(error.message));
+  }, [target.fileId]);
+
+  useEffect(() => {
+    setView(target.excerpt ? "text" : "original");
+    setSelection(null);
+  }, [target]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const showsOriginal = viewed?.format === "pdf" && view === "original";
+  const { index, span } = viewed
+    ? locate(viewed.sections, target)
+    : { index: -1, span: null };
+
+  useEffect(() => {
+    if (viewed && !showsOriginal) {
+      scrollRef.current?.scrollIntoView({ block: "center" });
+    }
+  }, [viewed, showsOriginal, target]);
+
+  // Selections are attributed to the section they start in, like citations
+  const readSelection = () => {
+    const selected = window.getSelection();
+    const excerpt = selected?.toString().trim();
+    if (!onAsk || !viewed || !selected || !excerpt || selected.rangeCount === 0) {
+      setSelection(null);
+      return;
+    }
+    const range = selected.getRangeAt(0);
+    const start = range.startContainer;
+    const element = start instanceof Element ? start : start.parentElement;
+    const index = element?.closest<HTMLElement>("[data-section]")?.dataset.section;
+    const section = index === undefined ? undefined : viewed.sections[Number(index)];
+    if (!section) {
+      setSelection(null);
+      return;
+    }
+
+    const rect = range.getBoundingClientRect();
+    const above = rect.top > TOOLBAR_SPACE;
+    setSelection({
+      excerpt,
+      location: { kind: section.kind, number: section.number },
+      top: above ? rect.top - 8 : rect.bottom + 8,
+      left: rect.left + rect.width / 2,
+      above,
+    });
+  };
+
+  const ask = (action: PassageAction) => {
+    if (!selection || !onAsk) return;
+    onAsk(
+      askAboutPassage(
+        {
+          fileId: target.fileId,
+          fileName: target.fileName,
+          location: selection.location,
+          excerpt: selection.excerpt,
+        },
+        action
+      )
+    );
+    setSelection(null);
+  };
+
+  const contentUrl = `/api/files/${target.fileId}/content`;
+  const page = target.location?.kind === "page" ? target.location.number : null;
+  const where = target.location && formatLocation(target.location);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex bg-black/40"
+      onClick={onClose}
+      role="presentation"
+    >
+      <div
+        className="ml-auto flex h-full w-full max-w-3xl flex-col bg-white shadow-xl"
+        onClick={(event) => event.stopPropagation()}
+        role="dialog"
+        aria-label={target.fileName}
+      >
+        <div className="flex items-center justify-between gap-2 border-b p-4">
+          <div className="min-w-0">
+            <h3 className="truncate font-medium">{target.fileName}</h3>
+            {where && <p className="text-sm text-gray-500">Opened at {where}</p>}
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            {viewed?.format === "pdf" && (
+              <div className="flex rounded-md border p-0.5">
+                {(["original", "text"] as const).map((option) => (
+                  <Button
+                    key={option}
+                    variant={view === option ? "secondary" : "ghost"}
+                    size="sm"
+                    className="h-7"
+                    onClick={() => {
+                      setView(option);
+                      setSelection(null);
+                    }}
+                  >
+                    {option === "original" ? "Pages" : "Text"}
+                  </Button>
+                ))}
+              </div>
+            )}
+            <Button variant="ghost" size="icon" asChild>
+              <a
+                href={page ? `${contentUrl}#page=${page}` : contentUrl}
+                target="_blank"
+                rel="noreferrer"
+                aria-label="Open in a new tab"
+              >
+                <ExternalLink className="w-4 h-4" />
+              </a>
+            </Button>
+            <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close viewer">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+
+        {error ? (
+          <p className="p-4 text-sm text-red-500">{error}</p>
+        ) : !viewed ? (
+          <div className="py-8 text-center text-gray-500">Loading...</div>
+        ) : showsOriginal ? (
+          <iframe
+            // The browser's PDF viewer only reads the page on load
+            key={page ?? 0}
+            src={page ? `${contentUrl}#page=${page}` : contentUrl}
+            title={target.fileName}
+            className="flex-1 w-full"
+          />
+        ) : (
+          <div
+            className="flex-1 space-y-4 overflow-y-auto bg-gray-50 p-4"
+            onMouseUp={readSelection}
+            onKeyUp={readSelection}
+            onScroll={() => setSelection(null)}
+          >
+            {target.excerpt && !span && (
+              <p className="text-sm text-gray-500">
+                The cited passage couldn&apos;t be found in the text.
+              </p>
+            )}
+            {viewed.sections.map((section, sectionIndex) => {
+              const label = SECTION_LABELS[section.kind];
+              const active = sectionIndex === index;
+              return (
+                <section
+                  key={`${section.kind}-${section.number}`}
+                  data-section={sectionIndex}
+                  ref={active && !span ? scrollRef : undefined}
+                  className={`rounded-lg border bg-white p-4 ${
+                    section.kind === "slide" ? "aspect-video overflow-y-auto" : ""
+                  } ${active ? "border-blue-300" : ""}`}
+                >
+                  {label && (
+                    <p className="mb-2 text-xs uppercase tracking-wide text-gray-400">
+                      {label} {section.number}
+                    </p>
+                  )}
+                  <div className="whitespace-pre-wrap text-sm leading-relaxed">
+                    <SectionText
+                      section={section}
+                      span={active ? span : null}
+                      markRef={scrollRef}
+                    />
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+        )}
+
+        {selection && (
+          <div
+            className="fixed z-10 flex items-center gap-1 rounded-lg border bg-white p-1 shadow-lg"
+            style={{
+              top: selection.top,
+              left: selection.left,
+              transform: `translate(-50%, ${selection.above ? "-100%" : "0"})`,
+            }}
+            // Keeps the text selected while a button is pressed
+            onMouseDown={(event) => event.preventDefault()}
+          >
+            <Sparkles className="mx-1 w-4 h-4 text-blue-500" />
+            {selection.excerpt.length > MAX_PASSAGE_CHARS ? (
+              <span className="px-2 text-sm text-gray-500">
+                Select less text to ask Wiz AI about it
+              </span>
+            ) : (
+              PASSAGE_ACTIONS.map((action) => (
+                <Button
+                  key={action}
+                  variant="ghost"
+                  size="sm"
+                  className="h-7"
+                  onClick={() => ask(action)}
+                >
+                  {PASSAGE_ACTION_LABELS[action]}
+                </Button>
+              ))
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { downloadFile } from "@/lib/api/client";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/export/types";
+import type { Question } from "@/lib/quiz/types";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  apkg: "Anki",
+  csv: "CSV",
+  tsv: "TSV",
+};
+
+type ExportSource = { deckId: string } | { title: string; questions: Question[] };
+
+interface ExportButtonsProps {
+  source: ExportSource;
+}
+
+// Downloads a flashcard deck or a quiz's questions in each export format
+export default function ExportButtons({ source }: ExportButtonsProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = async (format: ExportFormat) => {
+    setExporting(format);
+    setError(null);
+    try {
+      await downloadFile("/api/export", { ...source, format }, `export.${format}`);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1">
+        <Download className="w-4 h-4 mr-1 text-gray-500" aria-hidden />
+        {EXPORT_FORMATS.map((format) => (
+          <Button
+            key={format}
+            variant="ghost"
+            size="sm"
+            onClick={() => download(format)}
+            disabled={exporting !== null}
+            aria-label={`Export as ${FORMAT_LABELS[format]}`}
+          >
+            {exporting === format ? "Exporting..." : FORMAT_LABELS[format]}
+          </Button>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,336 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ArrowLeft, Pencil, Plus, Shuffle, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import ExportButtons from "./ExportButtons";
+import { getJson, postJson, sendJson } from "@/lib/api/client";
+import {
+  CARD_RATINGS,
+  type CardContent,
+  type CardKind,
+  type CardRating,
+  type Flashcard,
+  type FlashcardDeck as Deck,
+} from "@/lib/flashcards/types";
+
+const SIDE_LABELS: Record<CardKind, [string, string]> = {
+  term: ["Term", "Definition"],
+  qa: ["Question", "Answer"],
+};
+
+const RATING_STYLES: Record<CardRating, string> = {
+  again: "border-red-300 text-red-700 hover:bg-red-50",
+  hard: "border-orange-300 text-orange-700 hover:bg-orange-50",
+  good: "border-green-300 text-green-700 hover:bg-green-50",
+  easy: "border-blue-300 text-blue-700 hover:bg-blue-50",
+};
+
+function shuffled<T>(items: T[]) {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+// Due cards first; a deck with nothing due is studied in full
+function studyQueue(cards: Flashcard[], now = new Date()) {
+  const due = cards.filter((card) => Date.parse(card.dueAt) <= now.getTime());
+  return (due.length > 0 ? due : cards).map((card) => card.id);
+}
+
+function CardEditor({
+  card,
+  onSave,
+  onDelete,
+}: {
+  card: CardContent;
+  onSave: (card: CardContent) => Promise<void>;
+  onDelete?: () => void;
+}) {
+  const [draft, setDraft] = useState(card);
+  const [error, setError] = useState<string | null>(null);
+  const [front, back] = SIDE_LABELS[draft.kind];
+  const changed =
+    draft.kind !== card.kind || draft.front !== card.front || draft.back !== card.back;
+
+  const save = async () => {
+    setError(null);
+    try {
+      await onSave(draft);
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="p-3 bg-white rounded-lg border space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          className="p-1 border rounded-md text-sm"
+          value={draft.kind}
+          onChange={(event) =>
+            setDraft({ ...draft, kind: event.target.value as CardKind })
+          }
+          aria-label="Card kind"
+        >
+          <option value="term">Term</option>
+          <option value="qa">Question</option>
+        </select>
+        <div className="flex-1" />
+        {changed && (
+          <Button size="sm" onClick={save}>
+            Save
+          </Button>
+        )}
+        {onDelete && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-gray-400 hover:text-red-500"
+            onClick={onDelete}
+            aria-label="Delete card"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">{front}</Label>
+          <Textarea
+            rows={2}
+            value={draft.front}
+            onChange={(event) => setDraft({ ...draft, front: event.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-500">{back}</Label>
+          <Textarea
+            rows={2}
+            value={draft.back}
+            onChange={(event) => setDraft({ ...draft, back: event.target.value })}
+          />
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+    </div>
+  );
+}
+
+const EMPTY_CARD: CardContent = { kind: "term", front: "", back: "" };
+
+interface FlashcardDeckProps {
+  deckId: string;
+  onClose: () => void;
+}
+
+// Studies one deck with flip-and-rate, or edits its cards
+export default function FlashcardDeck({ deckId, onClose }: FlashcardDeckProps) {
+  const [deck, setDeck] = useState<Deck | null>(null);
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [mode, setMode] = useState<"study" | "edit">("study");
+  // Ids of the cards left in this session; "again" sends a card to the back
+  const [queue, setQueue] = useState<string[]>([]);
+  const [flipped, setFlipped] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+  const [rating, setRating] = useState(false);
+  // Remounts the new-card form once a card has been added
+  const [newCardKey, setNewCardKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getJson<{ deck: Deck; cards: Flashcard[] }>(`/api/flashcards/${deckId}`)
+      .then((data) => {
+        setDeck(data.deck);
+        setCards(data.cards);
+        setQueue(studyQueue(data.cards));
+      })
+      .catch((error) => setError(error.message));
+  }, [deckId]);
+
+  const current = cards.find((card) => card.id === queue[0]) ?? null;
+
+  const restart = () => {
+    setQueue(studyQueue(cards));
+    setReviewed(0);
+    setFlipped(false);
+  };
+
+  const rate = async (value: CardRating) => {
+    if (!current) return;
+    setRating(true);
+    setError(null);
+    try {
+      const { card } = await postJson<{ card: Flashcard }>(
+        `/api/flashcards/${deckId}/cards/${current.id}/rating`,
+        { rating: value }
+      );
+      setCards((prev) => prev.map((existing) => (existing.id === card.id ? card : existing)));
+      setQueue((prev) =>
+        value === "again" ? [...prev.slice(1), prev[0]] : prev.slice(1)
+      );
+      setReviewed((prev) => prev + 1);
+      setFlipped(false);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setRating(false);
+    }
+  };
+
+  const updateCard = async (id: string, content: CardContent) => {
+    const { card } = await sendJson<{ card: Flashcard }>(
+      "PATCH",
+      `/api/flashcards/${deckId}/cards/${id}`,
+      content
+    );
+    setCards((prev) => prev.map((existing) => (existing.id === id ? card : existing)));
+  };
+
+  const addCard = async (content: CardContent) => {
+    const { card } = await postJson<{ card: Flashcard }>(
+      `/api/flashcards/${deckId}/cards`,
+      content
+    );
+    setCards((prev) => [...prev, card]);
+    setQueue((prev) => [...prev, card.id]);
+    setNewCardKey((prev) => prev + 1);
+  };
+
+  const deleteCard = async (id: string) => {
+    try {
+      await sendJson("DELETE", `/api/flashcards/${deckId}/cards/${id}`);
+      setCards((prev) => prev.filter((card) => card.id !== id));
+      setQueue((prev) => prev.filter((queued) => queued !== id));
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  if (!deck) {
+    return error ? (
+      <p className="text-sm text-red-500">{error}</p>
+    ) : (
+      <div className="text-center py-8 text-gray-500">Loading...</div>
+    );
+  }
+
+  const total = reviewed + queue.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Back to decks">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h3 className="font-medium">{deck.title}</h3>
+            <p className="text-sm text-gray-500">
+              {cards.length} card{cards.length === 1 ? "" : "s"}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-start gap-2">
+          {cards.length > 0 && <ExportButtons source={{ deckId }} />}
+          {mode === "study" && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setQueue((prev) => shuffled(prev));
+                setFlipped(false);
+              }}
+              disabled={queue.length < 2}
+            >
+              <Shuffle className="w-4 h-4 mr-2" />
+              Shuffle
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setMode(mode === "study" ? "edit" : "study")}
+          >
+            <Pencil className="w-4 h-4 mr-2" />
+            {mode === "study" ? "Edit Cards" : "Done Editing"}
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {mode === "edit" ? (
+        <div className="space-y-2">
+          {cards.map((card) => (
+            <CardEditor
+              key={card.id}
+              card={card}
+              onSave={(content) => updateCard(card.id, content)}
+              onDelete={() => deleteCard(card.id)}
+            />
+          ))}
+          <div className="pt-2 space-y-1">
+            <Label className="flex items-center">
+              <Plus className="w-4 h-4 mr-1" />
+              New card
+            </Label>
+            <CardEditor key={newCardKey} card={EMPTY_CARD} onSave={addCard} />
+          </div>
+        </div>
+      ) : current ? (
+        <div className="space-y-4">
+          <Progress value={(reviewed / total) * 100} className="h-2" />
+          <button
+            type="button"
+            onClick={() => setFlipped(!flipped)}
+            className="w-full min-h-48 p-6 flex flex-col items-center justify-center gap-3 bg-white rounded-lg border shadow-sm hover:border-blue-300"
+          >
+            <span className="text-xs uppercase tracking-wide text-gray-400">
+              {SIDE_LABELS[current.kind][flipped ? 1 : 0]}
+            </span>
+            <span className="text-lg whitespace-pre-wrap">
+              {flipped ? current.back : current.front}
+            </span>
+            {!flipped && (
+              <span className="text-xs text-gray-400">Click to flip</span>
+            )}
+          </button>
+          {flipped ? (
+            <div className="grid grid-cols-4 gap-2">
+              {CARD_RATINGS.map((value) => (
+                <Button
+                  key={value}
+                  variant="outline"
+                  className={`capitalize ${RATING_STYLES[value]}`}
+                  onClick={() => rate(value)}
+                  disabled={rating}
+                >
+                  {value}
+                </Button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-sm text-gray-500">
+              Recall the answer, then flip the card and rate how well you knew it.
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-8 space-y-4">
+          <p className="text-gray-500">
+            {cards.length === 0
+              ? "This deck has no cards yet. Add some in the editor."
+              : `Session complete! You reviewed ${reviewed} card${reviewed === 1 ? "" : "s"}.`}
+          </p>
+          {cards.length > 0 && <Button onClick={restart}>Study Again</Button>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Layers, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import FlashcardDeck from "./FlashcardDeck";
+import { getJson, postJson, sendJson } from "@/lib/api/client";
+import type { StoredFile } from "@/lib/files/types";
+import {
+  DEFAULT_CARD_COUNT,
+  type Flashcard,
+  type FlashcardDeck as Deck,
+} from "@/lib/flashcards/types";
+
+const COUNTS = [10, 20, 30, 40];
+
+interface FlashcardsPanelProps {
+  files: StoredFile[];
+}
+
+// The learner's flashcard decks, and generating new ones from a document
+export default function FlashcardsPanel({ files }: FlashcardsPanelProps) {
+  const [decks, setDecks] = useState<Deck[]>([]);
+  const [activeDeckId, setActiveDeckId] = useState<string | null>(null);
+  const [fileId, setFileId] = useState("");
+  const [count, setCount] = useState(DEFAULT_CARD_COUNT);
+  const [generating, setGenerating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readableFiles = files.filter((file) => !file.extractionError);
+
+  const loadDecks = () =>
+    getJson<{ decks: Deck[] }>("/api/flashcards")
+      .then((data) => setDecks(data.decks))
+      .catch((error) => setError(error.message));
+
+  useEffect(() => {
+    loadDecks();
+  }, []);
+
+  const generate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const { deck } = await postJson<{ deck: Deck; cards: Flashcard[] }>(
+        "/api/flashcards",
+        { fileId, count }
+      );
+      setDecks((prev) => [deck, ...prev]);
+      setActiveDeckId(deck.id);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const importDeck = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      const { deck } = await postJson<{ deck: Deck }>("/api/flashcards/import", {
+        title: file.name.replace(/\.[^.]+$/, ""),
+        content: await file.text(),
+      });
+      setDecks((prev) => [deck, ...prev]);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const deleteDeck = async (id: string) => {
+    try {
+      await sendJson("DELETE", `/api/flashcards/${id}`);
+      setDecks((prev) => prev.filter((deck) => deck.id !== id));
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  if (activeDeckId) {
+    return (
+      <FlashcardDeck
+        deckId={activeDeckId}
+        onClose={() => {
+          setActiveDeckId(null);
+          // Studying changes what's due
+          loadDecks();
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {readableFiles.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          Upload some materials first to make flashcards!
+        </div>
+      ) : (
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label>Document</Label>
+            <Select value={fileId} onValueChange={setFileId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a document" />
+              </SelectTrigger>
+              <SelectContent>
+                {readableFiles.map((file) => (
+                  <SelectItem key={file.id} value={file.id}>
+                    {file.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-28 space-y-1">
+            <Label>Cards</Label>
+            <Select
+              value={`${count}`}
+              onValueChange={(value) => setCount(parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COUNTS.map((value) => (
+                  <SelectItem key={value} value={`${value}`}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={generate} disabled={!fileId || generating}>
+            {generating ? "Generating..." : "Make Flashcards"}
+          </Button>
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label htmlFor="flashcard-import">Import a deck (CSV or TSV: front, back)</Label>
+        <Input
+          id="flashcard-import"
+          type="file"
+          accept=".csv,.tsv,.txt"
+          onChange={importDeck}
+          disabled={importing}
+        />
+        {importing && <p className="text-sm text-gray-500">Importing...</p>}
+      </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {decks.length > 0 && (
+        <div className="grid gap-4">
+          {decks.map((deck) => (
+            <div
+              key={deck.id}
+              className="flex items-center justify-between p-4 bg-white rounded-lg border"
+            >
+              <div className="flex items-center">
+                <Layers className="w-5 h-5 mr-3 text-blue-500" />
+                <div>
+                  <h4 className="font-medium">{deck.title}</h4>
+                  <p className="text-sm text-gray-500">
+                    {deck.cardCount} card{deck.cardCount === 1 ? "" : "s"}
+                    {deck.dueCount > 0 && ` • ${deck.dueCount} due`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button size="sm" onClick={() => setActiveDeckId(deck.id)}>
+                  Study
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-gray-400 hover:text-red-500"
+                  onClick={() => deleteDeck(deck.id)}
+                  aria-label={`Delete ${deck.title}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Flame, Target, Timer, Trophy } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { getJson } from "@/lib/api/client";
+import type { ProgressSummary } from "@/lib/attempts/progress";
+
+function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${`${seconds % 60}`.padStart(2, "0")}s`;
+}
+
+function scoreColor(percent: number) {
+  if (percent >= 80) return "bg-green-500";
+  if (percent >= 50) return "bg-yellow-400";
+  return "bg-red-400";
+}
+
+function Stat({
+  icon: Icon,
+  label,
+  value,
+}: {
+  icon: typeof Flame;
+  label: string;
+  value: string;
+}) {
+  return (
+    <div className="p-4 bg-white rounded-lg border">
+      <div className="flex items-center text-sm text-gray-500">
+        <Icon className="w-4 h-4 mr-2" />
+        {label}
+      </div>
+      <div className="mt-1 text-2xl font-semibold">{value}</div>
+    </div>
+  );
+}
+
+// Score trend, streaks and per-document mastery from saved quiz attempts
+export default function ProgressPanel() {
+  const [progress, setProgress] = useState<ProgressSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const offset = new Date().getTimezoneOffset();
+    getJson<{ progress: ProgressSummary }>(`/api/progress?offset=${offset}`)
+      .then((data) => setProgress(data.progress))
+      .catch((error) => setError(error.message));
+  }, []);
+
+  if (error) return <p className="text-red-500 text-sm">{error}</p>;
+  if (!progress) {
+    return <div className="text-center py-8 text-gray-500">Loading...</div>;
+  }
+  if (progress.attempts === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        Finish a quiz to start tracking your progress!
+      </div>
+    );
+  }
+
+  const { streak } = progress;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Stat
+          icon={Flame}
+          label="Current streak"
+          value={`${streak.current} day${streak.current === 1 ? "" : "s"}`}
+        />
+        <Stat
+          icon={Trophy}
+          label="Longest streak"
+          value={`${streak.longest} day${streak.longest === 1 ? "" : "s"}`}
+        />
+        <Stat
+          icon={Target}
+          label="Overall score"
+          value={`${progress.percent}%`}
+        />
+        <Stat
+          icon={Timer}
+          label="Time per question"
+          value={formatDuration(progress.averageTimeMs)}
+        />
+      </div>
+      {!streak.studiedToday && streak.current > 0 && (
+        <p className="text-sm text-gray-500">
+          Take a quiz today to keep your streak going.
+        </p>
+      )}
+
+      <div>
+        <h4 className="font-medium mb-2">Score trend</h4>
+        <div className="flex items-end gap-1 h-32 p-2 bg-white rounded-lg border">
+          {progress.trend.map((point) => (
+            <div
+              key={point.attemptId}
+              className={`flex-1 rounded-t ${scoreColor(point.percent)}`}
+              style={{ height: `${Math.max(point.percent, 2)}%` }}
+              title={`${point.title}: ${point.percent}% on ${new Date(
+                point.completedAt
+              ).toLocaleDateString()}`}
+            />
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          Your last {progress.trend.length} quiz
+          {progress.trend.length === 1 ? "" : "zes"}, oldest first
+        </p>
+      </div>
+
+      {progress.documents.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="font-medium">By document</h4>
+          {progress.documents.map((document) => (
+            <div key={document.fileId} className="p-4 bg-white rounded-lg border">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{document.fileName}</span>
+                <span className="text-sm text-gray-500">
+                  {document.correct}/{document.answered} correct (
+                  {document.percent}%)
+                </span>
+              </div>
+              <Progress value={document.percent} className="h-2 mt-2" />
+              {document.weakestTopics.length > 0 && (
+                <p className="mt-2 text-sm text-gray-600">
+                  Needs work:{" "}
+                  {document.weakestTopics
+                    .map(
+                      (topic) =>
+                        `${topic.topic} (${topic.correct}/${topic.answered})`
+                    )
+                    .join(", ")}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+"use client";
+
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { shuffledIndices } from "@/lib/quiz/grading";
+import type {
+  MatchingQuestion,
+  MultipleSelectQuestion,
+  OrderingQuestion,
+  Question,
+  QuizAnswer,
+  SingleChoiceQuestion,
+} from "@/lib/quiz/types";
+
+// Narrows the answer to the one that goes with a kind of question
+type AnswerFor<T extends Question["type"]> = Extract<QuizAnswer, { type: T }>;
+
+interface InputProps<Q extends Question> {
+  question: Q;
+  answer: AnswerFor<Q["type"]> | null;
+  onChange: (answer: AnswerFor<Q["type"]>) => void;
+  disabled: boolean;
+}
+
+function SingleChoiceInput({
+  question,
+  answer,
+  onChange,
+  disabled,
+}: InputProps<SingleChoiceQuestion>) {
+  return (
+    <RadioGroup
+      onValueChange={(value) =>
+        onChange({ type: "single", choice: parseInt(value) })
+      }
+      value={answer?.choice.toString() ?? ""}
+      disabled={disabled}
+    >
+      {question.options.map((option, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <RadioGroupItem value={index.toString()} id={`option-${index}`} />
+          <Label htmlFor={`option-${index}`}>{option}</Label>
+        </div>
+      ))}
+    </RadioGroup>
+  );
+}
+
+function MultipleSelectInput({
+  question,
+  answer,
+  onChange,
+  disabled,
+}: InputProps<MultipleSelectQuestion>) {
+  const choices = answer?.choices ?? [];
+  const toggle = (index: number) =>
+    onChange({
+      type: "multiple",
+      choices: choices.includes(index)
+        ? choices.filter((choice) => choice !== index)
+        : [...choices, index].sort((a, b) => a - b),
+    });
+
+  return (
+    <div className="grid gap-2">
+      <p className="text-sm text-gray-500">Select all that apply.</p>
+      {question.options.map((option, index) => (
+        <div key={index} className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id={`option-${index}`}
+            className="h-4 w-4 accent-primary"
+            checked={choices.includes(index)}
+            onChange={() => toggle(index)}
+            disabled={disabled}
+          />
+          <Label htmlFor={`option-${index}`}>{option}</Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function OrderingInput({
+  question,
+  answer,
+  onChange,
+  disabled,
+}: InputProps<OrderingQuestion>) {
+  if (!answer) return null;
+  const move = (from: number, to: number) => {
+    const order = [...answer.order];
+    [order[from], order[to]] = [order[to], order[from]];
+    onChange({ type: "ordering", order });
+  };
+
+  return (
+    <ol className="grid gap-2">
+      {answer.order.map((item, position) => (
+        <li
+          key={item}
+          className="flex items-center gap-2 p-2 bg-white rounded-lg border"
+        >
+          <span className="w-6 text-sm text-gray-500">{position + 1}.</span>
+          <span className="flex-1">{question.items[item]}</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => move(position, position - 1)}
+            disabled={disabled || position === 0}
+            aria-label="Move up"
+          >
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => move(position, position + 1)}
+            disabled={disabled || position === answer.order.length - 1}
+            aria-label="Move down"
+          >
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+function MatchingInput({
+  question,
+  answer,
+  onChange,
+  disabled,
+}: InputProps<MatchingQuestion>) {
+  if (!answer) return null;
+  // Right-hand sides are listed out of order, the same way every render
+  const choices = shuffledIndices(question.pairs.length, question.question);
+
+  return (
+    <div className="grid gap-2">
+      {question.pairs.map((pair, index) => (
+        <div key={index} className="grid grid-cols-2 items-center gap-2">
+          <Label>{pair.left}</Label>
+          <Select
+            value={answer.matches[index] === -1 ? "" : `${answer.matches[index]}`}
+            onValueChange={(value) => {
+              const matches = [...answer.matches];
+              matches[index] = parseInt(value);
+              onChange({ type: "matching", matches });
+            }}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a match" />
+            </SelectTrigger>
+            <SelectContent>
+              {choices.map((choice) => (
+                <SelectItem key={choice} value={`${choice}`}>
+                  {question.pairs[choice].right}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface QuestionInputProps {
+  question: Question;
+  answer: QuizAnswer | null;
+  onChange: (answer: QuizAnswer) => void;
+  // Locks the answer once it has been checked
+  disabled?: boolean;
+}
+
+// Renders the answer controls for any kind of question
+export default function QuestionInput({
+  question,
+  answer,
+  onChange,
+  disabled = false,
+}: QuestionInputProps) {
+  const props = { onChange, disabled };
+  const given = answer?.type === question.type ? answer : null;
+
+  switch (question.type) {
+    case "single":
+      return (
+        <SingleChoiceInput
+          {...props}
+          question={question}
+          answer={given as AnswerFor<"single"> | null}
+        />
+      );
+    case "multiple":
+      return (
+        <MultipleSelectInput
+          {...props}
+          question={question}
+          answer={given as AnswerFor<"multiple"> | null}
+        />
+      );
+    case "true_false": {
+      const value = (given as AnswerFor<"true_false"> | null)?.value;
+      return (
+        <RadioGroup
+          onValueChange={(choice) =>
+            onChange({ type: "true_false", value: choice === "true" })
+          }
+          value={value === undefined ? "" : `${value}`}
+          disabled={disabled}
+        >
+          {["true", "false"].map((choice) => (
+            <div key={choice} className="flex items-center space-x-2">
+              <RadioGroupItem value={choice} id={`option-${choice}`} />
+              <Label htmlFor={`option-${choice}`} className="capitalize">
+                {choice}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+    }
+    case "fill_blank":
+      return (
+        <Input
+          placeholder="Type the missing word or words"
+          value={(given as AnswerFor<"fill_blank"> | null)?.text ?? ""}
+          onChange={(event) =>
+            onChange({ type: "fill_blank", text: event.target.value })
+          }
+          disabled={disabled}
+        />
+      );
+    case "short_answer":
+      return (
+        <Textarea
+          placeholder="Answer in a sentence or two"
+          value={(given as AnswerFor<"short_answer"> | null)?.text ?? ""}
+          onChange={(event) =>
+            onChange({ type: "short_answer", text: event.target.value })
+          }
+          disabled={disabled}
+          rows={4}
+        />
+      );
+    case "ordering":
+      return (
+        <OrderingInput
+          {...props}
+          question={question}
+          answer={given as AnswerFor<"ordering"> | null}
+        />
+      );
+    case "matching":
+      return (
+        <MatchingInput
+          {...props}
+          question={question}
+          answer={given as AnswerFor<"matching"> | null}
+        />
+      );
+  }
+}
@@ -0,0 +1,337 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getJson, postJson, sendJson } from "@/lib/api/client";
+import type { DocumentSection } from "@/lib/documents/types";
+import type { StoredFile } from "@/lib/files/types";
+import {
+  BLOOM_LEVELS,
+  DEFAULT_QUIZ_SETTINGS,
+  DIFFICULTIES,
+  parseSectionRange,
+  type BloomLevel,
+  type Difficulty,
+  type QuizPreset,
+  type QuizSettings,
+} from "@/lib/quiz/settings";
+import { QUESTION_TYPES, type QuestionType } from "@/lib/quiz/types";
+
+const COUNTS = [5, 10, 15, 20];
+
+// Radix selects can't hold an empty value, so "mixed" stands in for null
+const MIXED_LEVELS = "mixed";
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+  single: "Multiple choice",
+  multiple: "Select all that apply",
+  true_false: "True / false",
+  fill_blank: "Fill in the blank",
+  short_answer: "Short answer",
+  ordering: "Put in order",
+  matching: "Matching",
+};
+
+interface Outline {
+  kind: DocumentSection["kind"];
+  count: number;
+}
+
+interface QuizSetupProps {
+  // Pages can only be picked when there is a single file
+  files: StoredFile[];
+  onStart: (settings: QuizSettings) => void;
+  onCancel: () => void;
+}
+
+// Chooses how a quiz is generated, optionally from a saved preset
+export default function QuizSetup({ files, onStart, onCancel }: QuizSetupProps) {
+  const [settings, setSettings] = useState<QuizSettings>(DEFAULT_QUIZ_SETTINGS);
+  const [pages, setPages] = useState("");
+  const [outline, setOutline] = useState<Outline | null>(null);
+  const [presets, setPresets] = useState<QuizPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getJson<{ presets: QuizPreset[] }>("/api/quiz/presets")
+      .then((data) => setPresets(data.presets))
+      .catch((error) => console.error("Error loading quiz presets:", error));
+  }, []);
+
+  const singleFileId = files.length === 1 ? files[0].id : null;
+  useEffect(() => {
+    setOutline(null);
+    if (!singleFileId) return;
+    getJson<{ outline: Outline }>(`/api/files/${singleFileId}/outline`)
+      .then((data) => setOutline(data.outline))
+      .catch((error) => console.error("Error loading document outline:", error));
+  }, [singleFileId]);
+
+  const update = (changes: Partial<QuizSettings>) =>
+    setSettings((current) => ({ ...current, ...changes }));
+
+  const toggleType = (type: QuestionType) =>
+    update({
+      questionTypes: settings.questionTypes.includes(type)
+        ? settings.questionTypes.filter((existing) => existing !== type)
+        : QUESTION_TYPES.filter(
+            (existing) =>
+              existing === type || settings.questionTypes.includes(existing)
+          ),
+    });
+
+  const applyPreset = (preset: QuizPreset) => {
+    // Presets never carry pages, so the page field is left as it is
+    setSettings(preset.settings);
+    setError(null);
+  };
+
+  const savePreset = async () => {
+    setError(null);
+    try {
+      const { preset } = await postJson<{ preset: QuizPreset }>(
+        "/api/quiz/presets",
+        { name: presetName, settings }
+      );
+      setPresets((current) =>
+        [...current, preset].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setPresetName("");
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const deletePreset = async (id: string) => {
+    try {
+      await sendJson("DELETE", `/api/quiz/presets/${id}`);
+      setPresets((current) => current.filter((preset) => preset.id !== id));
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const pageLabel = outline?.kind === "slide" ? "slides" : "pages";
+  const canPickPages = outline !== null && outline.kind !== "text" && outline.count > 1;
+
+  const start = () => {
+    let sections: number[] | null = null;
+    if (canPickPages && pages.trim()) {
+      sections = parseSectionRange(pages);
+      if (!sections) {
+        setError(`Enter ${pageLabel} like "1-3, 7"`);
+        return;
+      }
+      if (sections[sections.length - 1] > outline.count) {
+        setError(`This document only has ${outline.count} ${pageLabel}`);
+        return;
+      }
+    }
+    if (settings.questionTypes.length === 0) {
+      setError("Select at least one question type");
+      return;
+    }
+    if (settings.count < files.length) {
+      setError(`Ask for at least ${files.length} questions, one per document`);
+      return;
+    }
+    onStart({ ...settings, sections });
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>Set Up Your Quiz</CardTitle>
+        <CardDescription>
+          Quiz on:{" "}
+          {files.length === 1
+            ? files[0].name
+            : `${files.length} documents, with questions balanced across them`}
+        </CardDescription>
+        {files.length > 1 && (
+          <p className="text-sm text-gray-500">
+            {files.map((file) => file.name).join(", ")}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {presets.length > 0 && (
+          <div className="space-y-2">
+            <Label>Presets</Label>
+            <div className="flex flex-wrap gap-2">
+              {presets.map((preset) => (
+                <div
+                  key={preset.id}
+                  className="flex items-center rounded-md border bg-white"
+                >
+                  <button
+                    type="button"
+                    className="px-3 py-1 text-sm hover:bg-gray-50"
+                    onClick={() => applyPreset(preset)}
+                  >
+                    {preset.name}
+                  </button>
+                  <button
+                    type="button"
+                    className="px-2 py-1 text-gray-400 hover:text-red-500"
+                    onClick={() => deletePreset(preset.id)}
+                    aria-label={`Delete preset ${preset.name}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label>Questions</Label>
+            <Select
+              value={`${settings.count}`}
+              onValueChange={(value) => update({ count: parseInt(value) })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COUNTS.map((count) => (
+                  <SelectItem key={count} value={`${count}`}>
+                    {count}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Difficulty</Label>
+            <Select
+              value={settings.difficulty}
+              onValueChange={(value) =>
+                update({ difficulty: value as Difficulty })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DIFFICULTIES.map((difficulty) => (
+                  <SelectItem
+                    key={difficulty}
+                    value={difficulty}
+                    className="capitalize"
+                  >
+                    {difficulty}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Bloom&apos;s level</Label>
+            <Select
+              value={settings.bloomLevel ?? MIXED_LEVELS}
+              onValueChange={(value) =>
+                update({
+                  bloomLevel:
+                    value === MIXED_LEVELS ? null : (value as BloomLevel),
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={MIXED_LEVELS}>Mixed</SelectItem>
+                {BLOOM_LEVELS.map((level) => (
+                  <SelectItem key={level} value={level} className="capitalize">
+                    {level}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Question types</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {QUESTION_TYPES.map((type) => (
+              <div key={type} className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id={`type-${type}`}
+                  className="h-4 w-4 accent-primary"
+                  checked={settings.questionTypes.includes(type)}
+                  onChange={() => toggleType(type)}
+                />
+                <Label htmlFor={`type-${type}`}>{TYPE_LABELS[type]}</Label>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {canPickPages && (
+          <div className="space-y-1">
+            <Label htmlFor="quiz-pages" className="capitalize">
+              {pageLabel}
+            </Label>
+            <Input
+              id="quiz-pages"
+              placeholder={`All ${outline.count} ${pageLabel}, or e.g. 1-3, 7`}
+              value={pages}
+              onChange={(event) => setPages(event.target.value)}
+            />
+          </div>
+        )}
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-1">
+            <Label htmlFor="preset-name">Save these settings as a preset</Label>
+            <Input
+              id="preset-name"
+              placeholder="e.g. Hard exam prep"
+              value={presetName}
+              onChange={(event) => setPresetName(event.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={savePreset}
+            disabled={!presetName.trim()}
+          >
+            Save Preset
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={start}>Start Quiz</Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getJson, sendJson } from "@/lib/api/client";
+import type {
+  SpeechProviderInfo,
+  SpeechProviderName,
+  SpeechSettings,
+} from "@/lib/speech/types";
+
+const SPEEDS = [0.75, 1, 1.25, 1.5, 2];
+
+// Radix selects can't hold an empty value, so "default" stands in for null
+const DEFAULT_OPTION = "default";
+
+interface SettingsPayload {
+  settings: SpeechSettings;
+  providers: SpeechProviderInfo[];
+  defaultProvider: SpeechProviderName;
+}
+
+export default function SpeechSettingsPanel() {
+  const [data, setData] = useState<SettingsPayload | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getJson<SettingsPayload>("/api/speech/settings")
+      .then(setData)
+      .catch((error) => setError(error.message));
+  }, []);
+
+  if (!data) {
+    return error ? <p className="text-red-500 text-sm">{error}</p> : null;
+  }
+
+  const { settings, providers, defaultProvider } = data;
+  const provider = providers.find(
+    (p) => p.name === (settings.provider ?? defaultProvider)
+  );
+
+  const save = async (next: SpeechSettings) => {
+    setError(null);
+    try {
+      const result = await sendJson<{ settings: SpeechSettings }>(
+        "PUT",
+        "/api/speech/settings",
+        next
+      );
+      setData({ ...data, settings: result.settings });
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-3 gap-2 text-sm">
+      <div className="space-y-1">
+        <Label>Voice provider</Label>
+        <Select
+          value={settings.provider ?? DEFAULT_OPTION}
+          onValueChange={(value) =>
+            save({
+              provider:
+                value === DEFAULT_OPTION ? null : (value as SpeechProviderName),
+              voice: null,
+              speed: 1,
+            })
+          }
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_OPTION}>Default</SelectItem>
+            {providers.map((p) => (
+              <SelectItem key={p.name} value={p.name}>
+                {p.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Voice</Label>
+        <Select
+          value={settings.voice ?? DEFAULT_OPTION}
+          onValueChange={(value) =>
+            save({
+              ...settings,
+              voice: value === DEFAULT_OPTION ? null : value,
+            })
+          }
+          disabled={!settings.provider || !provider}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEFAULT_OPTION}>Default</SelectItem>
+            {provider?.voices.map((voice) => (
+              <SelectItem key={voice} value={voice}>
+                {voice}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label>Speed</Label>
+        <Select
+          value={String(settings.speed)}
+          onValueChange={(value) =>
+            save({ ...settings, speed: Number(value) })
+          }
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPEEDS.filter(
+              (speed) =>
+                !provider ||
+                (speed >= provider.minSpeed && speed <= provider.maxSpeed)
+            ).map((speed) => (
+              <SelectItem key={speed} value={String(speed)}>
+                {speed}×
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error && <p className="col-span-3 text-red-500">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ArrowLeft, Download, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { readJsonLines } from "@/lib/api/client";
+import { ApiRequestError } from "@/lib/api/errors";
+import type { StoredFile } from "@/lib/files/types";
+import {
+  GUIDE_EXPORT_FORMATS,
+  type GuideSection,
+  type StudyGuide as Guide,
+  type StudyGuideExportFormat,
+  type StudyGuideStreamEvent,
+} from "@/lib/study-guides/types";
+
+const EXPORT_LABELS: Record<StudyGuideExportFormat, string> = {
+  markdown: "Markdown",
+  pdf: "PDF",
+};
+
+function GuideSectionView({ section }: { section: GuideSection }) {
+  return (
+    <section className="space-y-3">
+      <h3 className="text-lg font-semibold">{section.title}</h3>
+      {section.summary && <p className="text-gray-700">{section.summary}</p>}
+      {section.keyConcepts.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {section.keyConcepts.map((concept) => (
+            <span
+              key={concept}
+              className="px-2 py-1 text-xs rounded-full bg-blue-50 text-blue-700"
+            >
+              {concept}
+            </span>
+          ))}
+        </div>
+      )}
+      {section.definitions.length > 0 && (
+        <dl className="space-y-2">
+          {section.definitions.map(({ term, definition }) => (
+            <div key={term}>
+              <dt className="font-medium">{term}</dt>
+              <dd className="text-sm text-gray-600">{definition}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {section.formulas.length > 0 && (
+        <ul className="space-y-2">
+          {section.formulas.map(({ expression, description }) => (
+            <li key={expression}>
+              <code className="px-2 py-1 rounded bg-gray-100 text-sm">{expression}</code>
+              <span className="ml-2 text-sm text-gray-600">{description}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+interface StudyGuideProps {
+  file: StoredFile;
+  onClose: () => void;
+}
+
+// Writes (or loads the cached) study guide for one file and shows it
+export default function StudyGuide({ file, onClose }: StudyGuideProps) {
+  const [guide, setGuide] = useState<Guide | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const write = useCallback(
+    async (refresh: boolean) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setError(null);
+      setProgress({ done: 0, total: 1 });
+
+      try {
+        const response = await fetch(`/api/files/${file.id}/study-guide`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ refresh }),
+          signal: controller.signal,
+        });
+        for await (const event of readJsonLines<StudyGuideStreamEvent>(response)) {
+          if (event.type === "progress") {
+            setProgress({ done: event.done, total: event.total });
+          } else if (event.type === "done") {
+            setGuide(event.guide);
+          } else {
+            throw new ApiRequestError(event.code, event.error, response.status);
+          }
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) setError((error as Error).message);
+      } finally {
+        if (abortRef.current === controller) setProgress(null);
+      }
+    },
+    [file.id]
+  );
+
+  useEffect(() => {
+    write(false);
+    return () => abortRef.current?.abort();
+  }, [write]);
+
+  const exportUrl = (format: StudyGuideExportFormat) =>
+    `/api/files/${file.id}/study-guide/export?format=${format}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Back to content">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h3 className="font-medium">{guide?.title || file.name}</h3>
+            <p className="text-sm text-gray-500">Study guide for {file.name}</p>
+          </div>
+        </div>
+        {guide && !progress && (
+          <div className="flex gap-2">
+            {GUIDE_EXPORT_FORMATS.map((format) => (
+              <Button key={format} variant="outline" size="sm" asChild>
+                <a href={exportUrl(format)} download>
+                  <Download className="w-4 h-4 mr-2" />
+                  {EXPORT_LABELS[format]}
+                </a>
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => write(true)}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Rewrite
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {progress && (
+        <div className="space-y-2 py-4">
+          <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+          <p className="text-sm text-center text-gray-500">
+            {progress.done === 0
+              ? "Reading the document..."
+              : `Summarizing: step ${progress.done} of ${progress.total}`}
+          </p>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {guide && !progress && (
+        <div className="space-y-8">
+          {guide.overview && <p className="text-gray-700">{guide.overview}</p>}
+          {guide.sections.map((section, index) => (
+            <GuideSectionView key={index} section={section} />
+          ))}
+          {guide.examQuestions.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="text-lg font-semibold">Likely exam questions</h3>
+              <ol className="list-decimal pl-6 space-y-1 text-gray-700">
+                {guide.examQuestions.map((question) => (
+                  <li key={question}>{question}</li>
+                ))}
+              </ol>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
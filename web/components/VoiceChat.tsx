@@ -2,66 +2,109 @@ import React, { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Mic, Speaker, Send, FileText, StopCircle } from "lucide-react";
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.NEXT_PUBLIC_OPENAI_API_KEY,
-  dangerouslyAllowBrowser: true,
-});
-
-interface Message {
+import {
+  Mic,
+  Speaker,
+  Send,
+  FileText,
+  StopCircle,
+  Square,
+  Settings2,
+  Headphones,
+  Quote,
+  X,
+} from "lucide-react";
+import SpeechSettingsPanel from "./SpeechSettingsPanel";
+import { readJsonLines, sendJson } from "@/lib/api/client";
+import { ApiRequestError } from "@/lib/api/errors";
+import { useHandsFree } from "@/hooks/useHandsFree";
+import { useSpeechQueue } from "@/hooks/useSpeechQueue";
+import type { ChatStreamEvent } from "@/lib/chat/events";
+import { defaultAutoSpeak } from "@/lib/chat/persona";
+import type { Conversation } from "@/lib/conversations/types";
+import { splitSentences } from "@/lib/speech/sentences";
+import { transcribe } from "@/lib/transcription/client";
+import { citationLabel } from "@/lib/documents/citations";
+import type { Citation } from "@/lib/documents/types";
+import type { StoredFile } from "@/lib/files/types";
+import type { Profile } from "@/lib/profiles/types";
+
+export interface Message {
   text: string;
   type: "user" | "assistant";
-}
-
-interface FileWithPreview extends File {
-  preview?: string;
-  path?: string;
+  citations?: Citation[];
 }
 
 interface VoiceChatProps {
-  files: FileWithPreview[];
+  conversation: Conversation;
+  files: StoredFile[];
   messages: Message[];
-  setMessages: (messages: Message[]) => void;
+  setMessages: React.Dispatch<React.SetStateAction<Message[]>>;
+  // Asked on the learner's behalf when the chat opens
+  initialMessage?: string | null;
+  // Put in the input for the learner to edit and send
+  initialDraft?: string | null;
+  // A highlighted passage sent along with the next message
+  initialPassage?: Citation | null;
+  onConversationChange: (conversation: Conversation) => void;
+  profile?: Profile | null;
+  // Shows a cited source; without it the file opens in a new tab
+  onOpenCitation?: (citation: Citation) => void;
 }
 
-export default function VoiceChat({ files, messages, setMessages }: VoiceChatProps) {
-  const [inputText, setInputText] = useState("");
+export default function VoiceChat({
+  conversation,
+  files,
+  messages,
+  setMessages,
+  initialMessage = null,
+  initialDraft = null,
+  initialPassage = null,
+  onConversationChange,
+  profile = null,
+  onOpenCitation,
+}: VoiceChatProps) {
+  const [inputText, setInputText] = useState(initialDraft ?? "");
+  const [passage, setPassage] = useState<Citation | null>(initialPassage);
   const [isLoading, setIsLoading] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
+  // The reply as it streams in; null when nothing is being generated
+  const [streamingText, setStreamingText] = useState<string | null>(null);
   const [isRecording, setIsRecording] = useState(false);
-  const [recordingError, setRecordingError] = useState<string | null>(null);
-  const [autoSpeak, setAutoSpeak] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [autoSpeak, setAutoSpeak] = useState(() => defaultAutoSpeak(profile));
+  const [showSpeechSettings, setShowSpeechSettings] = useState(false);
+  const [handsFree, setHandsFree] = useState(false);
+  // Hands-free conversations are always spoken
+  const speakReplies = autoSpeak || handsFree;
+  const {
+    position: speaking,
+    isSpeaking,
+    feed: feedSpeech,
+    speak,
+    stop: stopSpeaking,
+  } = useSpeechQueue((error) => {
+    if (error instanceof ApiRequestError) setError(error.message);
+  });
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const abortControllerRef = useRef<AbortController | null>(null);
+  const chatControllerRef = useRef<AbortController | null>(null);
+  const initialMessageSentRef = useRef(false);
+  // The profile can load after the chat opens; its default is applied once
+  // so it doesn't undo the learner's own Auto-speak choice later
+  const profileDefaultAppliedRef = useRef(profile !== null);
 
   useEffect(() => {
-    const welcomeMessage = {
-      text: "Hey there! 👋 I'm Wiz AI, your AI learning assistant! I've noticed you've uploaded " + 
-      (files.length === 1 ? "a document" : files.length + " documents") + 
-      ". I'm here to help you understand the material, quiz you on the content, or just chat about what you're learning. What would you like to focus on today?",
-      type: "assistant" as const
-    };
-    setMessages([welcomeMessage]);
-  }, [files]);
+    if (!profile || profileDefaultAppliedRef.current) return;
+    profileDefaultAppliedRef.current = true;
+    setAutoSpeak(defaultAutoSpeak(profile));
+  }, [profile]);
 
   useEffect(() => {
     if (scrollAreaRef.current) {
       scrollAreaRef.current.scrollTop = scrollAreaRef.current.scrollHeight;
     }
-  }, [messages]);
-
-  // Add effect to auto-speak new AI messages
-  useEffect(() => {
-    const lastMessage = messages[messages.length - 1];
-    if (autoSpeak && lastMessage?.type === "assistant") {
-      generateSpeech(lastMessage.text);
-    }
-  }, [messages, autoSpeak]);
+  }, [messages, streamingText]);
 
   const startRecording = async () => {
     try {
@@ -85,10 +128,10 @@ export default function VoiceChat({ files, messages, setMessages }: VoiceChatPro
 
       mediaRecorderRef.current.start();
       setIsRecording(true);
-      setRecordingError(null);
+      setError(null);
     } catch (error) {
       console.error('Error starting recording:', error);
-      setRecordingError('Failed to access microphone');
+      setError('Failed to access microphone');
     }
   };
 
@@ -102,142 +145,199 @@ export default function VoiceChat({ files, messages, setMessages }: VoiceChatPro
   const transcribeAudio = async (audioBlob: Blob) => {
     try {
       setIsLoading(true);
-      const file = new File([audioBlob], "audio.webm", { type: "audio/webm" });
-      
-      const transcription = await openai.audio.transcriptions.create({
-        file: file,
-        model: "whisper-1",
-      });
+      const text = await transcribe(audioBlob);
 
       // Instead of setting inputText, directly send the transcribed text
-      await handleSendMessage(transcription.text);
+      await handleSendMessage(text);
     } catch (error) {
       console.error('Transcription error:', error);
-      setRecordingError('Failed to transcribe audio. Please try again.');
+      setError(
+        error instanceof ApiRequestError
+          ? error.message
+          : 'Failed to transcribe audio. Please try again.'
+      );
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Function to stop current speech
-  const stopSpeaking = () => {
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.currentTime = 0;
+  const openCitation = (citation: Citation) => {
+    if (onOpenCitation) {
+      onOpenCitation(citation);
+      return;
     }
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-    }
-    setIsSpeaking(false);
+    const url = `/api/files/${citation.fileId}/content`;
+    window.open(
+      citation.location.kind === "page"
+        ? `${url}#page=${citation.location.number}`
+        : url,
+      "_blank"
+    );
   };
 
-  const generateSpeech = async (text: string) => {
+  const toggleFile = async (fileId: string) => {
+    const fileIds = conversation.fileIds.includes(fileId)
+      ? conversation.fileIds.filter((id) => id !== fileId)
+      : [...conversation.fileIds, fileId];
+
     try {
-      // Stop any ongoing speech
-      stopSpeaking();
+      const data = await sendJson<{ conversation: Conversation }>(
+        "PATCH",
+        `/api/conversations/${conversation.id}`,
+        { fileIds }
+      );
+      onConversationChange(data.conversation);
+    } catch (error) {
+      console.error("Error updating materials:", error);
+      setError((error as Error).message);
+    }
+  };
+
+  const handleSendMessage = async (text: string) => {
+    if (!text.trim() || isLoading) return;
+
+    const userMessage: Message = {
+      text: text.trim(),
+      type: "user",
+      citations: passage ? [passage] : undefined,
+    };
+    setMessages((prev) => [...prev, userMessage]);
+    setInputText("");
+    setPassage(null);
+    setError(null);
+
+    setIsLoading(true);
+    setStreamingText("");
+    const controller = new AbortController();
+    chatControllerRef.current = controller;
+    let saved = false;
+    let partial = "";
+    // Where the reply will sit once it's added, for speech highlighting
+    const replyKey = messages.length + 1;
 
-      setIsSpeaking(true);
-      
-      // Create new AbortController for this request
-      abortControllerRef.current = new AbortController();
-      
-      const response = await fetch("/api/speech", {
+    try {
+      const response = await fetch("/api/chat", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ text }),
-        signal: abortControllerRef.current.signal
+        body: JSON.stringify({
+          conversationId: conversation.id,
+          message: userMessage.text,
+          passage,
+        }),
+        signal: controller.signal,
       });
 
-      if (!response.ok) {
-        throw new Error("Failed to generate speech");
-      }
-
-      const audioBlob = await response.blob();
-      const audioUrl = URL.createObjectURL(audioBlob);
-
-      if (audioRef.current) {
-        audioRef.current.src = audioUrl;
-        audioRef.current.onended = () => {
-          setIsSpeaking(false);
-          URL.revokeObjectURL(audioUrl);
-        };
-        await audioRef.current.play();
+      for await (const event of readJsonLines<ChatStreamEvent>(response)) {
+        if (event.type === "start") {
+          saved = true;
+          onConversationChange(event.conversation);
+        } else if (event.type === "delta") {
+          partial += event.text;
+          setStreamingText(partial);
+          if (speakReplies) {
+            feedSpeech(replyKey, partial, false);
+          }
+        } else if (event.type === "done") {
+          setMessages((prev) => [...prev, event.message]);
+          if (speakReplies) {
+            feedSpeech(replyKey, event.message.text);
+          }
+        } else {
+          throw new ApiRequestError(event.code, event.error, response.status);
+        }
       }
     } catch (error) {
-      if (error.name === 'AbortError') {
-        console.log('Speech generation aborted');
+      if (controller.signal.aborted) {
+        // Stopped by the learner: the server keeps the same partial reply
+        if (partial) {
+          setMessages((prev) => [...prev, { text: partial, type: "assistant" }]);
+          if (speakReplies) {
+            feedSpeech(replyKey, partial);
+          }
+        }
       } else {
-        console.error("Error generating speech:", error);
+        console.error("Error in chat:", error);
+        if (!saved) {
+          // Nothing was saved, so put the question back for a retry
+          setMessages((prev) => prev.filter((msg) => msg !== userMessage));
+          setInputText(text);
+          setPassage(passage);
+        }
+        setError(
+          error instanceof ApiRequestError
+            ? error.message
+            : "I encountered an error while processing your request."
+        );
       }
-      setIsSpeaking(false);
+    } finally {
+      chatControllerRef.current = null;
+      setStreamingText(null);
+      setIsLoading(false);
     }
   };
 
-  const getAIResponse = async (userMessage: string) => {
-    try {
-      const context = `You are Wiz AI, a friendly and encouraging learning assistant. You should:
-      - Be conversational and enthusiastic about helping students learn
-      - Use emoji occasionally to keep the tone light and engaging
-      - Break down complex topics into simpler terms
-      - Provide examples and analogies to help understanding
-      - Ask follow-up questions to ensure understanding
-      - Encourage critical thinking rather than just giving answers
-      - Be supportive and motivating
-      
-      The user has uploaded the following files: ${files.map(f => f.name).join(", ")}. 
-      Refer to these materials in your responses when relevant.`;
+  // The latest handler, so the opening message is sent once, not on every render
+  const sendMessageRef = useRef(handleSendMessage);
+  sendMessageRef.current = handleSendMessage;
 
-      const completion = await openai.chat.completions.create({
-        model: "gpt-3.5-turbo",
-        messages: [
-          { role: "system", content: context },
-          ...messages.map((msg) => ({
-            role: msg.type as "user" | "assistant",
-            content: msg.text,
-          })),
-          { role: "user", content: userMessage },
-        ],
-        temperature: 0.7,
-        max_tokens: 250, 
-        presence_penalty: 0.6,
-        frequency_penalty: 0.6, 
-      });
+  useEffect(() => {
+    if (!initialMessage || initialMessageSentRef.current) return;
+    initialMessageSentRef.current = true;
+    sendMessageRef.current(initialMessage);
+  }, [initialMessage]);
 
-      return completion.choices[0]?.message?.content || "I'm sorry, I couldn't generate a response.";
-    } catch (error) {
-      console.error("Error getting AI response:", error);
-      return "I apologize, but I encountered an error while processing your request.";
-    }
+  const stopGenerating = () => {
+    chatControllerRef.current?.abort();
   };
 
-  const handleSendMessage = async (text: string) => {
-    if (!text.trim() || isLoading) return;
+  const { level, hearing } = useHandsFree({
+    enabled: handsFree,
+    // Listen again once Wiz AI starts talking, so the learner can interrupt
+    paused: isLoading && !isSpeaking,
+    speaking: isSpeaking,
+    onUtterance: (audio) => transcribeAudio(audio),
+    onBargeIn: () => {
+      stopSpeaking();
+      stopGenerating();
+    },
+    onError: (error) => {
+      setError(error.message);
+      setHandsFree(false);
+    },
+  });
+
+  const handsFreeStatus = hearing
+    ? "Hearing you..."
+    : isSpeaking
+      ? "Speaking - talk to interrupt"
+      : isLoading
+        ? "Thinking..."
+        : "Listening...";
 
-    const userMessage = { text: text.trim(), type: "user" as const };
-    setMessages((prev) => [...prev, userMessage]);
-    setInputText("");
+  const handleSend = () => handleSendMessage(inputText);
 
-    setIsLoading(true);
-    try {
-      const aiResponse = await getAIResponse(text);
-      const assistantMessage = { text: aiResponse, type: "assistant" as const };
-      setMessages((prev) => [...prev, assistantMessage]);
-    } catch (error) {
-      console.error("Error in chat:", error);
-    } finally {
-      setIsLoading(false);
-    }
+  // Highlights the sentence being read aloud
+  const renderText = (text: string, key: number) => {
+    if (speaking?.key !== key) return text;
+    return splitSentences(text).map((sentence, index) => (
+      <span
+        key={index}
+        className={
+          index === speaking.sentence ? "bg-yellow-200 rounded" : undefined
+        }
+      >
+        {sentence}
+      </span>
+    ));
   };
 
-  const handleSend = () => handleSendMessage(inputText);
-
   return (
     <div className="flex flex-col h-[600px]">
       <div className="p-4 border-b bg-gray-50">
         <div className="flex justify-between items-center mb-2">
-        <h3 className="text-sm font-medium">Uploaded Materials:</h3>
+        <h3 className="text-sm font-medium">Materials for this chat:</h3>
           <div className="flex gap-2">
             <Button
               variant="ghost"
@@ -258,18 +358,50 @@ export default function VoiceChat({ files, messages, setMessages }: VoiceChatPro
               <Speaker className={`w-4 h-4 ${autoSpeak ? 'text-blue-500' : 'text-gray-500'}`} />
               {autoSpeak ? 'Auto-speak On' : 'Auto-speak Off'}
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSpeechSettings(!showSpeechSettings)}
+              className="flex items-center gap-2"
+            >
+              <Settings2 className="w-4 h-4" />
+              Voice
+            </Button>
           </div>
         </div>
+        {showSpeechSettings && (
+          <div className="mb-2">
+            <SpeechSettingsPanel />
+          </div>
+        )}
         <div className="flex flex-wrap gap-2">
-          {files.map((file, index) => (
-            <div
-              key={index}
-              className="flex items-center p-2 bg-white rounded-md border text-sm"
-            >
-              <FileText className="w-4 h-4 mr-2 text-blue-500" />
-              <span>{file.name}</span>
-            </div>
-          ))}
+          {files.map((file) => {
+            const selected = conversation.fileIds.includes(file.id);
+            return (
+              <button
+                key={file.id}
+                type="button"
+                onClick={() => toggleFile(file.id)}
+                disabled={!!file.extractionError}
+                title={
+                  file.extractionError ??
+                  (selected ? "Remove from this chat" : "Add to this chat")
+                }
+                className={`flex items-center p-2 rounded-md border text-sm disabled:opacity-50 ${
+                  selected
+                    ? "bg-white border-blue-300"
+                    : "bg-gray-100 text-gray-500"
+                }`}
+              >
+                <FileText
+                  className={`w-4 h-4 mr-2 ${
+                    selected ? "text-blue-500" : "text-gray-400"
+                  }`}
+                />
+                <span>{file.name}</span>
+              </button>
+            );
+          })}
         </div>
       </div>
 
@@ -289,17 +421,34 @@ export default function VoiceChat({ files, messages, setMessages }: VoiceChatPro
                     : "bg-gray-100 text-gray-900"
                 }`}
               >
-                <p className="whitespace-pre-wrap">{message.text}</p>
+                <p className="whitespace-pre-wrap">
+                  {renderText(message.text, index)}
+                </p>
+                {message.citations && message.citations.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {message.citations.map((citation, citationIndex) => (
+                      <button
+                        key={citationIndex}
+                        type="button"
+                        onClick={() => openCitation(citation)}
+                        className="flex items-center px-2 py-0.5 bg-white rounded-full border text-xs text-blue-600 hover:bg-blue-50"
+                      >
+                        <FileText className="w-3 h-3 mr-1" />
+                        [{citationIndex + 1}] {citationLabel(citation)}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 {message.type === "assistant" && !autoSpeak && (
                   <Button
                     variant="ghost"
                     size="sm"
                     className="mt-2"
-                    onClick={() => generateSpeech(message.text)}
+                    onClick={() => speak(index, message.text)}
                     disabled={isSpeaking}
                   >
                     <Speaker className="w-4 h-4 mr-2" />
-                    {isSpeaking ? "Speaking..." : "Listen"}
+                    {speaking?.key === index ? "Speaking..." : "Listen"}
                   </Button>
                 )}
               </div>
@@ -307,8 +456,15 @@ export default function VoiceChat({ files, messages, setMessages }: VoiceChatPro
           ))}
           {isLoading && (
             <div className="flex justify-start">
-              <div className="max-w-[80%] p-3 rounded-lg bg-gray-100">
-                <p className="animate-pulse">Thinking...</p>
+              <div className="max-w-[80%] p-3 rounded-lg bg-gray-100 text-gray-900">
+                {streamingText ? (
+                  <p className="whitespace-pre-wrap">
+                    {renderText(streamingText, messages.length)}
+                    <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                  </p>
+                ) : (
+                  <p className="animate-pulse">Thinking...</p>
+                )}
               </div>
             </div>
           )}
@@ -316,6 +472,38 @@ export default function VoiceChat({ files, messages, setMessages }: VoiceChatPro
       </ScrollArea>
 
       <div className="p-4 border-t">
+        {handsFree && (
+          <div className="flex items-center gap-3 mb-2 text-sm text-gray-600">
+            <Headphones className="w-4 h-4 text-blue-500" />
+            <span className="w-48">{handsFreeStatus}</span>
+            <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-[width] duration-75 ${
+                  hearing ? "bg-green-500" : "bg-blue-400"
+                }`}
+                style={{ width: `${Math.min(100, level * 800)}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {passage && (
+          <div className="flex items-start gap-2 mb-2 p-2 rounded-md border-l-4 border-blue-400 bg-blue-50 text-sm">
+            <Quote className="w-4 h-4 mt-0.5 shrink-0 text-blue-500" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-gray-500">{citationLabel(passage)}</p>
+              <p className="line-clamp-3 text-gray-700">{passage.excerpt}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              onClick={() => setPassage(null)}
+              aria-label="Remove passage"
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        )}
         <div className="flex gap-2">
           <Textarea
             value={inputText}
@@ -326,24 +514,39 @@ export default function VoiceChat({ files, messages, setMessages }: VoiceChatPro
                 handleSend();
               }
             }}
-            placeholder="Ask me anything about your materials..."
+            placeholder={
+              passage
+                ? "Ask about this passage..."
+                : "Ask me anything about your materials..."
+            }
             className="flex-1"
             rows={3}
           />
           <div className="flex flex-col gap-2">
-            <Button
-              onClick={handleSend}
-              disabled={isLoading || !inputText.trim()}
-              className="flex-1"
-            >
-              <Send className="w-4 h-4 mr-2" />
-              Send
-            </Button>
+            {streamingText !== null ? (
+              <Button
+                onClick={stopGenerating}
+                variant="destructive"
+                className="flex-1"
+              >
+                <Square className="w-4 h-4 mr-2" />
+                Stop
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSend}
+                disabled={isLoading || !inputText.trim()}
+                className="flex-1"
+              >
+                <Send className="w-4 h-4 mr-2" />
+                Send
+              </Button>
+            )}
             <Button
               variant="outline"
               className="flex-1"
               onClick={isRecording ? stopRecording : startRecording}
-              disabled={isLoading}
+              disabled={isLoading || handsFree}
             >
               {isRecording ? (
                 <StopCircle className="w-4 h-4 mr-2 text-red-500" />
@@ -352,14 +555,21 @@ export default function VoiceChat({ files, messages, setMessages }: VoiceChatPro
               )}
               {isRecording ? "Stop" : "Voice"}
             </Button>
+            <Button
+              variant={handsFree ? "default" : "outline"}
+              className="flex-1"
+              onClick={() => setHandsFree(!handsFree)}
+              disabled={isRecording}
+            >
+              <Headphones className="w-4 h-4 mr-2" />
+              {handsFree ? "End Hands-free" : "Hands-free"}
+            </Button>
           </div>
         </div>
-        {recordingError && (
-          <p className="text-red-500 text-sm mt-2">{recordingError}</p>
+        {error && (
+          <p className="text-red-500 text-sm mt-2">{error}</p>
         )}
       </div>
-
-      <audio ref={audioRef} className="hidden" />
     </div>
   );
 }
\ No newline at end of file
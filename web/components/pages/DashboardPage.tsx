@@ -12,73 +12,112 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Upload, FileText, MessageSquare, Brain, X } from "lucide-react";
+import {
+  Upload,
+  FileText,
+  MessageSquare,
+  Brain,
+  X,
+  UserCog,
+  Repeat,
+  TrendingUp,
+  Layers,
+} from "lucide-react";
 import { useSession } from "next-auth/react";
-import VoiceChat from "../VoiceChat";
+import Link from "next/link";
+import ChatWorkspace from "../ChatWorkspace";
+import DocumentViewer from "../DocumentViewer";
+import FlashcardsPanel from "../FlashcardsPanel";
+import ProgressPanel from "../ProgressPanel";
+import QuizSetup from "../QuizSetup";
+import StudyGuide from "../StudyGuide";
 import QuizPage from "./QuizPage";
-
-const LOCAL_STORAGE_KEYS = {
-  FILES: "wiz-ai-files",
-  MESSAGES: "wiz-ai-messages",
-};
-
-interface FileWithPreview extends File {
-  preview?: string;
-  path?: string;
-}
-
-interface Message {
-  text: string;
-  type: "user" | "assistant";
-}
+import { getJson, readJson, sendJson } from "@/lib/api/client";
+import type { NewChat } from "@/lib/conversations/types";
+import type { DocumentTarget } from "@/lib/documents/types";
+import type { StoredFile } from "@/lib/files/types";
+import type { Profile } from "@/lib/profiles/types";
+import type { QuizSettings } from "@/lib/quiz/settings";
+import type { ReviewItem } from "@/lib/reviews/types";
 
 export default function DashboardPage() {
-  const [files, setFiles] = useState<FileWithPreview[]>([]);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [files, setFiles] = useState<StoredFile[]>([]);
   const [uploading, setUploading] = useState(false);
   const [activeTab, setActiveTab] = useState("upload");
-  const [activeQuizFile, setActiveQuizFile] = useState<FileWithPreview | null>(
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  // The files the current quiz draws on, balanced across all of them
+  const [activeQuizFiles, setActiveQuizFiles] = useState<StoredFile[] | null>(
     null
   );
+  const [selectedQuizFileIds, setSelectedQuizFileIds] = useState<string[]>([]);
+  // Set once the learner has finished setting up the active quiz
+  const [quizSettings, setQuizSettings] = useState<QuizSettings | null>(null);
+  const [reviewDeck, setReviewDeck] = useState<ReviewItem[] | null>(null);
+  const [dueCount, setDueCount] = useState(0);
+  // A quiz question being handed over to Wiz AI
+  const [newChat, setNewChat] = useState<NewChat | null>(null);
+  const [studyGuideFile, setStudyGuideFile] = useState<StoredFile | null>(null);
+  // The document open in the viewer, e.g. at a source Wiz AI cited
+  const [viewerTarget, setViewerTarget] = useState<DocumentTarget | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
   const { data: session } = useSession();
 
   useEffect(() => {
-    const loadSavedData = () => {
-      const savedFiles = localStorage.getItem(LOCAL_STORAGE_KEYS.FILES);
-      const savedMessages = localStorage.getItem(LOCAL_STORAGE_KEYS.MESSAGES);
-
-      if (savedFiles) {
-        const parsedFiles = JSON.parse(savedFiles);
-        setFiles(
-          parsedFiles.map((file: any) => {
-            // Recreate File objects from stored data
-            return new File([new Blob()], file.name, {
-              type: file.type,
-            }) as FileWithPreview;
-          })
-        );
-      }
+    getJson<{ profile: Profile }>("/api/profile")
+      .then((data) => setProfile(data.profile))
+      .catch(() => setProfile(null));
+  }, []);
 
-      if (savedMessages) {
-        setMessages(JSON.parse(savedMessages));
-      }
-    };
+  const loadReviews = async () => {
+    const data = await getJson<{ items: ReviewItem[]; dueCount: number }>(
+      "/api/reviews"
+    );
+    setDueCount(data.dueCount);
+    return data.items;
+  };
 
-    loadSavedData();
-  }, []);
+  const startReview = async () => {
+    try {
+      const items = await loadReviews();
+      if (items.length > 0) setReviewDeck(items);
+    } catch (error) {
+      console.error("Error loading reviews:", error);
+    }
+  };
+
+  // Answers change what's due, so refresh the count after every quiz
+  const closeQuiz = () => {
+    setActiveQuizFiles(null);
+    setQuizSettings(null);
+    setReviewDeck(null);
+    loadReviews().catch((error) =>
+      console.error("Error loading reviews:", error)
+    );
+  };
+
+  const explainInChat = (chat: NewChat) => {
+    setNewChat(chat);
+    setActiveTab("chat");
+  };
 
   useEffect(() => {
-    const filesToSave = files.map((file) => ({
-      name: file.name,
-      type: file.type,
-      size: file.size,
-    }));
-    localStorage.setItem(LOCAL_STORAGE_KEYS.FILES, JSON.stringify(filesToSave));
-  }, [files]);
+    loadReviews().catch((error) =>
+      console.error("Error loading reviews:", error)
+    );
+  }, []);
 
   useEffect(() => {
-    localStorage.setItem(LOCAL_STORAGE_KEYS.MESSAGES, JSON.stringify(messages));
-  }, [messages]);
+    const loadSavedData = async () => {
+      try {
+        const data = await getJson<{ files: StoredFile[] }>("/api/files");
+        setFiles(data.files);
+      } catch (error) {
+        console.error("Error loading files:", error);
+      }
+    };
+
+    loadSavedData();
+  }, []);
 
   const handleFileUpload = async (
     event: React.ChangeEvent<HTMLInputElement>
@@ -87,43 +126,106 @@ export default function DashboardPage() {
     if (!fileList) return;
 
     setUploading(true);
+    setUploadError(null);
     try {
-      const newFiles = Array.from(fileList).map((file) => {
-        const newFile = new File([file], file.name, {
-          type: file.type,
-        }) as FileWithPreview;
-        newFile.preview = URL.createObjectURL(file);
-        newFile.path = file.name;
-        return newFile;
-      });
-      setFiles((prev) => [...prev, ...newFiles]);
-      await new Promise((resolve) => setTimeout(resolve, 1000)); // Simulated upload
-      setActiveTab("chat");
+      // One request per file, so each streams straight to storage
+      const newFiles: StoredFile[] = [];
+      for (const file of Array.from(fileList)) {
+        const formData = new FormData();
+        formData.append("file", file);
+
+        const response = await fetch("/api/files", {
+          method: "POST",
+          body: formData,
+        });
+        const data = await readJson<{ file: StoredFile }>(response);
+        newFiles.push(data.file);
+        setFiles((prev) => [...prev, data.file]);
+      }
+      if (newFiles.some((file) => !file.extractionError)) {
+        setActiveTab("chat");
+      }
     } catch (error) {
       console.error("Error uploading files:", error);
+      setUploadError((error as Error).message);
     } finally {
       setUploading(false);
+      event.target.value = "";
+    }
+  };
+
+  const handleRemoveFile = async (fileToRemove: StoredFile) => {
+    try {
+      await sendJson("DELETE", `/api/files/${fileToRemove.id}`);
+      setFiles((prevFiles) =>
+        prevFiles.filter((file) => file.id !== fileToRemove.id)
+      );
+      setSelectedQuizFileIds((prev) =>
+        prev.filter((id) => id !== fileToRemove.id)
+      );
+    } catch (error) {
+      console.error("Error removing file:", error);
     }
   };
 
-  const handleRemoveFile = (indexToRemove: number) => {
-    setFiles((prevFiles) => {
-      const newFiles = prevFiles.filter((_, index) => index !== indexToRemove);
-      return newFiles;
-    });
+  const handleCourseChange = async (file: StoredFile, course: string) => {
+    if (course.trim() === (file.course ?? "")) return;
+    try {
+      const data = await sendJson<{ file: StoredFile }>(
+        "PATCH",
+        `/api/files/${file.id}`,
+        { course: course.trim() || null }
+      );
+      setFiles((prev) =>
+        prev.map((existing) => (existing.id === file.id ? data.file : existing))
+      );
+    } catch (error) {
+      console.error("Error updating course:", error);
+    }
   };
 
+  const courses = Array.from(
+    new Set(files.flatMap((file) => (file.course ? [file.course] : [])))
+  ).sort((a, b) => a.localeCompare(b));
+
+  // Files grouped by course, with files outside any course last
+  const quizGroups = [
+    ...courses.map((course) => ({
+      course,
+      files: files.filter((file) => file.course === course),
+    })),
+    { course: null, files: files.filter((file) => !file.course) },
+  ]
+    .filter((group) => group.files.length > 0)
+    .map((group) => ({
+      ...group,
+      quizableIds: group.files
+        .filter((file) => !file.extractionError)
+        .map((file) => file.id),
+    }));
+
+  const quizableFiles = files.filter((file) => !file.extractionError);
+
+  const toggleQuizFile = (fileId: string) =>
+    setSelectedQuizFileIds((prev) =>
+      prev.includes(fileId)
+        ? prev.filter((id) => id !== fileId)
+        : [...prev, fileId]
+    );
+
+  // Selects a whole course, or clears it when it's already all selected
+  const toggleQuizGroup = (ids: string[]) =>
+    setSelectedQuizFileIds((prev) =>
+      ids.every((id) => prev.includes(id))
+        ? prev.filter((id) => !ids.includes(id))
+        : [...prev, ...ids.filter((id) => !prev.includes(id))]
+    );
+
   const handleViewClick = () => {
     setActiveTab("chat");
   };
 
-  const FileItem = ({
-    file,
-    index,
-  }: {
-    file: FileWithPreview;
-    index: number;
-  }) => {
+  const FileItem = ({ file }: { file: StoredFile }) => {
     const [showDelete, setShowDelete] = useState(false);
     const fileSizeMB = (file.size / (1024 * 1024)).toFixed(2);
 
@@ -134,14 +236,19 @@ export default function DashboardPage() {
         onMouseLeave={() => setShowDelete(false)}
       >
         <FileText className="w-4 h-4 mr-2 text-blue-500" />
-        <span className="flex-1">{file.name}</span>
+        <div className="flex-1">
+          <span>{file.name}</span>
+          {file.extractionError && (
+            <p className="text-sm text-red-500">{file.extractionError}</p>
+          )}
+        </div>
         <span className="text-sm text-gray-500 mr-2">{fileSizeMB} MB</span>
         {showDelete && (
           <Button
             variant="ghost"
             size="icon"
             className="absolute -right-2 -top-2 h-6 w-6 rounded-full bg-red-500 hover:bg-red-600 text-white"
-            onClick={() => handleRemoveFile(index)}
+            onClick={() => handleRemoveFile(file)}
           >
             <X className="h-4 w-4" />
           </Button>
@@ -153,11 +260,21 @@ export default function DashboardPage() {
   return (
     <div className="min-h-screen bg-gray-100 p-8">
       <div className="max-w-6xl mx-auto space-y-8">
-        <div>
-          <h1 className="text-3xl font-bold">Hi, {session?.user?.name}!</h1>
-          <p className="text-gray-600">
-            Manage your learning materials and study sessions
-          </p>
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">
+              Hi, {profile?.name ?? session?.user?.name}!
+            </h1>
+            <p className="text-gray-600">
+              Manage your learning materials and study sessions
+            </p>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/onboard?edit=1">
+              <UserCog className="w-4 h-4 mr-2" />
+              Edit Profile
+            </Link>
+          </Button>
         </div>
 
         <Tabs
@@ -182,6 +299,14 @@ export default function DashboardPage() {
               <Brain className="w-4 h-4 mr-2" />
               Quiz Mode
             </TabsTrigger>
+            <TabsTrigger value="flashcards">
+              <Layers className="w-4 h-4 mr-2" />
+              Flashcards
+            </TabsTrigger>
+            <TabsTrigger value="progress">
+              <TrendingUp className="w-4 h-4 mr-2" />
+              Progress
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="upload" className="space-y-4">
@@ -213,14 +338,20 @@ export default function DashboardPage() {
                     disabled={uploading}
                     multiple
                   />
+                  {uploading && (
+                    <p className="text-sm text-gray-500">Uploading...</p>
+                  )}
+                  {uploadError && (
+                    <p className="text-sm text-red-500">{uploadError}</p>
+                  )}
                 </div>
 
                 {files.length > 0 && (
                   <div className="mt-4">
                     <h3 className="font-medium mb-2">Uploaded Files</h3>
                     <div className="space-y-2">
-                      {files.map((file, index) => (
-                        <FileItem key={index} file={file} index={index} />
+                      {files.map((file) => (
+                        <FileItem key={file.id} file={file} />
                       ))}
                     </div>
                   </div>
@@ -238,18 +369,26 @@ export default function DashboardPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {files.length === 0 ? (
+                {studyGuideFile ? (
+                  <StudyGuide
+                    file={studyGuideFile}
+                    onClose={() => setStudyGuideFile(null)}
+                  />
+                ) : files.length === 0 ? (
                   <div className="text-center py-8 text-gray-500">
                     No content uploaded yet. Start by uploading some learning
                     materials!
                   </div>
                 ) : (
                   <div className="grid gap-4">
-                    {files.map((file, index) => {
+                    {files.map((file) => {
                       const fileSizeMB = (file.size / (1024 * 1024)).toFixed(2);
+                      const uploadedOn = new Date(
+                        file.createdAt
+                      ).toLocaleDateString();
                       return (
                         <div
-                          key={index}
+                          key={file.id}
                           className="flex items-center justify-between p-4 bg-white rounded-lg border"
                         >
                           <div className="flex items-center">
@@ -257,11 +396,44 @@ export default function DashboardPage() {
                             <div>
                               <h4 className="font-medium">{file.name}</h4>
                               <p className="text-sm text-gray-500">
-                                Uploaded just now • {fileSizeMB} MB
+                                Uploaded {uploadedOn} • {fileSizeMB} MB
                               </p>
                             </div>
                           </div>
-                          <div className="flex space-x-2">
+                          <div className="flex items-center space-x-2">
+                            <Input
+                              list="course-names"
+                              placeholder="Add to a course"
+                              aria-label={`Course for ${file.name}`}
+                              className="h-9 w-44"
+                              defaultValue={file.course ?? ""}
+                              onBlur={(event) =>
+                                handleCourseChange(file, event.target.value)
+                              }
+                              onKeyDown={(event) => {
+                                if (event.key === "Enter") {
+                                  event.currentTarget.blur();
+                                }
+                              }}
+                            />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                setViewerTarget({ fileId: file.id, fileName: file.name })
+                              }
+                              disabled={!!file.extractionError}
+                            >
+                              Open
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setStudyGuideFile(file)}
+                              disabled={!!file.extractionError}
+                            >
+                              Study Guide
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
@@ -273,7 +445,7 @@ export default function DashboardPage() {
                               variant="default"
                               size="sm"
                               onClick={() => {
-                                setActiveQuizFile(file);
+                                setActiveQuizFiles([file]);
                                 setActiveTab("quiz");
                               }}
                             >
@@ -283,6 +455,11 @@ export default function DashboardPage() {
                         </div>
                       );
                     })}
+                    <datalist id="course-names">
+                      {courses.map((course) => (
+                        <option key={course} value={course} />
+                      ))}
+                    </datalist>
                   </div>
                 )}
               </CardContent>
@@ -305,17 +482,24 @@ export default function DashboardPage() {
                     AI!
                   </div>
                 ) : (
-                  <VoiceChat
+                  <ChatWorkspace
                     files={files}
-                    messages={messages}
-                    setMessages={setMessages}
+                    profile={profile}
+                    newChat={newChat}
+                    onNewChatStarted={() => setNewChat(null)}
+                    onOpenCitation={setViewerTarget}
                   />
                 )}
               </CardContent>
             </Card>
           </TabsContent>
 
-          <TabsContent value="quiz">
+          {/* Kept mounted so a finished quiz survives a trip to the chat */}
+          <TabsContent
+            value="quiz"
+            forceMount
+            className="data-[state=inactive]:hidden"
+          >
             <Card>
               <CardHeader>
                 <CardTitle>Quiz Mode</CardTitle>
@@ -324,48 +508,183 @@ export default function DashboardPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {files.length === 0 ? (
-                  <div className="text-center py-8 text-gray-500">
-                    Upload some materials first to generate quizzes!
-                  </div>
-                ) : activeQuizFile ? (
+                {reviewDeck ? (
                   <QuizPage
-                    fileName={activeQuizFile.name}
-                    fileContent={activeQuizFile.preview}
-                    onClose={() => setActiveQuizFile(null)}
+                    deck={reviewDeck}
+                    onClose={closeQuiz}
+                    onExplainInChat={explainInChat}
+                    onOpenSource={setViewerTarget}
+                  />
+                ) : activeQuizFiles && quizSettings ? (
+                  <QuizPage
+                    files={activeQuizFiles}
+                    settings={quizSettings}
+                    onClose={closeQuiz}
+                    onExplainInChat={explainInChat}
+                    onOpenSource={setViewerTarget}
+                  />
+                ) : activeQuizFiles ? (
+                  <QuizSetup
+                    files={activeQuizFiles}
+                    onStart={setQuizSettings}
+                    onCancel={closeQuiz}
                   />
                 ) : (
                   <div className="grid gap-4">
-                    {files.map((file, index) => (
-                      <div
-                        key={index}
-                        className="flex items-center justify-between p-4 bg-white rounded-lg border"
-                      >
-                        <div className="flex items-center">
-                          <FileText className="w-5 h-5 mr-3 text-blue-500" />
-                          <div>
-                            <h4 className="font-medium">{file.name}</h4>
-                            <p className="text-sm text-gray-500">
-                              Click to generate a quiz from this material
-                            </p>
-                          </div>
+                    <div className="flex items-center justify-between p-4 bg-blue-50 rounded-lg border border-blue-200">
+                      <div className="flex items-center">
+                        <Repeat className="w-5 h-5 mr-3 text-blue-500" />
+                        <div>
+                          <h4 className="font-medium">Due for review</h4>
+                          <p className="text-sm text-gray-500">
+                            {dueCount === 0
+                              ? "Nothing due right now. Questions you answer come back when it's time to review them."
+                              : `${dueCount} question${dueCount === 1 ? "" : "s"} from your past quizzes`}
+                          </p>
                         </div>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => setActiveQuizFile(file)}
-                        >
-                          Start Quiz
-                        </Button>
                       </div>
-                    ))}
+                      <Button
+                        size="sm"
+                        onClick={startReview}
+                        disabled={dueCount === 0}
+                      >
+                        Start Review
+                      </Button>
+                    </div>
+
+                    {files.length === 0 ? (
+                      <div className="text-center py-8 text-gray-500">
+                        Upload some materials first to generate quizzes!
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex items-center justify-between">
+                          <p className="text-sm text-gray-500">
+                            Select documents, or a whole course, to mix them
+                            into one quiz
+                          </p>
+                          <Button
+                            size="sm"
+                            disabled={selectedQuizFileIds.length === 0}
+                            onClick={() =>
+                              setActiveQuizFiles(
+                                quizableFiles.filter((file) =>
+                                  selectedQuizFileIds.includes(file.id)
+                                )
+                              )
+                            }
+                          >
+                            Quiz Selected ({selectedQuizFileIds.length})
+                          </Button>
+                        </div>
+                        {quizGroups.map((group) => (
+                          <div key={group.course ?? ""} className="space-y-2">
+                            {courses.length > 0 && (
+                              <div className="flex items-center justify-between">
+                                <h4 className="font-medium text-gray-700">
+                                  {group.course ?? "Not in a course"}
+                                </h4>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={group.quizableIds.length === 0}
+                                  onClick={() =>
+                                    toggleQuizGroup(group.quizableIds)
+                                  }
+                                >
+                                  {group.quizableIds.length > 0 &&
+                                  group.quizableIds.every((id) =>
+                                    selectedQuizFileIds.includes(id)
+                                  )
+                                    ? "Clear"
+                                    : group.course
+                                      ? "Select Course"
+                                      : "Select All"}
+                                </Button>
+                              </div>
+                            )}
+                            {group.files.map((file) => (
+                              <div
+                                key={file.id}
+                                className="flex items-center justify-between p-4 bg-white rounded-lg border"
+                              >
+                                <div className="flex items-center">
+                                  <input
+                                    type="checkbox"
+                                    className="h-4 w-4 mr-3 accent-primary"
+                                    aria-label={`Include ${file.name}`}
+                                    checked={selectedQuizFileIds.includes(file.id)}
+                                    disabled={file.extractionError !== null}
+                                    onChange={() => toggleQuizFile(file.id)}
+                                  />
+                                  <FileText className="w-5 h-5 mr-3 text-blue-500" />
+                                  <div>
+                                    <h4 className="font-medium">{file.name}</h4>
+                                    <p className="text-sm text-gray-500">
+                                      {file.extractionError ??
+                                        "Click to generate a quiz from this material"}
+                                    </p>
+                                  </div>
+                                </div>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={file.extractionError !== null}
+                                  onClick={() => setActiveQuizFiles([file])}
+                                >
+                                  Start Quiz
+                                </Button>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </>
+                    )}
                   </div>
                 )}
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="flashcards">
+            <Card>
+              <CardHeader>
+                <CardTitle>Flashcards</CardTitle>
+                <CardDescription>
+                  Drill key terms and ideas from your materials
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <FlashcardsPanel files={files} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="progress">
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Progress</CardTitle>
+                <CardDescription>
+                  Scores over time, your weakest topics, and your study streak
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ProgressPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
+      {viewerTarget && (
+        <DocumentViewer
+          target={viewerTarget}
+          onClose={() => setViewerTarget(null)}
+          onAsk={(chat) => {
+            setViewerTarget(null);
+            explainInChat(chat);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -21,10 +21,20 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useRouter } from "next/navigation";
 import { Loader2 } from "lucide-react";
+import { getJson, sendJson } from "@/lib/api/client";
+import { ApiRequestError } from "@/lib/api/errors";
+import type { Profile } from "@/lib/profiles/types";
 
-export default function OnboardPage() {
+interface OnboardPageProps {
+  // Editing an existing profile from the dashboard instead of first sign-in
+  editing?: boolean;
+}
+
+export default function OnboardPage({ editing = false }: OnboardPageProps) {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
+  const [isChecking, setIsChecking] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     studyLevel: "",
@@ -32,27 +42,68 @@ export default function OnboardPage() {
     learningStyle: "",
   });
 
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const { profile } = await getJson<{ profile: Profile }>("/api/profile");
+        if (!editing) {
+          // Returning learners skip onboarding
+          router.replace("/dashboard");
+          return;
+        }
+        setFormData({
+          name: profile.name,
+          studyLevel: profile.studyLevel,
+          mainSubject: profile.mainSubject,
+          learningStyle: profile.learningStyle,
+        });
+      } catch (error) {
+        if (!(error instanceof ApiRequestError && error.code === "not_found")) {
+          console.error("Error loading profile:", error);
+        }
+      }
+      setIsChecking(false);
+    };
+
+    loadProfile();
+  }, [editing, router]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
+    setError(null);
 
     try {
-      // Here you would typically save the user preferences to your database
-      await new Promise((resolve) => setTimeout(resolve, 1000)); // Simulated API call
+      await sendJson("PUT", "/api/profile", formData);
       router.push("/dashboard");
     } catch (error) {
       console.error("Error saving preferences:", error);
+      setError(
+        error instanceof ApiRequestError
+          ? error.message
+          : "Failed to save your profile. Please try again."
+      );
     } finally {
       setIsLoading(false);
     }
   };
 
+  if (isChecking) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gray-100">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-100 py-12 px-4 sm:px-6 lg:px-8">
       <div className="max-w-md mx-auto">
         <Card>
           <CardHeader>
-            <CardTitle>Complete Your Profile</CardTitle>
+            <CardTitle>
+              {editing ? "Edit Your Profile" : "Complete Your Profile"}
+            </CardTitle>
             <CardDescription>
               Help us personalize your learning experience
             </CardDescription>
@@ -138,14 +189,18 @@ export default function OnboardPage() {
                   </SelectContent>
                 </Select>
               </div>
+
+              {error && <p className="text-red-500 text-sm">{error}</p>}
             </CardContent>
             <CardFooter>
               <Button className="w-full" type="submit" disabled={isLoading}>
                 {isLoading ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Setting up your profile...
+                    {editing ? "Saving..." : "Setting up your profile..."}
                   </>
+                ) : editing ? (
+                  "Save Changes"
                 ) : (
                   "Continue to Dashboard"
                 )}
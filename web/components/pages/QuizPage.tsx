@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -8,97 +8,474 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
-import { AlertCircle, CheckCircle2, XCircle } from "lucide-react";
+import {
+  AlertCircle,
+  CheckCircle2,
+  FileText,
+  MessageSquare,
+  Mic,
+  MicOff,
+  RotateCcw,
+  XCircle,
+} from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-
-interface Question {
-  id: number;
-  question: string;
-  options: string[];
-  correctAnswer: number;
-  explanation: string;
-}
+import ExportButtons from "@/components/ExportButtons";
+import QuestionInput from "@/components/QuestionInput";
+import { useHandsFree } from "@/hooks/useHandsFree";
+import { useSpeechQueue } from "@/hooks/useSpeechQueue";
+import { postJson } from "@/lib/api/client";
+import type { AttemptAnswer } from "@/lib/attempts/types";
+import type { NewChat } from "@/lib/conversations/types";
+import { citationLabel } from "@/lib/documents/citations";
+import type { StoredFile } from "@/lib/files/types";
+import { explainInChat } from "@/lib/quiz/explain";
+import {
+  describeAnswer,
+  describeCorrectAnswer,
+  gradeLocally,
+  initialAnswer,
+  isAnswerComplete,
+} from "@/lib/quiz/grading";
+import {
+  canAnswerBySpeech,
+  feedbackScript,
+  isNextCommand,
+  isRepeatCommand,
+  questionScript,
+  retryScript,
+  spokenAnswer,
+} from "@/lib/quiz/spoken";
+import { formatSectionRange, type QuizSettings } from "@/lib/quiz/settings";
+import type {
+  GradeResult,
+  Question,
+  QuestionSource,
+  QuizAnswer,
+} from "@/lib/quiz/types";
+import type { ReviewItem } from "@/lib/reviews/types";
+import { transcribe } from "@/lib/transcription/client";
 
 interface QuizProps {
-  fileContent?: string;
-  fileName?: string;
+  // One quiz balanced across all of these
+  files?: StoredFile[];
+  settings?: QuizSettings;
+  // Quiz on these saved questions instead of generating new ones
+  deck?: ReviewItem[];
   onClose?: () => void;
+  // Hands a finished question to Wiz AI
+  onExplainInChat?: (chat: NewChat) => void;
+  // Shows where a question came from; without it the file opens in a new tab
+  onOpenSource?: (source: QuestionSource) => void;
+}
+
+// Opens the document at the page the question came from
+function openSource(source: QuestionSource) {
+  const url = `/api/files/${source.fileId}/content`;
+  window.open(
+    source.location.kind === "page" ? `${url}#page=${source.location.number}` : url,
+    "_blank"
+  );
 }
 
-const QuizPage = ({ fileContent, fileName, onClose }: QuizProps) => {
+function SourceLink({
+  source,
+  onOpen = openSource,
+}: {
+  source: QuestionSource;
+  onOpen?: (source: QuestionSource) => void;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={() => onOpen(source)}
+      className="flex items-center text-xs text-blue-600 hover:underline"
+    >
+      <FileText className="w-3 h-3 mr-1" />
+      {citationLabel(source)}
+    </button>
+  );
+}
+
+// One answered question on the results screen
+function ReviewedQuestion({
+  number,
+  question,
+  answer,
+  correct,
+  score,
+  onExplain,
+  onOpenSource,
+}: {
+  number: number;
+  question: Question;
+  answer: QuizAnswer;
+  correct: boolean;
+  score: number;
+  onExplain?: () => void;
+  onOpenSource?: (source: QuestionSource) => void;
+}) {
+  return (
+    <div className="p-4 bg-white rounded-lg border space-y-2 text-sm">
+      <div className="flex items-start gap-2">
+        {correct ? (
+          <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+        ) : (
+          <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+        )}
+        <p className="font-medium">
+          {number}. {question.question}
+        </p>
+      </div>
+      <div className="pl-6 space-y-2">
+        <p>
+          <span className="text-gray-500">Your answer: </span>
+          {describeAnswer(question, answer) || "(no answer)"}
+          {!correct && score > 0 && (
+            <span className="text-gray-500">
+              {" "}
+              ({Math.round(score * 100)}% right)
+            </span>
+          )}
+        </p>
+        {!correct && (
+          <p>
+            <span className="text-gray-500">Correct answer: </span>
+            {describeCorrectAnswer(question)}
+          </p>
+        )}
+        <p className="text-gray-700">{question.explanation}</p>
+        {question.source && (
+          <div className="space-y-1">
+            {question.source.excerpt && (
+              <blockquote className="border-l-2 border-gray-300 pl-3 italic text-gray-600">
+                {question.source.excerpt}
+              </blockquote>
+            )}
+            <SourceLink source={question.source} onOpen={onOpenSource} />
+          </div>
+        )}
+        {onExplain && (
+          <Button variant="outline" size="sm" onClick={onExplain}>
+            <MessageSquare className="w-4 h-4 mr-2" />
+            Explain More in Chat
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const QuizPage = ({
+  files,
+  settings,
+  deck,
+  onClose,
+  onExplainInChat,
+  onOpenSource,
+}: QuizProps) => {
   const [questions, setQuestions] = useState<Question[]>([]);
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null);
+  const [answer, setAnswer] = useState<QuizAnswer | null>(null);
+  // The current question's grade, once the answer has been checked
+  const [result, setResult] = useState<GradeResult | null>(null);
+  const [grading, setGrading] = useState(false);
+  const [gradeError, setGradeError] = useState<string | null>(null);
   const [showResult, setShowResult] = useState(false);
   const [score, setScore] = useState(0);
   const [answered, setAnswered] = useState<boolean[]>([]);
-  const [showExplanation, setShowExplanation] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [voiceMode, setVoiceMode] = useState(false);
+  const [transcribing, setTranscribing] = useState(false);
+  const [heard, setHeard] = useState<string | null>(null);
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+  // The attempt being taken, saved to the learner's history at the end
+  const attemptRef = useRef<AttemptAnswer[]>([]);
+  // Where each question sat in the quiz as first loaded, so a retry of the
+  // missed ones keeps their place in the review deck
+  const originsRef = useRef<number[]>([]);
+  const startedAtRef = useRef(new Date());
+  const questionStartedAtRef = useRef(Date.now());
+  const { isSpeaking, speak, stop: stopSpeaking } = useSpeechQueue((error) =>
+    setVoiceError(error.message)
+  );
+
+  const quizTitle = !files?.length
+    ? "Quiz"
+    : files.length === 1
+      ? files[0].name
+      : `${files[0].name} and ${files.length - 1} more`;
 
-  // Simulate quiz generation based on file content
+  const beginQuiz = useCallback((list: Question[], origins: number[]) => {
+    setQuestions(list);
+    setAnswered(new Array(list.length).fill(false));
+    setCurrentQuestion(0);
+    setAnswer(list[0] ? initialAnswer(list[0]) : null);
+    setResult(null);
+    setGradeError(null);
+    setShowResult(false);
+    setScore(0);
+    attemptRef.current = [];
+    originsRef.current = origins;
+    startedAtRef.current = new Date();
+    questionStartedAtRef.current = Date.now();
+  }, []);
+
+  // Generate the quiz from the file content on the server
   useEffect(() => {
+    const controller = new AbortController();
+
     const generateQuiz = async () => {
       setLoading(true);
-      // This is a mock example
-      const mockQuestions: Question[] = [
-        {
-          id: 1,
-          question: "What is the main topic covered in this material?",
-          options: ["True", "False"],
-          correctAnswer: 0,
-          explanation: "This is the explanation for the correct answer."
-        },
-        {
-          id: 2,
-          question: "Which concept is most emphasized in the content?",
-          options: ["True", "False"],
-          correctAnswer: 1,
-          explanation: "Here's why False is correct..."
-        },
-      ];
-      
-      setQuestions(mockQuestions);
-      setAnswered(new Array(mockQuestions.length).fill(false));
-      setLoading(false);
+      setError(null);
+      try {
+        const data = deck
+          ? {
+              questions: deck.map((item, index) => ({
+                ...item.question,
+                id: index + 1,
+              })),
+            }
+          : await postJson<{ questions: Question[] }>(
+              "/api/quiz",
+              { fileIds: files?.map((file) => file.id), settings },
+              controller.signal
+            );
+
+        beginQuiz(
+          data.questions,
+          data.questions.map((_, index) => index)
+        );
+        setLoading(false);
+      } catch (error) {
+        if ((error as Error).name === "AbortError") return;
+        console.error("Error generating quiz:", error);
+        setError((error as Error).message);
+        setLoading(false);
+      }
     };
 
     generateQuiz();
-  }, [fileContent]);
+    return () => controller.abort();
+  }, [files, settings, deck, beginQuiz]);
+
+  // Voice mode reads each question aloud as it comes up, then the score.
+  // They're apart so a change of score doesn't repeat the question.
+  useEffect(() => {
+    if (!voiceMode || loading || questions.length === 0 || showResult) return;
+    speak(
+      currentQuestion,
+      questionScript(questions[currentQuestion], currentQuestion + 1)
+    );
+  }, [voiceMode, loading, questions, currentQuestion, showResult, speak]);
+
+  useEffect(() => {
+    if (!voiceMode || loading || questions.length === 0 || !showResult) return;
+    speak(
+      questions.length,
+      `Quiz complete! You scored ${score} out of ${questions.length}.`
+    );
+  }, [voiceMode, loading, questions.length, showResult, score, speak]);
+
+  const toggleVoiceMode = () => {
+    if (voiceMode) stopSpeaking();
+    setVoiceMode(!voiceMode);
+    setHeard(null);
+    setVoiceError(null);
+  };
+
+  const handleSpokenAnswer = async (audio: Blob) => {
+    const question = questions[currentQuestion];
+    setTranscribing(true);
+    setVoiceError(null);
+    try {
+      const text = await transcribe(audio);
+      setHeard(text);
+
+      if (isRepeatCommand(text)) {
+        speak(
+          currentQuestion,
+          result
+            ? feedbackScript(question, result)
+            : questionScript(question, currentQuestion + 1)
+        );
+      } else if (result) {
+        if (isNextCommand(text)) {
+          await handleNext();
+        } else {
+          speak(
+            currentQuestion,
+            'Say "next" to continue, or "repeat" to hear that again.'
+          );
+        }
+      } else if (!canAnswerBySpeech(question)) {
+        if (isNextCommand(text) && isAnswerComplete(answer)) {
+          await handleNext();
+        } else {
+          speak(currentQuestion, retryScript(question));
+        }
+      } else {
+        const given = spokenAnswer(question, text);
+        if (given === null) {
+          speak(currentQuestion, retryScript(question));
+        } else {
+          setAnswer(given);
+          await handleCheck(given);
+        }
+      }
+    } catch (error) {
+      console.error("Voice answer error:", error);
+      setVoiceError((error as Error).message);
+    } finally {
+      setTranscribing(false);
+    }
+  };
+
+  const { level, hearing } = useHandsFree({
+    enabled: voiceMode && !loading && !error && !showResult,
+    paused: transcribing || grading,
+    speaking: isSpeaking,
+    onUtterance: handleSpokenAnswer,
+    onBargeIn: stopSpeaking,
+    onError: (error) => {
+      setVoiceError(error.message);
+      setVoiceMode(false);
+    },
+  });
 
-  const handleAnswer = (answerIndex: number) => {
-    setSelectedAnswer(answerIndex);
+  const voiceStatus = hearing
+    ? "Hearing you..."
+    : transcribing || grading
+      ? "Checking your answer..."
+      : isSpeaking
+        ? "Reading aloud - answer any time"
+        : result
+          ? 'Say "next" to continue'
+          : canAnswerBySpeech(questions[currentQuestion])
+            ? "Listening - say your answer"
+            : 'Answer on screen, then say "next"';
+
+  // Short answers go to the LLM; everything else is graded right here
+  const checkAnswer = async (given = answer) => {
+    const question = questions[currentQuestion];
+    if (result) return result;
+    if (!given || !isAnswerComplete(given)) return null;
+
+    setGrading(true);
+    setGradeError(null);
+    try {
+      const graded =
+        gradeLocally(question, given) ??
+        (
+          await postJson<{ result: GradeResult }>("/api/quiz/grade", {
+            question,
+            answer: given.type === "short_answer" ? given.text : "",
+          })
+        ).result;
+      setResult(graded);
+      return graded;
+    } catch (error) {
+      console.error("Answer grading error:", error);
+      setGradeError((error as Error).message);
+      return null;
+    } finally {
+      setGrading(false);
+    }
+  };
+
+  const handleCheck = async (given = answer) => {
+    const graded = await checkAnswer(given);
+    if (graded && voiceMode) {
+      speak(currentQuestion, feedbackScript(questions[currentQuestion], graded));
+    }
+  };
+
+  // Quizzes and review decks can mix documents, so each question carries
+  // its own source
+  const sourceOf = (index: number) => {
+    const source = questions[index].source;
+    if (source) return { fileId: source.fileId, fileName: source.fileName };
+    const item = deck?.[originsRef.current[index]];
+    return {
+      fileId: item?.fileId ?? null,
+      fileName: item?.fileName ?? null,
+    };
+  };
+
+  // Feeds the spaced repetition schedule; the quiz carries on if it fails
+  const recordAnswer = (question: Question, correct: boolean) => {
+    postJson("/api/reviews", {
+      ...sourceOf(currentQuestion),
+      question,
+      correct,
+    }).catch((error) => console.error("Error saving answer:", error));
   };
 
-  const handleNext = () => {
-    if (selectedAnswer !== null) {
-      if (selectedAnswer === questions[currentQuestion].correctAnswer) {
+  const saveAttempt = (answers: AttemptAnswer[]) => {
+    postJson("/api/attempts", {
+      kind: deck ? "review" : "quiz",
+      title: deck ? "Review deck" : quizTitle,
+      startedAt: startedAtRef.current.toISOString(),
+      answers,
+    }).catch((error) => console.error("Error saving quiz results:", error));
+  };
+
+  const startQuestion = (index: number) => {
+    questionStartedAtRef.current = Date.now();
+    setCurrentQuestion(index);
+    setAnswer(initialAnswer(questions[index]));
+    setResult(null);
+    setGradeError(null);
+  };
+
+  const handleNext = async () => {
+    const graded = await checkAnswer();
+    if (graded && answer) {
+      const question = questions[currentQuestion];
+      if (graded.correct) {
         setScore(prev => prev + 1);
       }
+      recordAnswer(question, graded.correct);
+      attemptRef.current = [
+        ...attemptRef.current,
+        {
+          ...sourceOf(currentQuestion),
+          question,
+          answer,
+          correct: graded.correct,
+          score: graded.score,
+          timeMs: Date.now() - questionStartedAtRef.current,
+        },
+      ];
       
       const newAnswered = [...answered];
       newAnswered[currentQuestion] = true;
       setAnswered(newAnswered);
 
       if (currentQuestion + 1 < questions.length) {
-        setCurrentQuestion(prev => prev + 1);
-        setSelectedAnswer(null);
-        setShowExplanation(false);
+        startQuestion(currentQuestion + 1);
       } else {
+        saveAttempt(attemptRef.current);
         setShowResult(true);
       }
     }
   };
 
-  const restartQuiz = () => {
-    setCurrentQuestion(0);
-    setSelectedAnswer(null);
-    setShowResult(false);
-    setScore(0);
-    setAnswered(new Array(questions.length).fill(false));
-    setShowExplanation(false);
+  const restartQuiz = () => beginQuiz(questions, originsRef.current);
+
+  // Quizzes again on just the questions answered wrong this time
+  const retryMissed = () => {
+    const missed = attemptRef.current.flatMap((entry, index) =>
+      entry.correct ? [] : [index]
+    );
+    beginQuiz(
+      missed.map((index, position) => ({
+        ...questions[index],
+        id: position + 1,
+      })),
+      missed.map((index) => originsRef.current[index])
+    );
   };
 
   if (loading) {
@@ -107,14 +484,39 @@ const QuizPage = ({ fileContent, fileName, onClose }: QuizProps) => {
         <CardContent className="p-6">
           <div className="flex items-center justify-center space-x-2">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
-            <span>Generating quiz from {fileName}...</span>
+            <span>
+              {deck ? "Preparing your review..." : `Generating quiz from ${quizTitle}...`}
+            </span>
           </div>
         </CardContent>
       </Card>
     );
   }
 
+  if (error) {
+    return (
+      <Card className="w-full">
+        <CardContent className="p-6">
+          <Alert className="bg-red-50">
+            <XCircle className="h-4 w-4 text-red-600" />
+            <AlertTitle>Couldn&apos;t generate a quiz</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        </CardContent>
+        <CardFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </CardFooter>
+      </Card>
+    );
+  }
+
   if (showResult) {
+    const missedCount = attemptRef.current.filter(
+      (entry) => !entry.correct
+    ).length;
+
     return (
       <Card className="w-full">
         <CardHeader>
@@ -123,10 +525,10 @@ const QuizPage = ({ fileContent, fileName, onClose }: QuizProps) => {
             You scored {score} out of {questions.length}
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <Progress 
             value={(score / questions.length) * 100} 
-            className="h-2 mb-4"
+            className="h-2"
           />
           <Alert className={score === questions.length ? "bg-green-50" : "bg-blue-50"}>
             <AlertCircle className="h-4 w-4" />
@@ -138,17 +540,55 @@ const QuizPage = ({ fileContent, fileName, onClose }: QuizProps) => {
             <AlertDescription>
               {score === questions.length 
                 ? "You've mastered this material!" 
-                : "Review the material and try again to improve your score."}
+                : "Go through the questions you missed below, then retry them."}
             </AlertDescription>
           </Alert>
+
+          <div className="space-y-3">
+            <h4 className="font-medium">Review your answers</h4>
+            {attemptRef.current.map((entry, index) => (
+              <ReviewedQuestion
+                key={index}
+                number={index + 1}
+                question={questions[index]}
+                answer={entry.answer}
+                correct={entry.correct}
+                score={entry.score}
+                onExplain={
+                  onExplainInChat
+                    ? () =>
+                        onExplainInChat(
+                          explainInChat(questions[index], entry.answer, entry.correct)
+                        )
+                    : undefined
+                }
+                onOpenSource={onOpenSource}
+              />
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between pt-2 border-t">
+            <span className="text-sm text-gray-500">Save these questions as flashcards</span>
+            <ExportButtons
+              source={{ title: deck ? "Review deck" : quizTitle, questions }}
+            />
+          </div>
         </CardContent>
         <CardFooter className="flex justify-between">
           <Button variant="outline" onClick={onClose}>
             Close
           </Button>
-          <Button onClick={restartQuiz}>
-            Try Again
-          </Button>
+          <div className="flex gap-2">
+            {missedCount > 0 && missedCount < questions.length && (
+              <Button variant="outline" onClick={retryMissed}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Retry {missedCount} Missed
+              </Button>
+            )}
+            <Button onClick={restartQuiz}>
+              Try Again
+            </Button>
+          </div>
         </CardFooter>
       </Card>
     );
@@ -157,9 +597,29 @@ const QuizPage = ({ fileContent, fileName, onClose }: QuizProps) => {
   return (
     <Card className="w-full">
       <CardHeader>
-        <CardTitle>Question {currentQuestion + 1} of {questions.length}</CardTitle>
+        <div className="flex items-center justify-between">
+          <CardTitle>Question {currentQuestion + 1} of {questions.length}</CardTitle>
+          <Button
+            variant={voiceMode ? "default" : "outline"}
+            size="sm"
+            onClick={toggleVoiceMode}
+          >
+            {voiceMode ? (
+              <MicOff className="w-4 h-4 mr-2" />
+            ) : (
+              <Mic className="w-4 h-4 mr-2" />
+            )}
+            {voiceMode ? "Exit Voice Mode" : "Voice Mode"}
+          </Button>
+        </div>
         <CardDescription>
-          Quiz on: {fileName}
+          {deck
+            ? `Review: ${sourceOf(currentQuestion).fileName ?? "saved question"}`
+            : `Quiz on: ${quizTitle}${
+                settings?.sections
+                  ? ` (${formatSectionRange(settings.sections)})`
+                  : ""
+              }`}
         </CardDescription>
         <Progress 
           value={(currentQuestion / questions.length) * 100} 
@@ -167,38 +627,62 @@ const QuizPage = ({ fileContent, fileName, onClose }: QuizProps) => {
         />
       </CardHeader>
       <CardContent className="space-y-4">
+        {voiceMode && (
+          <div className="space-y-1 text-sm text-gray-600">
+            <div className="flex items-center gap-3">
+              <span className="w-64">{voiceStatus}</span>
+              <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${hearing ? "bg-green-500" : "bg-blue-400"}`}
+                  style={{ width: `${Math.min(100, level * 800)}%` }}
+                />
+              </div>
+            </div>
+            {heard && <p>Heard: &ldquo;{heard}&rdquo;</p>}
+          </div>
+        )}
+        {voiceError && <p className="text-sm text-red-500">{voiceError}</p>}
         <div className="text-lg font-medium">
           {questions[currentQuestion].question}
         </div>
-        <RadioGroup
-          onValueChange={(value) => handleAnswer(parseInt(value))}
-          value={selectedAnswer?.toString()}
-        >
-          {questions[currentQuestion].options.map((option, index) => (
-            <div key={index} className="flex items-center space-x-2">
-              <RadioGroupItem value={index.toString()} id={`option-${index}`} />
-              <Label htmlFor={`option-${index}`}>{option}</Label>
-            </div>
-          ))}
-        </RadioGroup>
+        <QuestionInput
+          question={questions[currentQuestion]}
+          answer={answer}
+          onChange={setAnswer}
+          disabled={result !== null || grading}
+        />
+        {gradeError && <p className="text-sm text-red-500">{gradeError}</p>}
         
-        {showExplanation && (
-          <Alert className={
-            selectedAnswer === questions[currentQuestion].correctAnswer 
-              ? "bg-green-50" 
-              : "bg-red-50"
-          }>
-            {selectedAnswer === questions[currentQuestion].correctAnswer 
+        {result && (
+          <Alert className={result.correct ? "bg-green-50" : "bg-red-50"}>
+            {result.correct
               ? <CheckCircle2 className="h-4 w-4 text-green-600" />
               : <XCircle className="h-4 w-4 text-red-600" />
             }
             <AlertTitle>
-              {selectedAnswer === questions[currentQuestion].correctAnswer 
-                ? "Correct!" 
-                : "Incorrect"}
+              {result.correct
+                ? "Correct!"
+                : result.score > 0
+                  ? "Partly right"
+                  : "Incorrect"}
             </AlertTitle>
-            <AlertDescription>
-              {questions[currentQuestion].explanation}
+            <AlertDescription className="space-y-1">
+              {result.feedback && <p>{result.feedback}</p>}
+              {!result.correct && (
+                <p>
+                  {questions[currentQuestion].type === "short_answer"
+                    ? "A full answer: "
+                    : "Answer: "}
+                  {describeCorrectAnswer(questions[currentQuestion])}
+                </p>
+              )}
+              <p>{questions[currentQuestion].explanation}</p>
+              {questions[currentQuestion].source && (
+                <SourceLink
+                  source={questions[currentQuestion].source}
+                  onOpen={onOpenSource}
+                />
+              )}
             </AlertDescription>
           </Alert>
         )}
@@ -206,14 +690,14 @@ const QuizPage = ({ fileContent, fileName, onClose }: QuizProps) => {
       <CardFooter className="flex justify-between">
         <Button 
           variant="outline" 
-          onClick={() => setShowExplanation(true)}
-          disabled={selectedAnswer === null}
+          onClick={() => handleCheck()}
+          disabled={!isAnswerComplete(answer) || result !== null || grading}
         >
-          Show Explanation
+          {grading ? "Checking..." : "Check Answer"}
         </Button>
         <Button 
           onClick={handleNext}
-          disabled={selectedAnswer === null}
+          disabled={!isAnswerComplete(answer) || grading}
         >
           {currentQuestion + 1 === questions.length ? "Finish" : "Next"}
         </Button>
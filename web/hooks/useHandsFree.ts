@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { createVoiceActivityDetector, rms } from "@/lib/voice/vad";
+
+const SPEECH_THRESHOLD = 0.02;
+// Speech has to be louder to interrupt Wiz AI, so its own voice leaking
+// into the mic doesn't count
+const BARGE_IN_THRESHOLD = 0.06;
+const MIN_SPEECH_MS = 120;
+const SILENCE_MS = 900;
+// Shorter recordings are coughs and clicks, not questions
+const MIN_UTTERANCE_MS = 500;
+const METER_INTERVAL_MS = 50;
+
+interface HandsFreeOptions {
+  enabled: boolean;
+  // Stop listening, e.g. while a reply is being generated
+  paused: boolean;
+  // Wiz AI is talking: only louder speech counts, and it interrupts
+  speaking: boolean;
+  onUtterance: (audio: Blob) => void;
+  onBargeIn: () => void;
+  onError: (error: Error) => void;
+}
+
+// Continuous listening: records each utterance with MediaRecorder, starting
+// and stopping on voice activity, and reports a 0-1 input level for a meter.
+export function useHandsFree(options: HandsFreeOptions) {
+  const [level, setLevel] = useState(0);
+  const [hearing, setHearing] = useState(false);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!options.enabled) return;
+
+    let cancelled = false;
+    let frame = 0;
+    let stream: MediaStream | null = null;
+    let context: AudioContext | null = null;
+    let recorder: MediaRecorder | null = null;
+
+    const stopRecording = (deliver: boolean) => {
+      if (!recorder) return;
+      const active = recorder;
+      recorder = null;
+      setHearing(false);
+      if (!deliver) active.onstop = null;
+      active.stop();
+    };
+
+    const startRecording = (source: MediaStream) => {
+      const chunks: Blob[] = [];
+      const startedAt = Date.now();
+      recorder = new MediaRecorder(source, { mimeType: "audio/webm" });
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        if (chunks.length === 0 || Date.now() - startedAt < MIN_UTTERANCE_MS) {
+          return;
+        }
+        optionsRef.current.onUtterance(new Blob(chunks, { type: "audio/webm" }));
+      };
+      recorder.start();
+      setHearing(true);
+    };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true },
+        });
+      } catch (error) {
+        console.error("Error starting hands-free mode:", error);
+        optionsRef.current.onError(new Error("Failed to access microphone"));
+        return;
+      }
+      if (cancelled) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      context = new AudioContext();
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      context.createMediaStreamSource(stream).connect(analyser);
+      const samples = new Float32Array(analyser.fftSize);
+      const vad = createVoiceActivityDetector({
+        threshold: SPEECH_THRESHOLD,
+        minSpeechMs: MIN_SPEECH_MS,
+        silenceMs: SILENCE_MS,
+      });
+      let meterUpdatedAt = 0;
+
+      const tick = (now: number) => {
+        frame = requestAnimationFrame(tick);
+        analyser.getFloatTimeDomainData(samples);
+        const current = rms(samples);
+        if (now - meterUpdatedAt >= METER_INTERVAL_MS) {
+          meterUpdatedAt = now;
+          setLevel(current);
+        }
+
+        const { paused, speaking } = optionsRef.current;
+        if (paused) {
+          stopRecording(false);
+          vad.reset();
+          return;
+        }
+
+        const event = vad.update(
+          current,
+          now,
+          speaking ? BARGE_IN_THRESHOLD : SPEECH_THRESHOLD
+        );
+        if (event === "start") {
+          if (speaking) optionsRef.current.onBargeIn();
+          startRecording(stream!);
+        } else if (event === "end") {
+          stopRecording(true);
+        }
+      };
+      frame = requestAnimationFrame(tick);
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      stopRecording(false);
+      stream?.getTracks().forEach((track) => track.stop());
+      context?.close();
+      setLevel(0);
+    };
+  }, [options.enabled]);
+
+  return { level, hearing };
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { readJson } from "@/lib/api/client";
+import { speakable, splitSentences } from "@/lib/speech/sentences";
+
+// Sentences synthesized ahead of the one playing
+const PREFETCH = 2;
+
+interface Segment {
+  index: number;
+  text: string;
+  audio?: Promise<Blob>;
+}
+
+// One spoken reply. `key` identifies the message so it can be highlighted.
+interface Session {
+  key: number;
+  controller: AbortController;
+  segments: Segment[];
+  sentenceCount: number;
+  next: number;
+  playing: boolean;
+  // No more sentences will be added
+  closed: boolean;
+}
+
+export interface SpeechPosition {
+  key: number;
+  sentence: number;
+}
+
+async function synthesize(text: string, signal: AbortSignal) {
+  const response = await fetch("/api/speech", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ text }),
+    signal,
+  });
+  if (!response.ok) {
+    // Throws the route's typed error
+    await readJson(response);
+  }
+  return response.blob();
+}
+
+// Speaks replies sentence by sentence: each sentence is synthesized as soon
+// as it's known and played in order, so audio starts after the first one.
+export function useSpeechQueue(onError: (error: Error) => void) {
+  const [position, setPosition] = useState<SpeechPosition | null>(null);
+  const sessionRef = useRef<Session | null>(null);
+  // A reply the learner silenced keeps streaming without being spoken
+  const stoppedKeyRef = useRef<number | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const stop = useCallback(() => {
+    const session = sessionRef.current;
+    if (session) {
+      session.controller.abort();
+      stoppedKeyRef.current = session.key;
+    }
+    sessionRef.current = null;
+    audioRef.current?.pause();
+    setPosition(null);
+  }, []);
+
+  const playNext = useCallback(
+    async (session: Session) => {
+      if (sessionRef.current !== session || session.playing) return;
+
+      const segment = session.segments[session.next];
+      if (!segment) {
+        // Caught up with the stream: wait for more, or finish
+        if (session.closed) stop();
+        return;
+      }
+
+      session.playing = true;
+      for (const upcoming of session.segments.slice(
+        session.next,
+        session.next + PREFETCH + 1
+      )) {
+        upcoming.audio ??= synthesize(upcoming.text, session.controller.signal);
+      }
+
+      try {
+        const blob = await segment.audio!;
+        if (sessionRef.current !== session) return;
+
+        const audio = (audioRef.current ??= new Audio());
+        const url = URL.createObjectURL(blob);
+        setPosition({ key: session.key, sentence: segment.index });
+        audio.src = url;
+        await new Promise<void>((resolve, reject) => {
+          // Pausing is how stop() interrupts playback
+          audio.onended = () => resolve();
+          audio.onpause = () => resolve();
+          audio.onerror = () => reject(new Error("Audio playback failed"));
+          audio.play().catch(reject);
+        }).finally(() => URL.revokeObjectURL(url));
+      } catch (error) {
+        if (session.controller.signal.aborted) return;
+        console.error("Error generating speech:", error);
+        onErrorRef.current(error as Error);
+        stop();
+        return;
+      }
+
+      session.playing = false;
+      session.next++;
+      playNext(session);
+    },
+    [stop]
+  );
+
+  // Queues the sentences of `text` for message `key`. While a reply is still
+  // streaming, pass final=false to hold back the unfinished last sentence.
+  const feed = useCallback(
+    (key: number, text: string, final = true) => {
+      if (stoppedKeyRef.current === key) return;
+
+      let session = sessionRef.current;
+      if (!session || session.key !== key || session.closed) {
+        stop();
+        session = {
+          key,
+          controller: new AbortController(),
+          segments: [],
+          sentenceCount: 0,
+          next: 0,
+          playing: false,
+          closed: false,
+        };
+        sessionRef.current = session;
+      }
+
+      const sentences = splitSentences(text);
+      const complete = final ? sentences.length : sentences.length - 1;
+      for (let index = session.sentenceCount; index < complete; index++) {
+        const spoken = speakable(sentences[index]);
+        if (spoken) session.segments.push({ index, text: spoken });
+      }
+      session.sentenceCount = Math.max(session.sentenceCount, complete);
+      session.closed = final;
+
+      setPosition((prev) => prev ?? { key, sentence: -1 });
+      playNext(session);
+    },
+    [playNext, stop]
+  );
+
+  const speak = useCallback(
+    (key: number, text: string) => {
+      stop();
+      stoppedKeyRef.current = null;
+      feed(key, text);
+    },
+    [feed, stop]
+  );
+
+  useEffect(() => stop, [stop]);
+
+  return { position, isSpeaking: position !== null, feed, speak, stop };
+}
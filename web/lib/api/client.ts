@@ -0,0 +1,86 @@
+import { ApiRequestError, type ApiErrorBody } from "./errors";
+
+// Parses a JSON API response, throwing ApiRequestError for error payloads
+export async function readJson<T>(response: Response): Promise<T> {
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const body = data as Partial<ApiErrorBody> | null;
+    throw new ApiRequestError(
+      body?.code ?? "internal_error",
+      body?.error ?? "Something went wrong. Please try again.",
+      response.status
+    );
+  }
+  return data as T;
+}
+
+export async function getJson<T>(url: string, signal?: AbortSignal): Promise<T> {
+  return readJson<T>(await fetch(url, { signal }));
+}
+
+export async function sendJson<T>(
+  method: "POST" | "PUT" | "PATCH" | "DELETE",
+  url: string,
+  body?: unknown,
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal,
+  });
+  return readJson<T>(response);
+}
+
+export function postJson<T>(url: string, body: unknown, signal?: AbortSignal) {
+  return sendJson<T>("POST", url, body, signal);
+}
+
+// Yields each line of a newline-delimited JSON response as it arrives
+export async function* readJsonLines<T>(response: Response): AsyncGenerator<T> {
+  if (!response.ok || !response.body) {
+    await readJson(response);
+    return;
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffered += value;
+    const lines = buffered.split("\n");
+    buffered = lines.pop()!;
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T;
+    }
+  }
+  if (buffered.trim()) yield JSON.parse(buffered) as T;
+}
+
+// Posts a JSON request and saves the file the response carries, named as
+// the server's Content-Disposition says
+export async function downloadFile(url: string, body: unknown, fallbackName: string) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) await readJson(response);
+
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const encoded = /filename\*=UTF-8''([^;]+)/i.exec(disposition)?.[1];
+  const href = URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = href;
+  link.download = encoded ? decodeURIComponent(encoded) : fallbackName;
+  link.click();
+  URL.revokeObjectURL(href);
+}
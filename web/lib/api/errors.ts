@@ -0,0 +1,27 @@
+export type ApiErrorCode =
+  | "unauthorized"
+  | "bad_request"
+  | "not_found"
+  | "payload_too_large"
+  | "unsupported_media_type"
+  | "unprocessable"
+  | "rate_limited"
+  | "upstream_error"
+  | "internal_error";
+
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+}
+
+export class ApiRequestError extends Error {
+  code: ApiErrorCode;
+  status: number;
+
+  constructor(code: ApiErrorCode, message: string, status: number) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.code = code;
+    this.status = status;
+  }
+}
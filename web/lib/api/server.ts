@@ -0,0 +1,54 @@
+import OpenAI from "openai";
+import { getServerSession } from "next-auth";
+import { NextResponse } from "next/server";
+import { authOptions } from "@/app/auth/auth";
+import type { ApiErrorBody, ApiErrorCode } from "./errors";
+
+const STATUS: Record<ApiErrorCode, number> = {
+  unauthorized: 401,
+  bad_request: 400,
+  not_found: 404,
+  payload_too_large: 413,
+  unsupported_media_type: 415,
+  unprocessable: 422,
+  rate_limited: 429,
+  upstream_error: 502,
+  internal_error: 500,
+};
+
+export function apiError(code: ApiErrorCode, message: string) {
+  return NextResponse.json<ApiErrorBody>(
+    { error: message, code },
+    { status: STATUS[code] },
+  );
+}
+
+// Returns the signed-in user's id, or null when the request is anonymous
+export async function getUserId(): Promise<string | null> {
+  const session = await getServerSession(authOptions);
+  return session?.user?.id ?? null;
+}
+
+export function unauthorized() {
+  return apiError("unauthorized", "Please sign in to continue");
+}
+
+// Turns errors from the OpenAI SDK into something the UI can explain
+export function describeError(error: unknown, fallback: string): ApiErrorBody {
+  if (error instanceof OpenAI.APIError) {
+    if (error.status === 429) {
+      return {
+        error:
+          "Wiz AI is getting a lot of questions right now. Please try again in a moment.",
+        code: "rate_limited",
+      };
+    }
+    return { error: fallback, code: "upstream_error" };
+  }
+  return { error: fallback, code: "internal_error" };
+}
+
+export function upstreamError(error: unknown, fallback: string) {
+  const { error: message, code } = describeError(error, fallback);
+  return apiError(code, message);
+}
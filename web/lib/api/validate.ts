@@ -0,0 +1,4 @@
+// Narrows a request field to one of a fixed set of string values
+export function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && (values as readonly string[]).includes(value);
+}
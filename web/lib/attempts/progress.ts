@@ -0,0 +1,176 @@
+import type { AttemptAnswer, QuizAttempt } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TREND_LENGTH = 20;
+const WEAKEST_TOPIC_COUNT = 3;
+
+export interface TrendPoint {
+  attemptId: string;
+  title: string;
+  completedAt: string;
+  percent: number;
+}
+
+export interface TopicProgress {
+  topic: string;
+  answered: number;
+  correct: number;
+  percent: number;
+}
+
+export interface DocumentProgress {
+  fileId: string;
+  fileName: string;
+  answered: number;
+  correct: number;
+  percent: number;
+  averageTimeMs: number;
+  // Topics with at least one miss, weakest first
+  weakestTopics: TopicProgress[];
+}
+
+export interface StreakProgress {
+  // Consecutive days with a finished quiz, counting today or yesterday
+  current: number;
+  longest: number;
+  studiedToday: boolean;
+}
+
+export interface ProgressSummary {
+  attempts: number;
+  answered: number;
+  correct: number;
+  percent: number;
+  averageTimeMs: number;
+  // The most recent attempts, oldest first
+  trend: TrendPoint[];
+  // Weakest documents first
+  documents: DocumentProgress[];
+  streak: StreakProgress;
+}
+
+export interface ProgressOptions {
+  now?: Date;
+  // The learner's Date#getTimezoneOffset(), so days break at their midnight
+  offsetMinutes?: number;
+}
+
+function percent(correct: number, total: number) {
+  return total ? Math.round((correct / total) * 100) : 0;
+}
+
+function averageTime(answers: AttemptAnswer[]) {
+  if (answers.length === 0) return 0;
+  const total = answers.reduce((sum, answer) => sum + answer.timeMs, 0);
+  return Math.round(total / answers.length);
+}
+
+function weakestTopics(answers: AttemptAnswer[]): TopicProgress[] {
+  const topics = new Map<string, TopicProgress>();
+  for (const { question, correct } of answers) {
+    const name = question.topic?.trim();
+    if (!name) continue;
+
+    const key = name.toLowerCase();
+    const stats = topics.get(key) ?? {
+      topic: name,
+      answered: 0,
+      correct: 0,
+      percent: 0,
+    };
+    stats.answered++;
+    if (correct) stats.correct++;
+    topics.set(key, stats);
+  }
+
+  return Array.from(topics.values())
+    .filter((stats) => stats.correct < stats.answered)
+    .map((stats) => ({ ...stats, percent: percent(stats.correct, stats.answered) }))
+    .sort((a, b) => a.percent - b.percent || b.answered - a.answered)
+    .slice(0, WEAKEST_TOPIC_COUNT);
+}
+
+function documentProgress(attempts: QuizAttempt[]): DocumentProgress[] {
+  const byFile = new Map<string, { fileName: string; answers: AttemptAnswer[] }>();
+  for (const attempt of attempts) {
+    for (const answer of attempt.answers) {
+      if (!answer.fileId) continue;
+      const entry = byFile.get(answer.fileId) ?? { fileName: "", answers: [] };
+      // Attempts are oldest first, so this ends on the latest name
+      entry.fileName = answer.fileName ?? entry.fileName;
+      entry.answers.push(answer);
+      byFile.set(answer.fileId, entry);
+    }
+  }
+
+  return Array.from(byFile.entries())
+    .map(([fileId, { fileName, answers }]) => {
+      const correct = answers.filter((answer) => answer.correct).length;
+      return {
+        fileId,
+        fileName: fileName || "Untitled document",
+        answered: answers.length,
+        correct,
+        percent: percent(correct, answers.length),
+        averageTimeMs: averageTime(answers),
+        weakestTopics: weakestTopics(answers),
+      };
+    })
+    .sort((a, b) => a.percent - b.percent || b.answered - a.answered);
+}
+
+function streak(
+  attempts: QuizAttempt[],
+  now: Date,
+  offsetMinutes: number
+): StreakProgress {
+  const dayOf = (time: number) =>
+    Math.floor((time - offsetMinutes * 60 * 1000) / DAY_MS);
+  const days = new Set(
+    attempts.map((attempt) => dayOf(Date.parse(attempt.completedAt)))
+  );
+  const today = dayOf(now.getTime());
+
+  let longest = 0;
+  for (const day of days) {
+    if (days.has(day - 1)) continue;
+    let length = 1;
+    while (days.has(day + length)) length++;
+    longest = Math.max(longest, length);
+  }
+
+  // A streak survives until the end of the day after the last quiz
+  let current = 0;
+  let day = days.has(today) ? today : today - 1;
+  while (days.has(day)) {
+    current++;
+    day--;
+  }
+
+  return { current, longest, studiedToday: days.has(today) };
+}
+
+// Aggregates a learner's attempts (oldest first) into the progress view
+export function summarizeProgress(
+  attempts: QuizAttempt[],
+  { now = new Date(), offsetMinutes = 0 }: ProgressOptions = {}
+): ProgressSummary {
+  const answers = attempts.flatMap((attempt) => attempt.answers);
+  const correct = answers.filter((answer) => answer.correct).length;
+
+  return {
+    attempts: attempts.length,
+    answered: answers.length,
+    correct,
+    percent: percent(correct, answers.length),
+    averageTimeMs: averageTime(answers),
+    trend: attempts.slice(-TREND_LENGTH).map((attempt) => ({
+      attemptId: attempt.id,
+      title: attempt.title,
+      completedAt: attempt.completedAt,
+      percent: percent(attempt.correctCount, attempt.total),
+    })),
+    documents: documentProgress(attempts),
+    streak: streak(attempts, now, offsetMinutes),
+  };
+}
@@ -0,0 +1,153 @@
+import { randomUUID } from "crypto";
+import { getDb } from "@/lib/db";
+import { parseQuestion } from "@/lib/quiz/parse";
+import type { QuestionContent } from "@/lib/quiz/types";
+import {
+  MAX_ANSWER_TIME_MS,
+  type AttemptAnswer,
+  type AttemptInput,
+  type AttemptKind,
+  type QuizAttempt,
+} from "./types";
+
+export interface AttemptRepository {
+  create(userId: string, input: AttemptInput, now?: Date): Promise<QuizAttempt>;
+  // Oldest first, answers included
+  list(userId: string): Promise<QuizAttempt[]>;
+}
+
+interface AttemptRow {
+  id: string;
+  kind: AttemptKind;
+  title: string;
+  correct_count: number;
+  total: number;
+  started_at: string;
+  completed_at: string;
+}
+
+interface AnswerRow {
+  attempt_id: string;
+  file_id: string | null;
+  file_name: string | null;
+  question: string;
+  answer: string;
+  correct: number;
+  score: number;
+  time_ms: number;
+}
+
+function toAnswer(row: AnswerRow): AttemptAnswer {
+  return {
+    fileId: row.file_id,
+    fileName: row.file_name,
+    question: JSON.parse(row.question),
+    answer: JSON.parse(row.answer),
+    correct: row.correct === 1,
+    score: row.score,
+    timeMs: row.time_ms,
+  };
+}
+
+function toAttempt(row: AttemptRow, answers: AttemptAnswer[]): QuizAttempt {
+  return {
+    id: row.id,
+    kind: row.kind,
+    title: row.title,
+    correctCount: row.correct_count,
+    total: row.total,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    answers,
+  };
+}
+
+export const sqliteAttemptRepository: AttemptRepository = {
+  async create(userId, input, now = new Date()) {
+    const db = getDb();
+    const answers = input.answers.map((answer) => ({
+      ...answer,
+      fileId: answer.fileId ?? null,
+      fileName: answer.fileName ?? null,
+      // Stores the normalized question rather than whatever was sent
+      question: parseQuestion(answer.question, 0) as QuestionContent,
+      timeMs: Math.round(Math.min(answer.timeMs, MAX_ANSWER_TIME_MS)),
+    }));
+    const row: AttemptRow = {
+      id: randomUUID(),
+      kind: input.kind,
+      title: input.title.trim(),
+      correct_count: answers.filter((answer) => answer.correct).length,
+      total: answers.length,
+      started_at: new Date(input.startedAt).toISOString(),
+      completed_at: now.toISOString(),
+    };
+
+    db.transaction(() => {
+      db.prepare(
+        `INSERT INTO quiz_attempts
+          (id, user_id, kind, title, correct_count, total, started_at, completed_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        row.id,
+        userId,
+        row.kind,
+        row.title,
+        row.correct_count,
+        row.total,
+        row.started_at,
+        row.completed_at
+      );
+
+      const insert = db.prepare(
+        `INSERT INTO attempt_answers
+          (attempt_id, position, file_id, file_name, question, answer, correct, score, time_ms)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      answers.forEach((answer, position) => {
+        insert.run(
+          row.id,
+          position,
+          answer.fileId,
+          answer.fileName,
+          JSON.stringify(answer.question),
+          JSON.stringify(answer.answer),
+          answer.correct ? 1 : 0,
+          answer.score,
+          answer.timeMs
+        );
+      });
+    })();
+
+    return toAttempt(row, answers);
+  },
+
+  async list(userId) {
+    const db = getDb();
+    const rows = db
+      .prepare(
+        "SELECT * FROM quiz_attempts WHERE user_id = ? ORDER BY completed_at"
+      )
+      .all(userId) as AttemptRow[];
+    const answers = db
+      .prepare(
+        `SELECT attempt_answers.* FROM attempt_answers
+        JOIN quiz_attempts ON quiz_attempts.id = attempt_answers.attempt_id
+        WHERE quiz_attempts.user_id = ?
+        ORDER BY attempt_answers.attempt_id, attempt_answers.position`
+      )
+      .all(userId) as AnswerRow[];
+
+    const byAttempt = new Map<string, AttemptAnswer[]>();
+    for (const answer of answers) {
+      const list = byAttempt.get(answer.attempt_id) ?? [];
+      list.push(toAnswer(answer));
+      byAttempt.set(answer.attempt_id, list);
+    }
+    return rows.map((row) => toAttempt(row, byAttempt.get(row.id) ?? []));
+  },
+};
+
+export function getAttemptRepository(): AttemptRepository {
+  return sqliteAttemptRepository;
+}
@@ -0,0 +1,100 @@
+import { isOneOf } from "@/lib/api/validate";
+import { parseQuestion } from "@/lib/quiz/parse";
+import type { QuestionContent, QuizAnswer } from "@/lib/quiz/types";
+
+export const ATTEMPT_KINDS = ["quiz", "review"] as const;
+
+export type AttemptKind = (typeof ATTEMPT_KINDS)[number];
+
+export const MAX_ATTEMPT_ANSWERS = 50;
+// Longer pauses are the learner walking away, not thinking
+export const MAX_ANSWER_TIME_MS = 30 * 60 * 1000;
+
+export interface AttemptAnswer {
+  // The document the question came from, when known
+  fileId: string | null;
+  fileName: string | null;
+  question: QuestionContent;
+  answer: QuizAnswer;
+  correct: boolean;
+  // Partial credit, 0-1
+  score: number;
+  timeMs: number;
+}
+
+export interface QuizAttempt {
+  id: string;
+  kind: AttemptKind;
+  title: string;
+  correctCount: number;
+  total: number;
+  startedAt: string;
+  completedAt: string;
+  answers: AttemptAnswer[];
+}
+
+export interface AttemptInput {
+  kind: AttemptKind;
+  title: string;
+  startedAt: string;
+  answers: AttemptAnswer[];
+}
+
+function validateAnswer(input: unknown, position: number): string | null {
+  const value = input as Partial<AttemptAnswer> | null;
+  const label = `Answer ${position + 1}`;
+  if (typeof value !== "object" || value === null) return `${label} is invalid`;
+
+  const question = parseQuestion(value.question, position);
+  if ("error" in question) return question.error;
+  if (
+    typeof value.answer !== "object" ||
+    value.answer === null ||
+    value.answer.type !== question.type
+  ) {
+    return `${label} doesn't match its question`;
+  }
+  if (typeof value.correct !== "boolean") {
+    return `${label} needs "correct" to be true or false`;
+  }
+  if (typeof value.score !== "number" || value.score < 0 || value.score > 1) {
+    return `${label} needs a score from 0 to 1`;
+  }
+  if (typeof value.timeMs !== "number" || value.timeMs < 0) {
+    return `${label} needs a time in milliseconds`;
+  }
+  if (value.fileId != null && typeof value.fileId !== "string") {
+    return `${label} has an invalid fileId`;
+  }
+  return null;
+}
+
+// Returns an error message, or null when the input is a valid attempt
+export function validateAttemptInput(input: unknown): string | null {
+  const value = input as Partial<AttemptInput> | null;
+  if (typeof value !== "object" || value === null) return "Invalid attempt";
+  if (!isOneOf(ATTEMPT_KINDS, value.kind)) {
+    return `kind must be one of: ${ATTEMPT_KINDS.join(", ")}`;
+  }
+  if (typeof value.title !== "string" || !value.title.trim()) {
+    return "A title is required";
+  }
+  if (
+    typeof value.startedAt !== "string" ||
+    Number.isNaN(Date.parse(value.startedAt))
+  ) {
+    return "startedAt must be a date";
+  }
+  if (!Array.isArray(value.answers) || value.answers.length === 0) {
+    return "An attempt needs at least one answer";
+  }
+  if (value.answers.length > MAX_ATTEMPT_ANSWERS) {
+    return `An attempt can have at most ${MAX_ATTEMPT_ANSWERS} answers`;
+  }
+
+  for (const [position, answer] of value.answers.entries()) {
+    const error = validateAnswer(answer, position);
+    if (error) return error;
+  }
+  return null;
+}
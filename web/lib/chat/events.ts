@@ -0,0 +1,11 @@
+import type { ApiErrorBody } from "@/lib/api/errors";
+import type { Conversation, StoredMessage } from "@/lib/conversations/types";
+
+// Newline-delimited JSON events sent by POST /api/chat. The learner's
+// message is saved up front; the reply is saved once it finishes or the
+// learner stops it.
+export type ChatStreamEvent =
+  | { type: "start"; conversation: Conversation; userMessage: StoredMessage }
+  | { type: "delta"; text: string }
+  | { type: "done"; message: StoredMessage; stopped: boolean }
+  | ({ type: "error" } & ApiErrorBody);
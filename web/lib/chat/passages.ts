@@ -0,0 +1,81 @@
+import type { NewChat } from "@/lib/conversations/types";
+import { citationLabel } from "@/lib/documents/citations";
+import type { Citation } from "@/lib/documents/types";
+
+// Long enough for a few paragraphs, short enough to leave the model room
+// for the retrieved excerpts
+export const MAX_PASSAGE_CHARS = 4000;
+const MAX_TITLE_PASSAGE_CHARS = 50;
+
+export const PASSAGE_ACTIONS = ["explain", "simplify", "example", "question"] as const;
+export type PassageAction = (typeof PASSAGE_ACTIONS)[number];
+
+export const PASSAGE_ACTION_LABELS: Record<PassageAction, string> = {
+  explain: "Explain",
+  simplify: "Simplify",
+  example: "Give example",
+  question: "Make question",
+};
+
+const PASSAGE_PROMPTS: Record<PassageAction, string> = {
+  explain: "Can you explain this passage?",
+  simplify: "Can you put this passage in simpler words?",
+  example: "Can you give me an example of what this passage describes?",
+  question:
+    "Can you write a quiz question on this passage? Let me answer it before you reveal the answer.",
+};
+
+const LOCATION_KINDS: Citation["location"]["kind"][] = ["page", "slide", "text"];
+
+// Returns an error message, or null when the passage is valid
+export function validatePassage(input: unknown): string | null {
+  const value = input as Citation | null;
+  if (typeof value !== "object" || value === null) return "Invalid passage";
+  if (typeof value.fileId !== "string") return "Passage fileId is required";
+  if (typeof value.excerpt !== "string" || !value.excerpt.trim()) {
+    return "Passage excerpt is required";
+  }
+  if (value.excerpt.length > MAX_PASSAGE_CHARS) {
+    return `Passages must be ${MAX_PASSAGE_CHARS} characters or fewer`;
+  }
+  const location = value.location as Citation["location"] | null;
+  if (
+    typeof location !== "object" ||
+    location === null ||
+    !LOCATION_KINDS.includes(location.kind) ||
+    !Number.isInteger(location.number) ||
+    location.number < 1
+  ) {
+    return "Invalid passage location";
+  }
+  return null;
+}
+
+// Opens a chat about a passage the learner highlighted, with the request
+// left in the input for them to edit before sending
+export function askAboutPassage(passage: Citation, action: PassageAction): NewChat {
+  const excerpt = (passage.excerpt ?? "").replace(/\s+/g, " ").trim();
+  const quoted =
+    excerpt.length > MAX_TITLE_PASSAGE_CHARS
+      ? `${excerpt.slice(0, MAX_TITLE_PASSAGE_CHARS).trimEnd()}...`
+      : excerpt;
+
+  return {
+    title: `${PASSAGE_ACTION_LABELS[action]}: "${quoted}"`,
+    fileIds: [passage.fileId],
+    message: PASSAGE_PROMPTS[action],
+    passage,
+    draft: true,
+  };
+}
+
+// The learner's message as the model sees it, with the passage it's about
+// quoted above it
+export function quotePassage(message: string, passage: Citation) {
+  return `About this passage from ${citationLabel(passage)}:
+"""
+${passage.excerpt}
+"""
+
+${message}`;
+}
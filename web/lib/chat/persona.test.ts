@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  LEARNING_STYLES,
+  STUDY_LEVELS,
+  SUBJECTS,
+  type Profile,
+  type ProfileInput,
+} from "@/lib/profiles/types";
+import { buildTutorPrompt, defaultAutoSpeak } from "./persona";
+
+function profile(input: Partial<ProfileInput> = {}): Profile {
+  return {
+    userId: "user-1",
+    name: "Ada",
+    studyLevel: "undergraduate",
+    mainSubject: "computerScience",
+    learningStyle: "visual",
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    ...input,
+  };
+}
+
+// A phrase from each piece of guidance, to tell which ones made it in
+const LEVEL_MARKERS = {
+  undergraduate: "is an undergraduate",
+  graduate: "is a graduate student",
+  phd: "is a PhD researcher",
+  professional: "is a working professional",
+};
+const SUBJECT_MARKERS = {
+  computerScience: "main subject is computer science",
+  engineering: "main subject is engineering",
+  mathematics: "main subject is mathematics",
+  physics: "main subject is physics",
+  biology: "main subject is biology",
+  business: "main subject is business",
+  other: "examples from the learner's own materials",
+};
+const STYLE_MARKERS = {
+  visual: "learn best visually",
+  auditory: "learn best by listening",
+  reading: "learn best by reading",
+  kinesthetic: "learn best by doing",
+};
+
+const combinations = STUDY_LEVELS.flatMap((studyLevel) =>
+  SUBJECTS.flatMap((mainSubject) =>
+    LEARNING_STYLES.map((learningStyle) => ({ studyLevel, mainSubject, learningStyle }))
+  )
+);
+
+describe("buildTutorPrompt", () => {
+  it("uses the generic persona without a profile", () => {
+    const prompt = buildTutorPrompt(null);
+    expect(prompt).toContain("You are Wiz AI");
+    expect(prompt).not.toContain("The learner's name");
+  });
+
+  it.each(combinations)(
+    "adapts to a $studyLevel learner of $mainSubject who learns $learningStyle",
+    (input) => {
+      const prompt = buildTutorPrompt(profile(input));
+
+      expect(prompt).toContain("You are Wiz AI");
+      expect(prompt).toContain("The learner's name is Ada");
+      for (const [level, marker] of Object.entries(LEVEL_MARKERS)) {
+        expect(prompt.includes(marker)).toBe(level === input.studyLevel);
+      }
+      for (const [subject, marker] of Object.entries(SUBJECT_MARKERS)) {
+        expect(prompt.includes(marker)).toBe(subject === input.mainSubject);
+      }
+      for (const [style, marker] of Object.entries(STYLE_MARKERS)) {
+        expect(prompt.includes(marker)).toBe(style === input.learningStyle);
+      }
+    }
+  );
+});
+
+describe("defaultAutoSpeak", () => {
+  it("speaks replies when there is no profile yet", () => {
+    expect(defaultAutoSpeak(null)).toBe(true);
+  });
+
+  it.each(LEARNING_STYLES)("is on only for auditory learners (%s)", (learningStyle) => {
+    expect(defaultAutoSpeak(profile({ learningStyle }))).toBe(learningStyle === "auditory");
+  });
+});
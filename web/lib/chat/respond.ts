@@ -0,0 +1,163 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { formatSources, resolveCitations } from "@/lib/documents/citations";
+import type { Citation, SourceChunk } from "@/lib/documents/types";
+import { search } from "@/lib/documents/vector-index";
+import { ensureIndexed } from "@/lib/files/documents";
+import type { FileRecord } from "@/lib/files/types";
+import { CHAT_MODEL, getLLMProvider, getOpenAI } from "@/lib/llm";
+import type { Profile } from "@/lib/profiles/types";
+import { quotePassage } from "./passages";
+import { buildTutorPrompt } from "./persona";
+
+const TOP_K_CHUNKS = 5;
+const MAX_HISTORY_TURNS = 20;
+const MAX_REPLY_TOKENS = 800;
+
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ChatRequest {
+  history: ChatTurn[];
+  message: string;
+  // A passage the learner highlighted in one of their files and is asking about
+  passage?: Citation;
+  files: FileRecord[];
+  profile: Profile | null;
+}
+
+export interface ChatReply {
+  text: string;
+  citations: Citation[];
+}
+
+export interface RespondOptions {
+  // Called with each piece of the reply as the model writes it
+  onText: (delta: string) => void;
+  // Aborting stops generation and keeps whatever was written so far
+  signal?: AbortSignal;
+}
+
+function systemPrompt(
+  profile: Profile | null,
+  fileNames: string[],
+  chunks: SourceChunk[]
+) {
+  const sources = chunks.length
+    ? `
+
+Answer using the excerpts below from the user's materials. Cite the excerpts you use
+with their bracketed numbers, e.g. [1] or [2][3]. If the excerpts don't cover the
+question, say so before answering from general knowledge.
+
+${formatSources(chunks)}`
+    : "";
+
+  return `${buildTutorPrompt(profile)}
+
+The user has uploaded the following files: ${fileNames.join(", ")}.
+Refer to these materials in your responses when relevant.${sources}`;
+}
+
+// Without a model, point the learner at the most relevant excerpt
+function offlineReply(chunks: SourceChunk[]) {
+  if (chunks.length === 0) {
+    return "I couldn't find anything about that in your materials. Try rephrasing your question?";
+  }
+  const excerpt = chunks[0].text.slice(0, 400);
+  return `Here's what your materials say about that: "${excerpt}" [1]\n\nWhat part of this would you like to dig into?`;
+}
+
+async function retrieve(query: string, files: FileRecord[]) {
+  const readable = files.filter((file) => !file.extractionError);
+  await Promise.all(
+    readable.map((file) =>
+      ensureIndexed(file).catch((error) => {
+        console.error(`Indexing error for ${file.id}:`, error);
+      })
+    )
+  );
+
+  // The same content can be uploaded under several names; cite one of them
+  const byDocument = new Map(readable.map((file) => [file.documentId, file]));
+  const chunks = await search(query, Array.from(byDocument.keys()), TOP_K_CHUNKS);
+
+  return chunks.map((chunk): SourceChunk => {
+    const file = byDocument.get(chunk.documentId)!;
+    return { ...chunk, fileId: file.id, fileName: file.name };
+  });
+}
+
+// Streams the reply through `onText`. Deltas carry the model's raw [n]
+// markers; the returned reply has them renumbered to match its citations.
+export async function respond(
+  request: ChatRequest,
+  { onText, signal }: RespondOptions
+): Promise<ChatReply & { stopped: boolean }> {
+  const { passage } = request;
+  // Searching on the passage too finds its surroundings, which a short
+  // "explain this" alone wouldn't
+  const chunks = await retrieve(
+    passage ? `${passage.excerpt}\n${request.message}` : request.message,
+    request.files
+  );
+  if (signal?.aborted) {
+    return { text: "", citations: [], stopped: true };
+  }
+
+  if (getLLMProvider() === "offline") {
+    const text = offlineReply(chunks);
+    onText(text);
+    return { ...resolveCitations(text, chunks), stopped: false };
+  }
+
+  const messages: ChatCompletionMessageParam[] = [
+    {
+      role: "system",
+      content: systemPrompt(
+        request.profile,
+        request.files.map((file) => file.name),
+        chunks
+      ),
+    },
+    ...request.history.slice(-MAX_HISTORY_TURNS),
+    {
+      role: "user",
+      content: passage ? quotePassage(request.message, passage) : request.message,
+    },
+  ];
+
+  let reply = "";
+  try {
+    const stream = await getOpenAI().chat.completions.create(
+      {
+        model: CHAT_MODEL,
+        messages,
+        temperature: 0.7,
+        max_tokens: MAX_REPLY_TOKENS,
+        presence_penalty: 0.6,
+        frequency_penalty: 0.6,
+        stream: true,
+      },
+      { signal }
+    );
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        reply += delta;
+        onText(delta);
+      }
+    }
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+  }
+
+  const stopped = !!signal?.aborted;
+  if (!reply && !stopped) {
+    const text = "I'm sorry, I couldn't generate a response.";
+    onText(text);
+    return { text, citations: [], stopped };
+  }
+  return { ...resolveCitations(reply, chunks), stopped };
+}
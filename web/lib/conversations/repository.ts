@@ -0,0 +1,157 @@
+import { randomUUID } from "crypto";
+import { getDb } from "@/lib/db";
+import {
+  DEFAULT_TITLE,
+  type Conversation,
+  type ConversationUpdate,
+  type StoredMessage,
+} from "./types";
+
+export interface ConversationRepository {
+  list(userId: string): Promise<Conversation[]>;
+  get(userId: string, id: string): Promise<Conversation | null>;
+  create(userId: string, input: ConversationUpdate): Promise<Conversation>;
+  update(userId: string, id: string, input: ConversationUpdate): Promise<Conversation | null>;
+  delete(userId: string, id: string): Promise<void>;
+  messages(conversationId: string): Promise<StoredMessage[]>;
+  addMessage(
+    conversationId: string,
+    message: Omit<StoredMessage, "id" | "createdAt">
+  ): Promise<StoredMessage>;
+}
+
+interface ConversationRow {
+  id: string;
+  title: string;
+  file_ids: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface MessageRow {
+  id: number;
+  type: StoredMessage["type"];
+  text: string;
+  citations: string;
+  created_at: string;
+}
+
+function toConversation(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    title: row.title,
+    fileIds: JSON.parse(row.file_ids),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toMessage(row: MessageRow): StoredMessage {
+  return {
+    id: row.id,
+    type: row.type,
+    text: row.text,
+    citations: JSON.parse(row.citations),
+    createdAt: row.created_at,
+  };
+}
+
+export const sqliteConversationRepository: ConversationRepository = {
+  async list(userId) {
+    const rows = getDb()
+      .prepare(
+        "SELECT * FROM conversations WHERE user_id = ? ORDER BY updated_at DESC"
+      )
+      .all(userId) as ConversationRow[];
+    return rows.map(toConversation);
+  },
+
+  async get(userId, id) {
+    const row = getDb()
+      .prepare("SELECT * FROM conversations WHERE user_id = ? AND id = ?")
+      .get(userId, id) as ConversationRow | undefined;
+    return row ? toConversation(row) : null;
+  },
+
+  async create(userId, { title, fileIds }) {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      id: randomUUID(),
+      title: title?.trim() || DEFAULT_TITLE,
+      fileIds: fileIds ?? [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    getDb()
+      .prepare(
+        `INSERT INTO conversations (id, user_id, title, file_ids, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        conversation.id,
+        userId,
+        conversation.title,
+        JSON.stringify(conversation.fileIds),
+        now,
+        now
+      );
+    return conversation;
+  },
+
+  async update(userId, id, { title, fileIds }) {
+    const existing = await this.get(userId, id);
+    if (!existing) return null;
+
+    const updated: Conversation = {
+      ...existing,
+      title: title?.trim() || existing.title,
+      fileIds: fileIds ?? existing.fileIds,
+      updatedAt: new Date().toISOString(),
+    };
+    getDb()
+      .prepare(
+        `UPDATE conversations SET title = ?, file_ids = ?, updated_at = ?
+        WHERE user_id = ? AND id = ?`
+      )
+      .run(updated.title, JSON.stringify(updated.fileIds), updated.updatedAt, userId, id);
+    return updated;
+  },
+
+  async delete(userId, id) {
+    getDb()
+      .prepare("DELETE FROM conversations WHERE user_id = ? AND id = ?")
+      .run(userId, id);
+  },
+
+  async messages(conversationId) {
+    const rows = getDb()
+      .prepare("SELECT * FROM messages WHERE conversation_id = ? ORDER BY id")
+      .all(conversationId) as MessageRow[];
+    return rows.map(toMessage);
+  },
+
+  async addMessage(conversationId, { type, text, citations }) {
+    const db = getDb();
+    const now = new Date().toISOString();
+
+    const id = db.transaction(() => {
+      const result = db
+        .prepare(
+          `INSERT INTO messages (conversation_id, type, text, citations, created_at)
+          VALUES (?, ?, ?, ?, ?)`
+        )
+        .run(conversationId, type, text, JSON.stringify(citations), now);
+      db.prepare("UPDATE conversations SET updated_at = ? WHERE id = ?").run(
+        now,
+        conversationId
+      );
+      return Number(result.lastInsertRowid);
+    })();
+
+    return { id, type, text, citations, createdAt: now };
+  },
+};
+
+export function getConversationRepository(): ConversationRepository {
+  return sqliteConversationRepository;
+}
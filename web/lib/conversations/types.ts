@@ -0,0 +1,37 @@
+import type { Citation } from "@/lib/documents/types";
+
+export const DEFAULT_TITLE = "New conversation";
+
+export interface Conversation {
+  id: string;
+  title: string;
+  // The subset of the learner's files this conversation is grounded in
+  fileIds: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoredMessage {
+  id: number;
+  type: "user" | "assistant";
+  text: string;
+  citations: Citation[];
+  createdAt: string;
+}
+
+export interface ConversationUpdate {
+  title?: string;
+  fileIds?: string[];
+}
+
+// A conversation to open with its first question already asked
+export interface NewChat {
+  title: string;
+  // Defaults to every readable file
+  fileIds?: string[];
+  message: string;
+  // A highlighted passage the question is about, sent along with it
+  passage?: Citation;
+  // Leaves the message in the input for the learner to send
+  draft?: boolean;
+}
@@ -0,0 +1,23 @@
+import type { ConversationUpdate } from "./types";
+
+const MAX_TITLE_LENGTH = 100;
+
+// Returns an error message, or null when the update is valid
+export function validateConversationUpdate(input: unknown): string | null {
+  const value = input as ConversationUpdate | null;
+  if (typeof value !== "object" || value === null) return "Invalid conversation";
+
+  if (value.title !== undefined) {
+    if (typeof value.title !== "string") return "Title must be a string";
+    if (value.title.length > MAX_TITLE_LENGTH) {
+      return `Title must be ${MAX_TITLE_LENGTH} characters or fewer`;
+    }
+  }
+  if (
+    value.fileIds !== undefined &&
+    !(Array.isArray(value.fileIds) && value.fileIds.every((id) => typeof id === "string"))
+  ) {
+    return "fileIds must be an array of strings";
+  }
+  return null;
+}
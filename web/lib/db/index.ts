@@ -0,0 +1,29 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+import { DATA_DIR } from "@/lib/paths";
+import { MIGRATIONS } from "./migrations";
+
+let db: Database.Database | null = null;
+
+function migrate(database: Database.Database) {
+  const version = database.pragma("user_version", { simple: true }) as number;
+
+  database.transaction(() => {
+    MIGRATIONS.slice(version).forEach((sql) => database.exec(sql));
+    database.pragma(`user_version = ${MIGRATIONS.length}`);
+  })();
+}
+
+export function getDb() {
+  if (!db) {
+    const file = process.env.DATABASE_PATH || path.join(DATA_DIR, "wiz.db");
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+
+    db = new Database(file);
+    db.pragma("journal_mode = WAL");
+    db.pragma("foreign_keys = ON");
+    migrate(db);
+  }
+  return db;
+}
@@ -0,0 +1,152 @@
+// Applied in order and tracked with PRAGMA user_version. Never edit a
+// migration that has shipped; append a new one instead.
+export const MIGRATIONS = [
+  `CREATE TABLE profiles (
+    user_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    study_level TEXT NOT NULL,
+    main_subject TEXT NOT NULL,
+    learning_style TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE files (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    document_id TEXT NOT NULL,
+    storage_key TEXT NOT NULL,
+    extraction_error TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX files_user_id ON files (user_id, created_at);`,
+  `CREATE TABLE conversations (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    file_ids TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX conversations_user_id ON conversations (user_id, updated_at);
+  CREATE TABLE messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    text TEXT NOT NULL,
+    citations TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX messages_conversation_id ON messages (conversation_id, id);`,
+  `CREATE TABLE speech_settings (
+    user_id TEXT PRIMARY KEY,
+    provider TEXT,
+    voice TEXT,
+    speed REAL NOT NULL DEFAULT 1,
+    updated_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE transcription_jobs (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    status TEXT NOT NULL,
+    remote_id TEXT,
+    text TEXT,
+    error TEXT,
+    polls INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`,
+  `CREATE TABLE review_items (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    question_key TEXT NOT NULL,
+    file_id TEXT,
+    file_name TEXT,
+    question TEXT NOT NULL,
+    repetitions INTEGER NOT NULL,
+    ease REAL NOT NULL,
+    interval_days INTEGER NOT NULL,
+    due_at TEXT NOT NULL,
+    last_reviewed_at TEXT,
+    created_at TEXT NOT NULL,
+    UNIQUE (user_id, question_key)
+  );
+  CREATE INDEX review_items_due ON review_items (user_id, due_at);
+  CREATE TABLE review_answers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    item_id TEXT NOT NULL REFERENCES review_items (id) ON DELETE CASCADE,
+    correct INTEGER NOT NULL,
+    answered_at TEXT NOT NULL
+  );
+  CREATE INDEX review_answers_item_id ON review_answers (item_id);`,
+  `CREATE TABLE quiz_attempts (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    title TEXT NOT NULL,
+    correct_count INTEGER NOT NULL,
+    total INTEGER NOT NULL,
+    started_at TEXT NOT NULL,
+    completed_at TEXT NOT NULL
+  );
+  CREATE INDEX quiz_attempts_user_id ON quiz_attempts (user_id, completed_at);
+  CREATE TABLE attempt_answers (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    attempt_id TEXT NOT NULL REFERENCES quiz_attempts (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    file_id TEXT,
+    file_name TEXT,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    correct INTEGER NOT NULL,
+    score REAL NOT NULL,
+    time_ms INTEGER NOT NULL
+  );
+  CREATE INDEX attempt_answers_attempt_id ON attempt_answers (attempt_id, position);`,
+  `CREATE TABLE quiz_presets (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    settings TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX quiz_presets_user_id ON quiz_presets (user_id, name);`,
+  // Files can be grouped into a course and quizzed on together
+  `ALTER TABLE files ADD COLUMN course TEXT`,
+  `CREATE TABLE flashcard_decks (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    file_id TEXT,
+    file_name TEXT,
+    title TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX flashcard_decks_user_id ON flashcard_decks (user_id, created_at);
+  CREATE TABLE flashcards (
+    id TEXT PRIMARY KEY,
+    deck_id TEXT NOT NULL REFERENCES flashcard_decks (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    front TEXT NOT NULL,
+    back TEXT NOT NULL,
+    repetitions INTEGER NOT NULL DEFAULT 0,
+    ease REAL NOT NULL,
+    interval_days INTEGER NOT NULL DEFAULT 0,
+    due_at TEXT NOT NULL,
+    last_reviewed_at TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX flashcards_deck_id ON flashcards (deck_id, position);`,
+  // Learners can rewrite their guide, so each keeps their own copy
+  `CREATE TABLE study_guides (
+    user_id TEXT NOT NULL,
+    document_id TEXT NOT NULL,
+    generator TEXT NOT NULL,
+    content TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, document_id, generator)
+  );`,
+];
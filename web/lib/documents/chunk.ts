@@ -0,0 +1,63 @@
+import type { DocumentChunk, ExtractedDocument } from "./types";
+
+const CHUNK_CHARS = 1000;
+const OVERLAP_CHARS = 200;
+
+// Packs words into pieces of at most CHUNK_CHARS
+function packWords(words: string[]) {
+  const pieces: string[] = [];
+  let piece = "";
+
+  for (const word of words) {
+    if (piece && piece.length + word.length + 1 > CHUNK_CHARS) {
+      pieces.push(piece);
+      piece = "";
+    }
+    piece = piece ? `${piece} ${word}` : word;
+  }
+  if (piece) pieces.push(piece);
+
+  return pieces;
+}
+
+// Splits on sentence ends and blank lines so chunks don't cut sentences in
+// half. Run-on text without punctuation (tables, slide bullets) is split on
+// word boundaries instead.
+function segments(text: string) {
+  return text
+    .split(/(?<=[.!?])\s+|\n{2,}/)
+    .filter((segment) => segment.trim())
+    .flatMap((segment) =>
+      segment.length <= CHUNK_CHARS ? [segment] : packWords(segment.split(/\s+/))
+    );
+}
+
+function splitSection(text: string) {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const segment of segments(text)) {
+    if (current && current.length + segment.length + 1 > CHUNK_CHARS) {
+      chunks.push(current);
+      // Carry the tail of the previous chunk over for context
+      const tail = current.slice(-OVERLAP_CHARS);
+      current = tail.slice(tail.indexOf(" ") + 1);
+    }
+    current = current ? `${current} ${segment}` : segment;
+  }
+  if (current.trim()) chunks.push(current);
+
+  return chunks;
+}
+
+export function chunkDocument(document: ExtractedDocument): DocumentChunk[] {
+  return document.sections.flatMap(({ kind, number, text }) =>
+    splitSection(text).map((chunk, index) => ({
+      id: `${document.hash}:${kind}-${number}:${index}`,
+      documentId: document.hash,
+      fileName: document.fileName,
+      location: { kind, number },
+      text: chunk,
+    }))
+  );
+}
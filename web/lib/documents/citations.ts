@@ -0,0 +1,46 @@
+import type { Citation, DocumentLocation, SourceChunk } from "./types";
+
+export function formatLocation({ kind, number }: DocumentLocation) {
+  if (kind === "page") return `p. ${number}`;
+  if (kind === "slide") return `slide ${number}`;
+  return null;
+}
+
+export function citationLabel({ fileName, location }: Citation) {
+  const where = formatLocation(location);
+  return where ? `${fileName} · ${where}` : fileName;
+}
+
+// Numbered excerpts for the prompt; the model cites them as [1], [2], ...
+export function formatSources(chunks: SourceChunk[]) {
+  return chunks
+    .map((chunk, index) => {
+      const where = formatLocation(chunk.location);
+      const heading = where ? `${chunk.fileName}, ${where}` : chunk.fileName;
+      return `[${index + 1}] (${heading})\n${chunk.text}`;
+    })
+    .join("\n\n");
+}
+
+// Maps the [n] markers in a reply back to their sources, one citation per
+// document location. Markers are renumbered to match the citation list.
+export function resolveCitations(reply: string, chunks: SourceChunk[]) {
+  const citations: Citation[] = [];
+  const numbers = new Map<string, number>();
+
+  const text = reply.replace(/\[(\d+)\]/g, (marker, n) => {
+    const chunk = chunks[parseInt(n, 10) - 1];
+    if (!chunk) return marker;
+
+    const { fileId, fileName, location } = chunk;
+    const key = `${fileId}:${location.kind}-${location.number}`;
+    if (!numbers.has(key)) {
+      citations.push({ fileId, fileName, location, excerpt: chunk.text });
+      numbers.set(key, citations.length);
+    }
+    return `[${numbers.get(key)}]`;
+  });
+
+  // "[2][2]" can appear when two excerpts from the same page were cited
+  return { text: text.replace(/(\[\d+\])\1+/g, "$1"), citations };
+}
@@ -0,0 +1,54 @@
+import { createHash } from "crypto";
+import { getLLMProvider, getOpenAI } from "@/lib/llm";
+
+const EMBEDDING_MODEL = "text-embedding-3-small";
+const BATCH_SIZE = 100;
+const OFFLINE_DIMENSIONS = 256;
+
+export interface EmbeddingProvider {
+  name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const openAIEmbeddingProvider: EmbeddingProvider = {
+  name: EMBEDDING_MODEL,
+  async embed(texts) {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+      const response = await getOpenAI().embeddings.create({
+        model: EMBEDDING_MODEL,
+        input: texts.slice(i, i + BATCH_SIZE),
+      });
+      vectors.push(...response.data.map((item) => item.embedding));
+    }
+    return vectors;
+  },
+};
+
+function normalize(vector: number[]) {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length ? vector.map((value) => value / length) : vector;
+}
+
+// Hashed bag-of-words: crude, but deterministic and good enough to rank
+// chunks by shared vocabulary when running without OpenAI
+export const offlineEmbeddingProvider: EmbeddingProvider = {
+  name: `offline-hash-${OFFLINE_DIMENSIONS}`,
+  async embed(texts) {
+    return texts.map((text) => {
+      const vector = new Array<number>(OFFLINE_DIMENSIONS).fill(0);
+      for (const token of text.toLowerCase().match(/[a-z0-9]{3,}/g) || []) {
+        const digest = createHash("md5").update(token).digest();
+        const sign = digest[4] & 1 ? 1 : -1;
+        vector[digest.readUInt32LE(0) % OFFLINE_DIMENSIONS] += sign;
+      }
+      return normalize(vector);
+    });
+  },
+};
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return getLLMProvider() === "offline"
+    ? offlineEmbeddingProvider
+    : openAIEmbeddingProvider;
+}
@@ -0,0 +1,208 @@
+import { createHash } from "crypto";
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import { extractText, getDocumentProxy } from "unpdf";
+import {
+  ExtractionError,
+  type DocumentFormat,
+  type DocumentSection,
+  type ExtractedDocument,
+} from "./types";
+
+const MAX_CACHE_ENTRIES = 100;
+
+// Keyed by SHA-256 of the file bytes, so re-uploads and renames are free
+const cache = new Map<string, ExtractedDocument>();
+
+// Compound File Binary header: legacy .doc/.ppt, and also how Office wraps
+// password-protected .docx/.pptx files
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const PDF_SIGNATURE = Buffer.from("%PDF-");
+
+const LEGACY_FORMATS: Record<string, string> = {
+  doc: "Legacy .doc files aren't supported. Please save the file as .docx and upload it again.",
+  ppt: "Legacy .ppt files aren't supported. Please save the file as .pptx and upload it again.",
+};
+
+export function hashFile(buffer: Buffer) {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+function extension(fileName: string) {
+  const match = /\.([^.]+)$/.exec(fileName);
+  return match ? match[1].toLowerCase() : "";
+}
+
+function detectFormat(buffer: Buffer, fileName: string): DocumentFormat {
+  const ext = extension(fileName);
+  const startsWith = (signature: Buffer) =>
+    buffer.subarray(0, signature.length).equals(signature);
+
+  if (ext in LEGACY_FORMATS) {
+    throw new ExtractionError("unsupported", LEGACY_FORMATS[ext]);
+  }
+  if (startsWith(PDF_SIGNATURE)) return "pdf";
+  if ((ext === "docx" || ext === "pptx") && startsWith(CFB_SIGNATURE)) {
+    throw new ExtractionError(
+      "encrypted",
+      `${fileName} is password protected. Remove the password and upload it again.`
+    );
+  }
+  if ((ext === "docx" || ext === "pptx") && startsWith(ZIP_SIGNATURE)) return ext;
+  if (ext === "txt") return "txt";
+
+  throw new ExtractionError(
+    "unsupported",
+    `${fileName} isn't a supported file type. Upload a PDF, DOCX, PPTX or TXT file.`
+  );
+}
+
+export function normalizeText(text: string) {
+  return (
+    text
+      .normalize("NFKC")
+      .replace(/\r\n?/g, "\n")
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u00ad]/g, "")
+      // Re-join words hyphenated across line breaks
+      .replace(/(\w)-\n(\w)/g, "$1$2")
+      .replace(/[ \t\u00a0]+/g, " ")
+      .split("\n")
+      .map((line) => line.trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim()
+  );
+}
+
+async function extractPdf(buffer: Buffer, fileName: string) {
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    const { text } = await extractText(pdf, { mergePages: false });
+    return text.map((page, index) => ({
+      kind: "page" as const,
+      number: index + 1,
+      text: page,
+    }));
+  } catch (error) {
+    if ((error as Error).name === "PasswordException") {
+      throw new ExtractionError(
+        "encrypted",
+        `${fileName} is password protected. Remove the password and upload it again.`
+      );
+    }
+    throw new ExtractionError("corrupt", `${fileName} could not be read as a PDF.`);
+  }
+}
+
+async function extractDocx(buffer: Buffer, fileName: string) {
+  try {
+    const { value } = await mammoth.extractRawText({ buffer });
+    return [{ kind: "text" as const, number: 1, text: value }];
+  } catch {
+    throw new ExtractionError("corrupt", `${fileName} could not be read as a Word document.`);
+  }
+}
+
+function decodeXml(text: string) {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+// Each <a:p> paragraph becomes a line made of its <a:t> text runs
+function slideText(xml: string) {
+  const paragraphs = xml.match(/<a:p[\s>][\s\S]*?<\/a:p>/g) || [];
+  return paragraphs
+    .map((paragraph) =>
+      (paragraph.match(/<a:t>([\s\S]*?)<\/a:t>/g) || [])
+        .map((run) => decodeXml(run.replace(/<\/?a:t>/g, "")))
+        .join("")
+    )
+    .filter((line) => line.trim())
+    .join("\n");
+}
+
+async function extractPptx(buffer: Buffer, fileName: string) {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new ExtractionError("corrupt", `${fileName} could not be read as a PowerPoint file.`);
+  }
+
+  const slides = Object.keys(zip.files)
+    .map((path) => ({ path, match: /^ppt\/slides\/slide(\d+)\.xml$/.exec(path) }))
+    .filter(({ match }) => match)
+    .map(({ path, match }) => ({ path, number: parseInt(match![1], 10) }))
+    .sort((a, b) => a.number - b.number);
+
+  return Promise.all(
+    slides.map(async ({ path, number }) => ({
+      kind: "slide" as const,
+      number,
+      text: slideText(await zip.file(path)!.async("string")),
+    }))
+  );
+}
+
+function extractTxt(buffer: Buffer) {
+  const text = new TextDecoder("utf-8").decode(buffer).replace(/^\ufeff/, "");
+  return [{ kind: "text" as const, number: 1, text }];
+}
+
+export function formatSections(sections: DocumentSection[]) {
+  return sections
+    .map(({ kind, number, text }) => {
+      if (kind === "text") return text;
+      const label = kind === "page" ? "Page" : "Slide";
+      return `[${label} ${number}]\n${text}`;
+    })
+    .join("\n\n");
+}
+
+export async function extractDocument(
+  buffer: Buffer,
+  fileName: string
+): Promise<ExtractedDocument> {
+  const hash = hashFile(buffer);
+  const cached = cache.get(hash);
+  if (cached) return { ...cached, fileName };
+
+  const format = detectFormat(buffer, fileName);
+  const raw =
+    format === "pdf"
+      ? await extractPdf(buffer, fileName)
+      : format === "docx"
+        ? await extractDocx(buffer, fileName)
+        : format === "pptx"
+          ? await extractPptx(buffer, fileName)
+          : extractTxt(buffer);
+
+  const sections = raw.map((section) => ({
+    ...section,
+    text: normalizeText(section.text),
+  }));
+  if (sections.every((section) => !section.text)) {
+    throw new ExtractionError(
+      "empty",
+      format === "pdf"
+        ? `${fileName} has no selectable text. Scanned PDFs need to be run through OCR first.`
+        : `${fileName} doesn't contain any text.`
+    );
+  }
+
+  const document = { hash, fileName, format, sections, text: formatSections(sections) };
+
+  if (cache.size >= MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(hash, document);
+  return document;
+}
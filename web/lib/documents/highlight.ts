@@ -0,0 +1,46 @@
+// Shorter sentences ("See above.") match in too many places to anchor on
+const MIN_SENTENCE_CHARS = 20;
+
+// The text with runs of whitespace collapsed to one space and lowercased,
+// plus where each of its characters came from in the original
+function collapse(text: string) {
+  let collapsed = "";
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const space = /\s/.test(text[i]);
+    if (space && (collapsed.endsWith(" ") || collapsed === "")) continue;
+    collapsed += space ? " " : text[i].toLowerCase();
+    positions.push(i);
+  }
+  return { collapsed, positions };
+}
+
+// Finds a cited passage in a page's text, ignoring differences in spacing
+// and case. Excerpts are cut from the extracted text but can start on an
+// earlier page or run past this one, so when the whole passage isn't there
+// the span from the first to the last of its sentences that are is used.
+// Returns the span to highlight, or null.
+export function findPassage(text: string, passage: string) {
+  const { collapsed, positions } = collapse(text);
+  const needle = collapse(passage).collapsed.trim();
+  if (!needle) return null;
+
+  const span = (start: number, end: number) => ({
+    start: positions[start],
+    end: positions[end - 1] + 1,
+  });
+
+  const whole = collapsed.indexOf(needle);
+  if (whole !== -1) return span(whole, whole + needle.length);
+
+  let start = -1;
+  let end = -1;
+  for (const sentence of needle.split(/(?<=[.!?])\s+/)) {
+    if (sentence.length < MIN_SENTENCE_CHARS) continue;
+    const found = collapsed.indexOf(sentence, Math.max(end, 0));
+    if (found === -1) continue;
+    if (start === -1) start = found;
+    end = found + sentence.length;
+  }
+  return start === -1 ? null : span(start, end);
+}
@@ -0,0 +1,66 @@
+export type DocumentFormat = "pdf" | "docx" | "pptx" | "txt";
+
+export interface DocumentSection {
+  kind: "page" | "slide" | "text";
+  number: number;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  hash: string;
+  fileName: string;
+  format: DocumentFormat;
+  sections: DocumentSection[];
+  text: string;
+}
+
+export type ExtractionErrorCode = "unsupported" | "encrypted" | "empty" | "corrupt";
+
+export class ExtractionError extends Error {
+  code: ExtractionErrorCode;
+
+  constructor(code: ExtractionErrorCode, message: string) {
+    super(message);
+    this.name = "ExtractionError";
+    this.code = code;
+  }
+}
+
+export interface DocumentLocation {
+  kind: DocumentSection["kind"];
+  number: number;
+}
+
+export interface DocumentChunk {
+  id: string;
+  documentId: string;
+  fileName: string;
+  location: DocumentLocation;
+  text: string;
+}
+
+export interface RetrievedChunk extends DocumentChunk {
+  score: number;
+}
+
+// A retrieved chunk attributed to the uploaded file it was found in
+export interface SourceChunk extends RetrievedChunk {
+  fileId: string;
+}
+
+export interface Citation {
+  fileId: string;
+  fileName: string;
+  location: DocumentLocation;
+  // The passage cited, highlighted when the source is opened
+  excerpt?: string;
+}
+
+// Where to open a document in the viewer: at a cited page and passage, or
+// at the start
+export interface DocumentTarget {
+  fileId: string;
+  fileName: string;
+  location?: DocumentLocation;
+  excerpt?: string;
+}
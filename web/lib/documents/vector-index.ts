@@ -0,0 +1,101 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { DATA_DIR } from "@/lib/paths";
+import { chunkDocument } from "./chunk";
+import { getEmbeddingProvider } from "./embeddings";
+import type {
+  DocumentChunk,
+  ExtractedDocument,
+  RetrievedChunk,
+} from "./types";
+
+interface IndexedChunk extends DocumentChunk {
+  embedding: number[];
+}
+
+// Documents are content-addressed by hash, so one index serves every user.
+// Vectors are mirrored to disk to survive restarts, and the most recently
+// searched documents are kept in memory.
+const MAX_LOADED_DOCUMENTS = 50;
+const documents = new Map<string, IndexedChunk[]>();
+
+// Maps keep insertion order, so re-inserting on every use leaves the least
+// recently used document first in line for eviction
+function remember(key: string, chunks: IndexedChunk[]) {
+  documents.delete(key);
+  if (documents.size >= MAX_LOADED_DOCUMENTS) {
+    documents.delete(documents.keys().next().value!);
+  }
+  documents.set(key, chunks);
+}
+
+function indexPath(documentId: string) {
+  const provider = getEmbeddingProvider().name;
+  return path.join(DATA_DIR, "vectors", provider, `${documentId}.json`);
+}
+
+async function loadDocument(documentId: string) {
+  const key = indexPath(documentId);
+  const loaded = documents.get(key);
+  if (loaded) {
+    remember(key, loaded);
+    return loaded;
+  }
+
+  try {
+    const chunks: IndexedChunk[] = JSON.parse(await fs.readFile(key, "utf8"));
+    remember(key, chunks);
+    return chunks;
+  } catch {
+    return null;
+  }
+}
+
+export async function isIndexed(documentId: string) {
+  return (await loadDocument(documentId)) !== null;
+}
+
+export async function indexDocument(document: ExtractedDocument) {
+  if (await isIndexed(document.hash)) return;
+
+  const chunks = chunkDocument(document);
+  const embeddings = await getEmbeddingProvider().embed(
+    chunks.map((chunk) => chunk.text)
+  );
+  const indexed = chunks.map((chunk, i) => ({
+    ...chunk,
+    embedding: embeddings[i],
+  }));
+
+  const key = indexPath(document.hash);
+  remember(key, indexed);
+  await fs.mkdir(path.dirname(key), { recursive: true });
+  await fs.writeFile(key, JSON.stringify(indexed));
+}
+
+function dot(a: number[], b: number[]) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// Both providers return unit vectors, so the dot product is cosine similarity
+export async function search(
+  query: string,
+  documentIds: string[],
+  k: number
+): Promise<RetrievedChunk[]> {
+  const loaded = await Promise.all(documentIds.map(loadDocument));
+  const candidates = loaded.flatMap((chunks) => chunks || []);
+  if (candidates.length === 0) return [];
+
+  const [queryEmbedding] = await getEmbeddingProvider().embed([query]);
+
+  return candidates
+    .map(({ embedding, ...chunk }) => ({
+      ...chunk,
+      score: dot(queryEmbedding, embedding),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
@@ -0,0 +1,250 @@
+import Database from "better-sqlite3";
+import { createHash } from "crypto";
+import JSZip from "jszip";
+import type { ExportNote } from "./types";
+
+// The legacy collection schema (version 11), which every Anki release imports
+const SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null,
+  scm integer not null, ver integer not null, dty integer not null,
+  usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null,
+  tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null,
+  mod integer not null, usn integer not null, tags text not null,
+  flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null,
+  ord integer not null, mod integer not null, usn integer not null,
+  type integer not null, queue integer not null, due integer not null,
+  ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null,
+  odid integer not null, flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null,
+  ease integer not null, ivl integer not null, lastIvl integer not null,
+  factor integer not null, time integer not null, type integer not null
+);
+CREATE TABLE graves (
+  usn integer not null, oid integer not null, type integer not null
+);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+const MODEL_NAME = "Wiz AI Basic";
+const CARD_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: center;
+  color: black;
+  background-color: white;
+}`;
+
+function digest(algorithm: "sha1" | "sha256", text: string) {
+  return createHash(algorithm).update(text).digest("hex");
+}
+
+// Stable ids, so exporting the same deck again updates it in Anki rather
+// than adding a copy
+function stableId(text: string) {
+  return parseInt(digest("sha1", text).slice(0, 10), 16);
+}
+
+function toHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\n/g, "<br>");
+}
+
+function basicModel(id: number, deckId: number, mod: number) {
+  return {
+    id,
+    name: MODEL_NAME,
+    type: 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [
+      {
+        name: "Card 1",
+        ord: 0,
+        qfmt: "{{Front}}",
+        afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}",
+        did: null,
+        bqfmt: "",
+        bafmt: "",
+      },
+    ],
+    flds: ["Front", "Back"].map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: "Arial",
+      size: 20,
+      media: [],
+    })),
+    css: CARD_CSS,
+    latexPre:
+      "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    // The single card needs the front field filled in
+    req: [[0, "any", [0]]],
+    tags: [],
+    vers: [],
+  };
+}
+
+function deck(id: number, name: string, mod: number) {
+  return {
+    id,
+    name,
+    mod,
+    usn: -1,
+    desc: "",
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+const DECK_CONFIG = {
+  id: 1,
+  name: "Default",
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: {
+    delays: [1, 10],
+    ints: [1, 4, 7],
+    initialFactor: 2500,
+    order: 1,
+    perDay: 20,
+    bury: true,
+    separate: true,
+  },
+  rev: {
+    perDay: 200,
+    ease4: 1.3,
+    fuzz: 0.05,
+    ivlFct: 1,
+    maxIvl: 36500,
+    minSpace: 1,
+    bury: true,
+  },
+  lapse: {
+    delays: [10],
+    mult: 0,
+    minInt: 1,
+    leechFails: 8,
+    leechAction: 0,
+  },
+};
+
+// Packages the notes as an Anki deck: a zip holding the collection database
+// and an (empty) media manifest
+export async function buildApkg(deckName: string, notes: ExportNote[], now = new Date()) {
+  const ms = now.getTime();
+  const seconds = Math.floor(ms / 1000);
+  const deckId = stableId(`deck:${deckName}`);
+  const modelId = stableId(`model:${MODEL_NAME}`);
+
+  const db = new Database(":memory:");
+  try {
+    db.exec(SCHEMA);
+    db.prepare(
+      `INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')`
+    ).run(
+      seconds,
+      ms,
+      ms,
+      JSON.stringify({
+        nextPos: notes.length + 1,
+        estTimes: true,
+        activeDecks: [1],
+        sortType: "noteFld",
+        timeLim: 0,
+        sortBackwards: false,
+        addToCur: true,
+        curDeck: deckId,
+        newBury: true,
+        newSpread: 0,
+        dueCounts: true,
+        curModel: modelId,
+        collapseTime: 1200,
+      }),
+      JSON.stringify({ [modelId]: basicModel(modelId, deckId, seconds) }),
+      JSON.stringify({
+        1: deck(1, "Default", seconds),
+        [deckId]: deck(deckId, deckName, seconds),
+      }),
+      JSON.stringify({ 1: DECK_CONFIG })
+    );
+
+    const insertNote = db.prepare(
+      `INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')`
+    );
+    const insertCard = db.prepare(
+      `INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')`
+    );
+    const guids = new Set<string>();
+
+    db.transaction(() => {
+      notes.forEach((note, index) => {
+        let guid = digest("sha256", `${deckName}\n${note.front}`).slice(0, 16);
+        // Two notes with the same front would otherwise merge on import
+        for (let n = 1; guids.has(guid); n++) {
+          guid = digest("sha256", `${deckName}\n${note.front}\n${n}`).slice(0, 16);
+        }
+        guids.add(guid);
+
+        const id = ms + index;
+        const tags = note.tags.length > 0 ? ` ${note.tags.join(" ")} ` : "";
+        insertNote.run(
+          id,
+          guid,
+          modelId,
+          seconds,
+          tags,
+          `${toHtml(note.front)}\x1f${toHtml(note.back)}`,
+          note.front,
+          parseInt(digest("sha1", note.front).slice(0, 8), 16)
+        );
+        // New cards, shown in export order
+        insertCard.run(id, id, deckId, seconds, index + 1);
+      });
+    })();
+
+    const zip = new JSZip();
+    zip.file("collection.anki2", db.serialize());
+    zip.file("media", "{}");
+    return await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,116 @@
+import type { ExportNote } from "./types";
+
+function quote(field: string, delimiter: string) {
+  return /["\r\n]/.test(field) || field.includes(delimiter)
+    ? `"${field.replace(/"/g, '""')}"`
+    : field;
+}
+
+// Front, back and tags per line, after the header lines Anki reads to set up
+// its import (and older versions skip as comments)
+export function toDelimited(notes: ExportNote[], delimiter: "," | "\t") {
+  const header = [
+    `#separator:${delimiter === "\t" ? "tab" : "comma"}`,
+    "#html:false",
+    "#tags column:3",
+  ];
+  const lines = notes.map((note) =>
+    [note.front, note.back, note.tags.join(" ")]
+      .map((field) => quote(field, delimiter))
+      .join(delimiter)
+  );
+  return `${[...header, ...lines].join("\n")}\n`;
+}
+
+// Splits CSV or TSV text into rows of fields, honouring quoted fields with
+// delimiters, doubled quotes and line breaks inside them
+function splitRows(text: string, delimiter: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Anki's own exports are TSV, so tabs win when the first card line has one
+function detectDelimiter(header: string[], first: string) {
+  const separator = header
+    .find((line) => line.startsWith("#separator:"))
+    ?.slice("#separator:".length)
+    .trim()
+    .toLowerCase();
+  if (separator === "tab") return "\t";
+  if (separator === "comma") return ",";
+  if (separator === "semicolon") return ";";
+
+  if (first.includes("\t")) return "\t";
+  if (!first.includes(",") && first.includes(";")) return ";";
+  return ",";
+}
+
+// Anki exports fields as HTML unless told otherwise
+function htmlToText(html: string) {
+  return html
+    .replace(/<br\s*\/?>|<\/(?:div|p)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+}
+
+// Reads front/back pairs from CSV or TSV text. Leading "#" lines are Anki
+// headers, and a first row labelled "front, back" is a header too.
+export function parseDelimited(text: string): { front: string; back: string }[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  let start = 0;
+  while (start < lines.length && lines[start].startsWith("#")) start++;
+
+  const header = lines.slice(0, start);
+  const body = lines.slice(start).join("\n");
+  const delimiter = detectDelimiter(header, lines[start] ?? "");
+  const clean = header.includes("#html:true") ? htmlToText : (text: string) => text;
+  const rows = splitRows(body, delimiter);
+
+  const first = rows[0]?.map((field) => field.trim().toLowerCase());
+  if (first && first[0] === "front" && first[1] === "back") rows.shift();
+
+  return rows
+    .map((row) => ({
+      front: clean(row[0] ?? "").trim(),
+      back: clean(row[1] ?? "").trim(),
+    }))
+    .filter((card) => card.front && card.back);
+}
@@ -0,0 +1,77 @@
+import { citationLabel } from "@/lib/documents/citations";
+import type { Flashcard } from "@/lib/flashcards/types";
+import {
+  describeCorrectAnswer,
+  optionLetter,
+  shuffledIndices,
+} from "@/lib/quiz/grading";
+import type { Question, QuestionContent } from "@/lib/quiz/types";
+
+const APP_TAG = "wiz-ai";
+
+// Anki tags can't contain spaces
+function tag(text: string) {
+  return text.trim().toLowerCase().replace(/\s+/g, "_");
+}
+
+// The question as the learner would see it, with its options spelled out
+function questionFront(question: QuestionContent) {
+  switch (question.type) {
+    case "single":
+    case "multiple":
+      return [
+        question.question,
+        ...question.options.map((option, index) => `${optionLetter(index)}. ${option}`),
+        ...(question.type === "multiple" ? ["(Choose all that apply)"] : []),
+      ].join("\n");
+    case "true_false":
+      return `True or false? ${question.question}`;
+    case "ordering":
+      return [
+        question.question,
+        ...shuffledIndices(question.items.length, question.question).map(
+          (index) => `- ${question.items[index]}`
+        ),
+      ].join("\n");
+    case "matching": {
+      const rights = shuffledIndices(question.pairs.length, question.question);
+      return [
+        question.question,
+        ...question.pairs.map(({ left }, index) => `${index + 1}. ${left}`),
+        "Match with:",
+        ...rights.map(
+          (pair, index) => `${optionLetter(index) ?? "-"}. ${question.pairs[pair].right}`
+        ),
+      ].join("\n");
+    }
+    default:
+      return question.question;
+  }
+}
+
+// Answer first, then the explanation and where it came from
+function questionBack(question: QuestionContent) {
+  return [
+    describeCorrectAnswer({ ...question, id: 0 } as Question),
+    question.explanation,
+    question.source ? `Source: ${citationLabel(question.source)}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function questionNotes(questions: QuestionContent[]) {
+  return questions.map((question) => ({
+    front: questionFront(question),
+    back: questionBack(question),
+    tags: [...(question.topic ? [tag(question.topic)] : []), APP_TAG],
+  }));
+}
+
+export function cardNotes(cards: Flashcard[]) {
+  return cards.map((card) => ({
+    front: card.front,
+    back: card.back,
+    tags: [APP_TAG],
+  }));
+}
@@ -0,0 +1,61 @@
+import { isOneOf } from "@/lib/api/validate";
+
+export const EXPORT_FORMATS = ["apkg", "csv", "tsv"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// One card to export: plain text, with newlines between lines
+export interface ExportNote {
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+export const MAX_EXPORT_QUESTIONS = 200;
+export const MAX_IMPORT_CHARS = 1_000_000;
+export const MAX_IMPORT_CARDS = 1000;
+const MAX_TITLE_LENGTH = 100;
+
+// Returns an error message, or null when the input is a valid export request.
+// Exports are of a saved flashcard deck, or of a quiz's questions as sent.
+export function validateExportRequest(input: unknown): string | null {
+  const value = input as Record<string, unknown> | null;
+  if (typeof value !== "object" || value === null) return "Invalid export";
+  if (!isOneOf(EXPORT_FORMATS, value.format)) {
+    return `Export as ${EXPORT_FORMATS.join(", ")}`;
+  }
+  if (value.deckId !== undefined) {
+    return typeof value.deckId === "string" ? null : "deckId must be a string";
+  }
+  if (typeof value.title !== "string" || !value.title.trim()) {
+    return "A title is required";
+  }
+  if (value.title.length > MAX_TITLE_LENGTH) {
+    return `Titles must be ${MAX_TITLE_LENGTH} characters or fewer`;
+  }
+  if (!Array.isArray(value.questions) || value.questions.length === 0) {
+    return "There are no questions to export";
+  }
+  if (value.questions.length > MAX_EXPORT_QUESTIONS) {
+    return `Export at most ${MAX_EXPORT_QUESTIONS} questions at a time`;
+  }
+  return null;
+}
+
+export function validateImportRequest(input: unknown): string | null {
+  const value = input as Record<string, unknown> | null;
+  if (typeof value !== "object" || value === null) return "Invalid import";
+  if (typeof value.title !== "string" || !value.title.trim()) {
+    return "Name the deck";
+  }
+  if (value.title.length > MAX_TITLE_LENGTH) {
+    return `Deck names must be ${MAX_TITLE_LENGTH} characters or fewer`;
+  }
+  if (typeof value.content !== "string" || !value.content.trim()) {
+    return "The file is empty";
+  }
+  if (value.content.length > MAX_IMPORT_CHARS) {
+    return "The file is too large to import";
+  }
+  return null;
+}
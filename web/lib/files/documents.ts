@@ -0,0 +1,14 @@
+import { extractDocument } from "@/lib/documents/extract";
+import { indexDocument, isIndexed } from "@/lib/documents/vector-index";
+import { readAll } from "@/lib/storage";
+import type { FileRecord } from "./types";
+
+export async function loadDocument(file: FileRecord) {
+  return extractDocument(await readAll(file.storageKey), file.name);
+}
+
+// Indexes are rebuilt lazily, e.g. after switching embedding providers
+export async function ensureIndexed(file: FileRecord) {
+  if (file.extractionError || (await isIndexed(file.documentId))) return;
+  await indexDocument(await loadDocument(file));
+}
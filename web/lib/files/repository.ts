@@ -0,0 +1,87 @@
+import { getDb } from "@/lib/db";
+import type { FileRecord, FileUpdate } from "./types";
+
+export interface FileRepository {
+  list(userId: string): Promise<FileRecord[]>;
+  get(userId: string, id: string): Promise<FileRecord | null>;
+  create(file: FileRecord): Promise<FileRecord>;
+  update(userId: string, id: string, update: FileUpdate): Promise<FileRecord | null>;
+  delete(userId: string, id: string): Promise<void>;
+}
+
+interface FileRow {
+  id: string;
+  user_id: string;
+  name: string;
+  type: string;
+  size: number;
+  document_id: string;
+  storage_key: string;
+  extraction_error: string | null;
+  course: string | null;
+  created_at: string;
+}
+
+function toRecord(row: FileRow): FileRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    name: row.name,
+    type: row.type,
+    size: row.size,
+    documentId: row.document_id,
+    storageKey: row.storage_key,
+    extractionError: row.extraction_error,
+    course: row.course,
+    createdAt: row.created_at,
+  };
+}
+
+export const sqliteFileRepository: FileRepository = {
+  async list(userId) {
+    const rows = getDb()
+      .prepare("SELECT * FROM files WHERE user_id = ? ORDER BY created_at")
+      .all(userId) as FileRow[];
+    return rows.map(toRecord);
+  },
+
+  async get(userId, id) {
+    const row = getDb()
+      .prepare("SELECT * FROM files WHERE user_id = ? AND id = ?")
+      .get(userId, id) as FileRow | undefined;
+    return row ? toRecord(row) : null;
+  },
+
+  async create(file) {
+    getDb()
+      .prepare(
+        `INSERT INTO files
+          (id, user_id, name, type, size, document_id, storage_key, extraction_error, course, created_at)
+        VALUES
+          (@id, @userId, @name, @type, @size, @documentId, @storageKey, @extractionError, @course, @createdAt)`
+      )
+      .run(file);
+    return file;
+  },
+
+  async update(userId, id, { course }) {
+    const existing = await this.get(userId, id);
+    if (!existing) return null;
+
+    const updated: FileRecord = { ...existing, course: course?.trim() || null };
+    getDb()
+      .prepare("UPDATE files SET course = ? WHERE user_id = ? AND id = ?")
+      .run(updated.course, userId, id);
+    return updated;
+  },
+
+  async delete(userId, id) {
+    getDb()
+      .prepare("DELETE FROM files WHERE user_id = ? AND id = ?")
+      .run(userId, id);
+  },
+};
+
+export function getFileRepository(): FileRepository {
+  return sqliteFileRepository;
+}
@@ -0,0 +1,50 @@
+// What the API returns for an uploaded file
+export interface StoredFile {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  // SHA-256 of the contents; keys the extraction cache and vector index
+  documentId: string;
+  extractionError: string | null;
+  // The course folder the learner filed it under, if any
+  course: string | null;
+  createdAt: string;
+}
+
+export interface FileRecord extends StoredFile {
+  userId: string;
+  storageKey: string;
+}
+
+export function toStoredFile({
+  id,
+  name,
+  type,
+  size,
+  documentId,
+  extractionError,
+  course,
+  createdAt,
+}: FileRecord): StoredFile {
+  return { id, name, type, size, documentId, extractionError, course, createdAt };
+}
+
+export interface FileUpdate {
+  course: string | null;
+}
+
+const MAX_COURSE_LENGTH = 60;
+
+// Returns an error message, or null when the update is valid
+export function validateFileUpdate(input: unknown): string | null {
+  const value = input as FileUpdate | null;
+  if (typeof value !== "object" || value === null) return "Invalid file update";
+  if (value.course !== null && typeof value.course !== "string") {
+    return "Course must be a string";
+  }
+  if (value.course && value.course.trim().length > MAX_COURSE_LENGTH) {
+    return `Course names must be ${MAX_COURSE_LENGTH} characters or fewer`;
+  }
+  return null;
+}
@@ -0,0 +1,96 @@
+import busboy from "busboy";
+import { createHash } from "crypto";
+import { Readable, Transform } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
+import { getStorage } from "@/lib/storage";
+
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+export interface ReceivedFile {
+  name: string;
+  type: string;
+  size: number;
+  hash: string;
+}
+
+export class UploadError extends Error {
+  code: "bad_request" | "payload_too_large";
+
+  constructor(code: UploadError["code"], message: string) {
+    super(message);
+    this.name = "UploadError";
+    this.code = code;
+  }
+}
+
+// Streams the "file" field of a multipart request straight into storage
+// under `key`, hashing it on the way through.
+export function receiveUpload(request: Request, key: string) {
+  if (!request.body) {
+    return Promise.reject(new UploadError("bad_request", "No file provided"));
+  }
+
+  let parser: busboy.Busboy;
+  try {
+    parser = busboy({
+      headers: Object.fromEntries(request.headers),
+      limits: { files: 1, fileSize: MAX_UPLOAD_BYTES },
+    });
+  } catch {
+    return Promise.reject(
+      new UploadError("bad_request", "Expected a multipart form upload")
+    );
+  }
+
+  return new Promise<ReceivedFile>((resolve, reject) => {
+    let upload: Promise<ReceivedFile> | null = null;
+
+    parser.on("file", (field, stream, info) => {
+      if (field !== "file") {
+        stream.resume();
+        return;
+      }
+
+      const hash = createHash("sha256");
+      let size = 0;
+      let truncated = false;
+      stream.on("limit", () => {
+        truncated = true;
+      });
+
+      // Hashes and counts bytes as they pass through to storage
+      const meter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          hash.update(chunk);
+          size += chunk.length;
+          callback(null, chunk);
+        },
+      });
+      stream.on("error", (error) => meter.destroy(error));
+      stream.pipe(meter);
+
+      const type = info.mimeType || "application/octet-stream";
+      upload = getStorage()
+        .put(key, meter, type)
+        .then(async () => {
+          if (truncated) {
+            await getStorage().delete(key);
+            throw new UploadError("payload_too_large", "Files must be 25 MB or smaller");
+          }
+          return { name: info.filename, type, size, hash: hash.digest("hex") };
+        });
+      upload.catch(reject);
+    });
+
+    parser.on("close", () => {
+      if (!upload) {
+        reject(new UploadError("bad_request", "No file provided"));
+        return;
+      }
+      upload.then(resolve, reject);
+    });
+    parser.on("error", reject);
+
+    Readable.fromWeb(request.body as WebReadableStream<Uint8Array>).pipe(parser);
+  });
+}
@@ -0,0 +1,79 @@
+import { extractJson } from "@/lib/quiz/parse";
+import { CARD_KINDS, type CardContent, type CardKind } from "./types";
+
+export interface CardParseResult {
+  cards: CardContent[];
+  errors: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function text(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function parseCard(item: unknown, position: number): CardContent | { error: string } {
+  const label = `Card ${position + 1}`;
+  if (!isRecord(item)) {
+    return { error: `${label} is not an object` };
+  }
+
+  const { kind, front, back } = item;
+  // Models that leave the kind out are nearly always writing term cards
+  const resolvedKind = kind === undefined ? "term" : kind;
+  if (!CARD_KINDS.includes(resolvedKind as CardKind)) {
+    return { error: `${label} has an unknown kind "${String(kind)}"` };
+  }
+  if (!text(front) || !text(back)) {
+    return { error: `${label} needs a non-empty "front" and "back"` };
+  }
+  return { kind: resolvedKind as CardKind, front: text(front), back: text(back) };
+}
+
+// Parses {"cards": [...]} from a model reply, keeping every valid card
+export function parseCards(raw: string): CardParseResult {
+  const json = extractJson(raw);
+  if (!json) {
+    return { cards: [], errors: ["Response did not contain a JSON object"] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return {
+      cards: [],
+      errors: [`Response was not valid JSON: ${(error as Error).message}`],
+    };
+  }
+
+  const items = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.cards)
+      ? data.cards
+      : null;
+  if (!items) {
+    return { cards: [], errors: ['Expected an object with a "cards" array'] };
+  }
+
+  const cards: CardContent[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  items.forEach((item, position) => {
+    const parsed = parseCard(item, position);
+    if ("error" in parsed) {
+      errors.push(parsed.error);
+      return;
+    }
+    const key = parsed.front.toLowerCase();
+    if (seen.has(key)) {
+      errors.push(`Card ${position + 1} repeats an earlier card`);
+      return;
+    }
+    seen.add(key);
+    cards.push(parsed);
+  });
+  return { cards, errors };
+}
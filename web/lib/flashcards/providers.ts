@@ -0,0 +1,123 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { CHAT_MODEL, getLLMProvider, getOpenAI } from "@/lib/llm";
+import { keywords, sentences } from "@/lib/quiz/providers";
+import { parseCards } from "./parse";
+import {
+  FlashcardGenerationError,
+  type CardContent,
+  type FlashcardProvider,
+} from "./types";
+
+const MAX_ATTEMPTS = 2;
+const MAX_CONTENT_CHARS = 12000;
+const MAX_TERM_WORDS = 5;
+
+const SYSTEM_PROMPT = `You are Wiz AI, a tutor who writes flashcards from study material.
+Cover the key terms and ideas the material states, one fact per card, in the learner's words.
+Respond with JSON only, in the shape {"cards": [...]}. Every card has "kind", "front" and "back":
+- "term": "front" is a key term (a few words) and "back" is its definition from the material
+- "qa": "front" is a short question and "back" its answer in one or two sentences
+Mix both kinds, favouring "term" cards for vocabulary-heavy material. Don't repeat a card.`;
+
+function buildPrompt(content: string, count: number, fileName?: string) {
+  return `Write ${count} flashcards about the following material${
+    fileName ? ` from "${fileName}"` : ""
+  }.
+
+--- MATERIAL ---
+${content.slice(0, MAX_CONTENT_CHARS)}
+--- END MATERIAL ---`;
+}
+
+export const openAIFlashcardProvider: FlashcardProvider = {
+  async generateCards({ content, fileName, count }) {
+    const messages: ChatCompletionMessageParam[] = [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: buildPrompt(content, count, fileName) },
+    ];
+    let best: CardContent[] = [];
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const completion = await getOpenAI().chat.completions.create({
+        model: CHAT_MODEL,
+        messages,
+        temperature: 0.4,
+        response_format: { type: "json_object" },
+      });
+      const raw = completion.choices[0]?.message?.content || "";
+      const { cards, errors } = parseCards(raw);
+
+      if (cards.length > best.length) best = cards;
+      if (best.length >= count) break;
+
+      messages.push(
+        { role: "assistant", content: raw },
+        {
+          role: "user",
+          content: `That response had problems:\n${errors
+            .map((error) => `- ${error}`)
+            .join("\n")}\nReturn the full corrected JSON with ${count} valid cards and nothing else.`,
+        }
+      );
+    }
+
+    if (best.length === 0) {
+      throw new FlashcardGenerationError(
+        "The flashcard generator did not return any valid cards"
+      );
+    }
+    return best.slice(0, count);
+  },
+};
+
+// "Osmosis is the movement of water..." -> ["Osmosis", "the movement of water..."]
+export const DEFINITION = /^(?:an?\s+|the\s+)?(.+?)\s+(?:is|are|refers to|means)\s+(.+)$/i;
+
+// Term cards from sentences that define something, and question cards that
+// ask for the key word of the rest, so decks work without calling OpenAI
+export const offlineFlashcardProvider: FlashcardProvider = {
+  async generateCards({ content, count }) {
+    const cards: CardContent[] = [];
+    const seen = new Set<string>();
+
+    for (const sentence of sentences(content)) {
+      if (cards.length >= count) break;
+
+      const definition = DEFINITION.exec(sentence);
+      const term = definition?.[1].trim();
+      if (definition && term && term.split(" ").length <= MAX_TERM_WORDS) {
+        if (seen.has(term.toLowerCase())) continue;
+        seen.add(term.toLowerCase());
+        const meaning = definition[2].replace(/[.!?]$/, "");
+        cards.push({
+          kind: "term",
+          front: term,
+          back: meaning.charAt(0).toUpperCase() + meaning.slice(1),
+        });
+        continue;
+      }
+
+      const answer = keywords(sentence).sort((a, b) => b.length - a.length)[0];
+      if (seen.has(answer.toLowerCase())) continue;
+      seen.add(answer.toLowerCase());
+      cards.push({
+        kind: "qa",
+        front: `What word completes this? "${sentence.replace(answer, "_____")}"`,
+        back: answer,
+      });
+    }
+
+    if (cards.length === 0) {
+      throw new FlashcardGenerationError(
+        "The material does not contain enough text to build flashcards"
+      );
+    }
+    return cards;
+  },
+};
+
+export function getFlashcardProvider(): FlashcardProvider {
+  return getLLMProvider() === "offline"
+    ? offlineFlashcardProvider
+    : openAIFlashcardProvider;
+}
@@ -0,0 +1,274 @@
+import { randomUUID } from "crypto";
+import { getDb } from "@/lib/db";
+import { INITIAL_EASE, schedule } from "@/lib/reviews/sm2";
+import {
+  RATING_GRADES,
+  type CardContent,
+  type CardRating,
+  type DeckInput,
+  type Flashcard,
+  type FlashcardDeck,
+} from "./types";
+
+export interface FlashcardRepository {
+  // Newest first, with card and due counts
+  listDecks(userId: string, now?: Date): Promise<FlashcardDeck[]>;
+  getDeck(userId: string, id: string, now?: Date): Promise<FlashcardDeck | null>;
+  // In deck order
+  cards(userId: string, deckId: string): Promise<Flashcard[]>;
+  createDeck(userId: string, input: DeckInput, now?: Date): Promise<FlashcardDeck>;
+  // Deletes return false when there was no such deck or card
+  deleteDeck(userId: string, id: string): Promise<boolean>;
+  addCard(userId: string, deckId: string, card: CardContent, now?: Date): Promise<Flashcard | null>;
+  updateCard(userId: string, deckId: string, cardId: string, card: CardContent): Promise<Flashcard | null>;
+  deleteCard(userId: string, deckId: string, cardId: string): Promise<boolean>;
+  // Records a self-grade and reschedules the card
+  rateCard(
+    userId: string,
+    deckId: string,
+    cardId: string,
+    rating: CardRating,
+    now?: Date
+  ): Promise<Flashcard | null>;
+}
+
+interface DeckRow {
+  id: string;
+  file_id: string | null;
+  file_name: string | null;
+  title: string;
+  card_count: number;
+  due_count: number;
+  created_at: string;
+}
+
+interface CardRow {
+  id: string;
+  deck_id: string;
+  position: number;
+  kind: Flashcard["kind"];
+  front: string;
+  back: string;
+  repetitions: number;
+  ease: number;
+  interval_days: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+  created_at: string;
+}
+
+function toDeck(row: DeckRow): FlashcardDeck {
+  return {
+    id: row.id,
+    fileId: row.file_id,
+    fileName: row.file_name,
+    title: row.title,
+    cardCount: row.card_count,
+    dueCount: row.due_count,
+    createdAt: row.created_at,
+  };
+}
+
+function toCard(row: CardRow): Flashcard {
+  return {
+    id: row.id,
+    deckId: row.deck_id,
+    position: row.position,
+    kind: row.kind,
+    front: row.front,
+    back: row.back,
+    repetitions: row.repetitions,
+    ease: row.ease,
+    intervalDays: row.interval_days,
+    dueAt: row.due_at,
+    lastReviewedAt: row.last_reviewed_at,
+    createdAt: row.created_at,
+  };
+}
+
+const DECK_QUERY = `SELECT flashcard_decks.*,
+    COUNT(flashcards.id) AS card_count,
+    COALESCE(SUM(flashcards.due_at <= @now), 0) AS due_count
+  FROM flashcard_decks
+  LEFT JOIN flashcards ON flashcards.deck_id = flashcard_decks.id
+  WHERE flashcard_decks.user_id = @userId`;
+
+// Card queries check the deck belongs to the learner
+function getCard(userId: string, deckId: string, cardId: string) {
+  const row = getDb()
+    .prepare(
+      `SELECT flashcards.* FROM flashcards
+      JOIN flashcard_decks ON flashcard_decks.id = flashcards.deck_id
+      WHERE flashcard_decks.user_id = ? AND flashcards.deck_id = ? AND flashcards.id = ?`
+    )
+    .get(userId, deckId, cardId) as CardRow | undefined;
+  return row ?? null;
+}
+
+function insertCard(deckId: string, position: number, card: CardContent, now: string) {
+  const row: CardRow = {
+    id: randomUUID(),
+    deck_id: deckId,
+    position,
+    kind: card.kind,
+    front: card.front.trim(),
+    back: card.back.trim(),
+    repetitions: 0,
+    ease: INITIAL_EASE,
+    interval_days: 0,
+    // New cards are due straight away
+    due_at: now,
+    last_reviewed_at: null,
+    created_at: now,
+  };
+  getDb()
+    .prepare(
+      `INSERT INTO flashcards
+        (id, deck_id, position, kind, front, back, repetitions, ease,
+         interval_days, due_at, last_reviewed_at, created_at)
+      VALUES
+        (@id, @deck_id, @position, @kind, @front, @back, @repetitions, @ease,
+         @interval_days, @due_at, @last_reviewed_at, @created_at)`
+    )
+    .run(row);
+  return row;
+}
+
+export const sqliteFlashcardRepository: FlashcardRepository = {
+  async listDecks(userId, now = new Date()) {
+    const rows = getDb()
+      .prepare(
+        `${DECK_QUERY}
+        GROUP BY flashcard_decks.id
+        ORDER BY flashcard_decks.created_at DESC`
+      )
+      .all({ userId, now: now.toISOString() }) as DeckRow[];
+    return rows.map(toDeck);
+  },
+
+  async getDeck(userId, id, now = new Date()) {
+    const row = getDb()
+      .prepare(
+        `${DECK_QUERY} AND flashcard_decks.id = @id
+        GROUP BY flashcard_decks.id`
+      )
+      .get({ userId, id, now: now.toISOString() }) as DeckRow | undefined;
+    return row ? toDeck(row) : null;
+  },
+
+  async cards(userId, deckId) {
+    const rows = getDb()
+      .prepare(
+        `SELECT flashcards.* FROM flashcards
+        JOIN flashcard_decks ON flashcard_decks.id = flashcards.deck_id
+        WHERE flashcard_decks.user_id = ? AND flashcards.deck_id = ?
+        ORDER BY flashcards.position`
+      )
+      .all(userId, deckId) as CardRow[];
+    return rows.map(toCard);
+  },
+
+  async createDeck(userId, input, now = new Date()) {
+    const db = getDb();
+    const id = randomUUID();
+    const createdAt = now.toISOString();
+
+    db.transaction(() => {
+      db.prepare(
+        `INSERT INTO flashcard_decks (id, user_id, file_id, file_name, title, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)`
+      ).run(id, userId, input.fileId, input.fileName, input.title.trim(), createdAt);
+      input.cards.forEach((card, position) =>
+        insertCard(id, position, card, createdAt)
+      );
+    })();
+
+    return (await this.getDeck(userId, id, now))!;
+  },
+
+  async deleteDeck(userId, id) {
+    const result = getDb()
+      .prepare("DELETE FROM flashcard_decks WHERE user_id = ? AND id = ?")
+      .run(userId, id);
+    return result.changes > 0;
+  },
+
+  async addCard(userId, deckId, card, now = new Date()) {
+    const db = getDb();
+    const deck = db
+      .prepare("SELECT id FROM flashcard_decks WHERE user_id = ? AND id = ?")
+      .get(userId, deckId);
+    if (!deck) return null;
+
+    const { next } = db
+      .prepare(
+        "SELECT COALESCE(MAX(position), -1) + 1 AS next FROM flashcards WHERE deck_id = ?"
+      )
+      .get(deckId) as { next: number };
+    return toCard(insertCard(deckId, next, card, now.toISOString()));
+  },
+
+  async updateCard(userId, deckId, cardId, { kind, front, back }) {
+    const existing = getCard(userId, deckId, cardId);
+    if (!existing) return null;
+
+    const updated: CardRow = {
+      ...existing,
+      kind,
+      front: front.trim(),
+      back: back.trim(),
+    };
+    getDb()
+      .prepare("UPDATE flashcards SET kind = ?, front = ?, back = ? WHERE id = ?")
+      .run(updated.kind, updated.front, updated.back, cardId);
+    return toCard(updated);
+  },
+
+  async deleteCard(userId, deckId, cardId) {
+    if (!getCard(userId, deckId, cardId)) return false;
+    getDb().prepare("DELETE FROM flashcards WHERE id = ?").run(cardId);
+    return true;
+  },
+
+  async rateCard(userId, deckId, cardId, rating, now = new Date()) {
+    const existing = getCard(userId, deckId, cardId);
+    if (!existing) return null;
+
+    const state = schedule(
+      {
+        repetitions: existing.repetitions,
+        ease: existing.ease,
+        intervalDays: existing.interval_days,
+      },
+      RATING_GRADES[rating],
+      now
+    );
+    const updated: CardRow = {
+      ...existing,
+      repetitions: state.repetitions,
+      ease: state.ease,
+      interval_days: state.intervalDays,
+      due_at: state.dueAt,
+      last_reviewed_at: now.toISOString(),
+    };
+    getDb()
+      .prepare(
+        `UPDATE flashcards
+        SET repetitions = ?, ease = ?, interval_days = ?, due_at = ?, last_reviewed_at = ?
+        WHERE id = ?`
+      )
+      .run(
+        updated.repetitions,
+        updated.ease,
+        updated.interval_days,
+        updated.due_at,
+        updated.last_reviewed_at,
+        cardId
+      );
+    return toCard(updated);
+  },
+};
+
+export function getFlashcardRepository(): FlashcardRepository {
+  return sqliteFlashcardRepository;
+}
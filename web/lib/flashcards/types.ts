@@ -0,0 +1,112 @@
+import { isOneOf } from "@/lib/api/validate";
+import type { ReviewState } from "@/lib/reviews/types";
+
+// Term/definition cards and question/answer cards
+export const CARD_KINDS = ["term", "qa"] as const;
+export const CARD_RATINGS = ["again", "hard", "good", "easy"] as const;
+
+export type CardKind = (typeof CARD_KINDS)[number];
+export type CardRating = (typeof CARD_RATINGS)[number];
+
+// The SM-2 grade (0-5) each self-grade stands for
+export const RATING_GRADES: Record<CardRating, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const MIN_CARD_COUNT = 5;
+export const MAX_CARD_COUNT = 40;
+export const DEFAULT_CARD_COUNT = 20;
+const MAX_CARD_TEXT_LENGTH = 1000;
+
+export interface CardContent {
+  kind: CardKind;
+  front: string;
+  back: string;
+}
+
+export interface Flashcard extends CardContent, ReviewState {
+  id: string;
+  deckId: string;
+  position: number;
+  lastReviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface FlashcardDeck {
+  id: string;
+  // The document the cards were generated from
+  fileId: string | null;
+  fileName: string | null;
+  title: string;
+  cardCount: number;
+  dueCount: number;
+  createdAt: string;
+}
+
+export interface DeckInput {
+  fileId: string | null;
+  fileName: string | null;
+  title: string;
+  cards: CardContent[];
+}
+
+export interface CardGenerationInput {
+  content: string;
+  fileName?: string;
+  count: number;
+}
+
+export interface FlashcardProvider {
+  generateCards(input: CardGenerationInput): Promise<CardContent[]>;
+}
+
+export class FlashcardGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FlashcardGenerationError";
+  }
+}
+
+// Returns an error message, or null when the input is a valid card
+export function validateCardContent(input: unknown): string | null {
+  const value = input as Partial<CardContent> | null;
+  if (typeof value !== "object" || value === null) return "Invalid card";
+  if (!isOneOf(CARD_KINDS, value.kind)) return "Select a valid card kind";
+  for (const side of ["front", "back"] as const) {
+    const text = value[side];
+    if (typeof text !== "string" || !text.trim()) {
+      return `The ${side} of the card can't be empty`;
+    }
+    if (text.length > MAX_CARD_TEXT_LENGTH) {
+      return `Each side must be ${MAX_CARD_TEXT_LENGTH} characters or fewer`;
+    }
+  }
+  return null;
+}
+
+export function validateDeckRequest(input: unknown): string | null {
+  const value = input as { fileId?: unknown; count?: unknown } | null;
+  if (typeof value !== "object" || value === null) return "Invalid deck";
+  if (typeof value.fileId !== "string") return "Choose a document";
+  if (
+    value.count !== undefined &&
+    (!Number.isInteger(value.count) ||
+      (value.count as number) < MIN_CARD_COUNT ||
+      (value.count as number) > MAX_CARD_COUNT)
+  ) {
+    return `Choose between ${MIN_CARD_COUNT} and ${MAX_CARD_COUNT} cards`;
+  }
+  return null;
+}
+
+export function validateCardRating(input: unknown): string | null {
+  const value = input as { rating?: unknown } | null;
+  if (typeof value !== "object" || value === null) return "Invalid rating";
+  if (!isOneOf(CARD_RATINGS, value.rating)) {
+    return `Rate the card ${CARD_RATINGS.join(", ")}`;
+  }
+  return null;
+}
@@ -0,0 +1,21 @@
+import OpenAI from "openai";
+
+export type LLMProvider = "openai" | "offline";
+
+export const CHAT_MODEL = process.env.OPENAI_CHAT_MODEL || "gpt-3.5-turbo";
+
+let client: OpenAI | null = null;
+
+// Set LLM_PROVIDER=offline to run without an OpenAI key (local dev and tests)
+export function getLLMProvider(): LLMProvider {
+  return process.env.LLM_PROVIDER === "offline" ? "offline" : "openai";
+}
+
+export function getOpenAI() {
+  if (!client) {
+    client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return client;
+}
@@ -0,0 +1,4 @@
+import path from "path";
+
+// Everything the server persists (indexes, database, uploads) lives here
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), "data");
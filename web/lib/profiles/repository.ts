@@ -0,0 +1,61 @@
+import { getDb } from "@/lib/db";
+import type { Profile, ProfileInput } from "./types";
+
+export interface ProfileRepository {
+  get(userId: string): Promise<Profile | null>;
+  upsert(userId: string, input: ProfileInput): Promise<Profile>;
+}
+
+interface ProfileRow {
+  user_id: string;
+  name: string;
+  study_level: Profile["studyLevel"];
+  main_subject: Profile["mainSubject"];
+  learning_style: Profile["learningStyle"];
+  created_at: string;
+  updated_at: string;
+}
+
+function toProfile(row: ProfileRow): Profile {
+  return {
+    userId: row.user_id,
+    name: row.name,
+    studyLevel: row.study_level,
+    mainSubject: row.main_subject,
+    learningStyle: row.learning_style,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const sqliteProfileRepository: ProfileRepository = {
+  async get(userId) {
+    const row = getDb()
+      .prepare("SELECT * FROM profiles WHERE user_id = ?")
+      .get(userId) as ProfileRow | undefined;
+    return row ? toProfile(row) : null;
+  },
+
+  async upsert(userId, input) {
+    const now = new Date().toISOString();
+    getDb()
+      .prepare(
+        `INSERT INTO profiles
+          (user_id, name, study_level, main_subject, learning_style, created_at, updated_at)
+        VALUES (@userId, @name, @studyLevel, @mainSubject, @learningStyle, @now, @now)
+        ON CONFLICT (user_id) DO UPDATE SET
+          name = excluded.name,
+          study_level = excluded.study_level,
+          main_subject = excluded.main_subject,
+          learning_style = excluded.learning_style,
+          updated_at = excluded.updated_at`
+      )
+      .run({ userId, ...input, name: input.name.trim(), now });
+
+    return (await this.get(userId))!;
+  },
+};
+
+export function getProfileRepository(): ProfileRepository {
+  return sqliteProfileRepository;
+}
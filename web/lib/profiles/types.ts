@@ -0,0 +1,46 @@
+import { isOneOf } from "@/lib/api/validate";
+
+export const STUDY_LEVELS = ["undergraduate", "graduate", "phd", "professional"] as const;
+
+export const SUBJECTS = [
+  "computerScience",
+  "engineering",
+  "mathematics",
+  "physics",
+  "biology",
+  "business",
+  "other",
+] as const;
+
+export const LEARNING_STYLES = ["visual", "auditory", "reading", "kinesthetic"] as const;
+
+export type StudyLevel = (typeof STUDY_LEVELS)[number];
+export type Subject = (typeof SUBJECTS)[number];
+export type LearningStyle = (typeof LEARNING_STYLES)[number];
+
+export interface ProfileInput {
+  name: string;
+  studyLevel: StudyLevel;
+  mainSubject: Subject;
+  learningStyle: LearningStyle;
+}
+
+export interface Profile extends ProfileInput {
+  userId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Returns an error message, or null when the input is a valid profile
+export function validateProfileInput(input: unknown): string | null {
+  const value = input as Partial<ProfileInput> | null;
+  if (typeof value !== "object" || value === null) return "Invalid profile";
+  if (typeof value.name !== "string" || !value.name.trim()) return "Name is required";
+  if (value.name.length > 100) return "Name must be 100 characters or fewer";
+  if (!isOneOf(STUDY_LEVELS, value.studyLevel)) return "Select a valid study level";
+  if (!isOneOf(SUBJECTS, value.mainSubject)) return "Select a valid main subject";
+  if (!isOneOf(LEARNING_STYLES, value.learningStyle)) {
+    return "Select a valid learning style";
+  }
+  return null;
+}
@@ -0,0 +1,35 @@
+import type { NewChat } from "@/lib/conversations/types";
+import { describeAnswer, describeCorrectAnswer } from "./grading";
+import type { Question, QuizAnswer } from "./types";
+
+const MAX_TITLE_QUESTION_CHARS = 60;
+
+// Hands a quiz question to Wiz AI, grounded in the document it came from
+export function explainInChat(
+  question: Question,
+  answer: QuizAnswer,
+  correct: boolean
+): NewChat {
+  const given = describeAnswer(question, answer) || "(no answer)";
+  const title =
+    question.question.length > MAX_TITLE_QUESTION_CHARS
+      ? `${question.question.slice(0, MAX_TITLE_QUESTION_CHARS).trimEnd()}...`
+      : question.question;
+
+  return {
+    title: `Quiz: ${title}`,
+    fileIds: question.source ? [question.source.fileId] : undefined,
+    message: `${
+      correct
+        ? "I got this quiz question right, but I'd like to understand it better."
+        : "I got this quiz question wrong. Can you help me understand why?"
+    }
+
+Question: ${question.question}
+My answer: ${given}
+Correct answer: ${describeCorrectAnswer(question)}
+Explanation: ${question.explanation}
+
+Please explain the idea behind it in more depth, using my materials.`,
+  };
+}
@@ -0,0 +1,192 @@
+import type { GradeResult, Question, QuizAnswer } from "./types";
+
+const LETTERS = ["A", "B", "C", "D", "E", "F"];
+
+export function normalizeAnswer(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .replace(/[^a-z0-9\s.]/g, " ")
+    .replace(/\.(?!\d)/g, " ")
+    .replace(/^\s*(?:a|an|the)\s+/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function result(score: number): GradeResult {
+  return { correct: score === 1, score };
+}
+
+// Deterministic shuffle so a question looks the same on every render; never
+// returns the original order when there is more than one item
+export function shuffledIndices(count: number, seed: string) {
+  let state = 0;
+  for (const char of seed) state = (state * 31 + char.charCodeAt(0)) >>> 0;
+  const next = () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+
+  const indices = Array.from({ length: count }, (_, index) => index);
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  if (count > 1 && indices.every((value, index) => value === index)) {
+    indices.push(indices.shift()!);
+  }
+  return indices;
+}
+
+// The answer a question starts with before the learner touches it
+export function initialAnswer(question: Question): QuizAnswer | null {
+  switch (question.type) {
+    case "ordering":
+      return {
+        type: "ordering",
+        order: shuffledIndices(question.items.length, question.question),
+      };
+    case "matching":
+      return {
+        type: "matching",
+        matches: question.pairs.map(() => -1),
+      };
+    default:
+      return null;
+  }
+}
+
+export function isAnswerComplete(answer: QuizAnswer | null) {
+  if (!answer) return false;
+  switch (answer.type) {
+    case "multiple":
+      return answer.choices.length > 0;
+    case "fill_blank":
+    case "short_answer":
+      return answer.text.trim().length > 0;
+    case "matching":
+      return answer.matches.every((match) => match !== -1);
+    default:
+      return true;
+  }
+}
+
+// Grades every kind except short answers, which need the LLM. Returns null
+// for those.
+export function gradeLocally(
+  question: Question,
+  answer: QuizAnswer
+): GradeResult | null {
+  switch (question.type) {
+    case "single":
+      return result(
+        answer.type === "single" && answer.choice === question.correctAnswer
+          ? 1
+          : 0
+      );
+    case "multiple": {
+      if (answer.type !== "multiple") return result(0);
+      // Wrong picks cancel out right ones so selecting everything scores 0
+      const hits = answer.choices.filter((choice) =>
+        question.correctAnswers.includes(choice)
+      ).length;
+      const misses = answer.choices.length - hits;
+      return result(
+        Math.max(0, hits - misses) / question.correctAnswers.length
+      );
+    }
+    case "true_false":
+      return result(
+        answer.type === "true_false" && answer.value === question.correctAnswer
+          ? 1
+          : 0
+      );
+    case "fill_blank": {
+      if (answer.type !== "fill_blank") return result(0);
+      const given = normalizeAnswer(answer.text);
+      return result(
+        question.acceptedAnswers.some(
+          (accepted) => normalizeAnswer(accepted) === given
+        )
+          ? 1
+          : 0
+      );
+    }
+    case "ordering": {
+      if (answer.type !== "ordering") return result(0);
+      const inPlace = answer.order.filter((item, index) => item === index);
+      return result(inPlace.length / question.items.length);
+    }
+    case "matching": {
+      if (answer.type !== "matching") return result(0);
+      const matched = answer.matches.filter((match, index) => match === index);
+      return result(matched.length / question.pairs.length);
+    }
+    case "short_answer":
+      return null;
+  }
+}
+
+// The correct answer in words, for feedback and explanations
+export function describeCorrectAnswer(question: Question) {
+  switch (question.type) {
+    case "single":
+      return `${LETTERS[question.correctAnswer]}: ${
+        question.options[question.correctAnswer]
+      }`;
+    case "multiple":
+      return question.correctAnswers
+        .map((index) => `${LETTERS[index]}: ${question.options[index]}`)
+        .join("; ");
+    case "true_false":
+      return question.correctAnswer ? "True" : "False";
+    case "fill_blank":
+      return question.acceptedAnswers[0];
+    case "short_answer":
+      return question.sampleAnswer;
+    case "ordering":
+      return question.items.join(", then ");
+    case "matching":
+      return question.pairs
+        .map(({ left, right }) => `${left} - ${right}`)
+        .join("; ");
+  }
+}
+
+// What the learner answered, in the same words as describeCorrectAnswer
+export function describeAnswer(question: Question, answer: QuizAnswer) {
+  switch (answer.type) {
+    case "single":
+      return question.type === "single"
+        ? `${LETTERS[answer.choice]}: ${question.options[answer.choice]}`
+        : "";
+    case "multiple":
+      return question.type === "multiple"
+        ? answer.choices
+            .map((index) => `${LETTERS[index]}: ${question.options[index]}`)
+            .join("; ")
+        : "";
+    case "true_false":
+      return answer.value ? "True" : "False";
+    case "fill_blank":
+    case "short_answer":
+      return answer.text.trim();
+    case "ordering":
+      return question.type === "ordering"
+        ? answer.order.map((index) => question.items[index]).join(", then ")
+        : "";
+    case "matching":
+      return question.type === "matching"
+        ? question.pairs
+            .map(
+              ({ left }, index) =>
+                `${left} - ${question.pairs[answer.matches[index]]?.right ?? "?"}`
+            )
+            .join("; ")
+        : "";
+  }
+}
+
+export function optionLetter(index: number) {
+  return LETTERS[index];
+}
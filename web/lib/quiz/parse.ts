@@ -0,0 +1,314 @@
+import {
+  QUESTION_TYPES,
+  type Question,
+  type GradeResult,
+  type QuestionContent,
+  type QuestionSource,
+  type QuestionType,
+} from "./types";
+import { MAX_EXCERPT_CHARS } from "./sources";
+
+export interface ParseResult {
+  questions: Question[];
+  errors: string[];
+}
+
+// Pulls the JSON payload out of a model reply, tolerating code fences and
+// chatter before or after the object.
+export function extractJson(raw: string) {
+  const unfenced = raw.replace(/```(?:json)?/gi, "").trim();
+  const start = unfenced.search(/[[{]/);
+  if (start === -1) return null;
+
+  const closing = unfenced[start] === "{" ? "}" : "]";
+  const end = unfenced.lastIndexOf(closing);
+  if (end <= start) return null;
+
+  return unfenced.slice(start, end + 1);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Models sometimes answer with a letter ("B"), the option text, or a numeric
+// string instead of the zero-based index we ask for.
+function resolveCorrectAnswer(value: unknown, options: string[]) {
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return value >= 0 && value < options.length ? value : null;
+  }
+  if (typeof value !== "string") return null;
+
+  const answer = value.trim();
+  if (/^\d+$/.test(answer)) {
+    return resolveCorrectAnswer(parseInt(answer, 10), options);
+  }
+  if (/^[A-Za-z]$/.test(answer)) {
+    const index = answer.toUpperCase().charCodeAt(0) - 65;
+    return index < options.length ? index : null;
+  }
+
+  const index = options.findIndex(
+    (option) => option.toLowerCase() === answer.toLowerCase()
+  );
+  return index === -1 ? null : index;
+}
+
+function parseStrings(values: unknown[]) {
+  return values
+    .filter((value): value is string | number => {
+      return typeof value === "string" || typeof value === "number";
+    })
+    .map((value) => String(value).trim())
+    .filter(Boolean);
+}
+
+function distinct(values: string[]) {
+  return new Set(values.map((value) => value.toLowerCase())).size === values.length;
+}
+
+function parseOptions(
+  value: unknown,
+  label: string
+): { options: string[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: `${label} must have an "options" array` };
+  }
+  const options = parseStrings(value);
+  if (options.length < 2) {
+    return { error: `${label} needs at least two non-empty options` };
+  }
+  if (!distinct(options)) {
+    return { error: `${label} has duplicate options` };
+  }
+  return { options };
+}
+
+function parseBoolean(value: unknown) {
+  if (typeof value === "boolean") return value;
+  if (typeof value !== "string") return null;
+  const answer = value.trim().toLowerCase();
+  return answer === "true" ? true : answer === "false" ? false : null;
+}
+
+function text(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+type ParsedQuestion = QuestionContent | { error: string };
+
+function parseKind(item: unknown, position: number): ParsedQuestion {
+  const label = `Question ${position + 1}`;
+  if (!isRecord(item)) {
+    return { error: `${label} is not an object` };
+  }
+
+  const type = item.type;
+  if (!QUESTION_TYPES.includes(type as QuestionType)) {
+    return {
+      error: `${label} has an unknown "type" (expected one of ${QUESTION_TYPES.join(", ")})`,
+    };
+  }
+
+  const question = text(item.question);
+  if (!question) {
+    return { error: `${label} is missing the "question" text` };
+  }
+
+  const explanation = text(item.explanation);
+  if (!explanation) {
+    return { error: `${label} is missing an "explanation"` };
+  }
+
+  switch (type as QuestionType) {
+    case "single": {
+      const parsed = parseOptions(item.options, label);
+      if ("error" in parsed) return parsed;
+      const { options } = parsed;
+
+      const correctAnswer = resolveCorrectAnswer(item.correctAnswer, options);
+      if (correctAnswer === null) {
+        return {
+          error: `${label} has a "correctAnswer" that is not a valid option index (0-${options.length - 1})`,
+        };
+      }
+      return { type: "single", question, options, correctAnswer, explanation };
+    }
+
+    case "multiple": {
+      const parsed = parseOptions(item.options, label);
+      if ("error" in parsed) return parsed;
+      const { options } = parsed;
+
+      const answers = Array.isArray(item.correctAnswers)
+        ? item.correctAnswers.map((value) => resolveCorrectAnswer(value, options))
+        : [];
+      if (answers.length === 0 || answers.includes(null)) {
+        return {
+          error: `${label} needs a "correctAnswers" array of valid option indexes (0-${options.length - 1})`,
+        };
+      }
+      const correctAnswers = Array.from(new Set(answers as number[])).sort(
+        (a, b) => a - b
+      );
+      return { type: "multiple", question, options, correctAnswers, explanation };
+    }
+
+    case "true_false": {
+      const correctAnswer = parseBoolean(item.correctAnswer);
+      if (correctAnswer === null) {
+        return { error: `${label} needs a true or false "correctAnswer"` };
+      }
+      return { type: "true_false", question, correctAnswer, explanation };
+    }
+
+    case "fill_blank": {
+      if (!/_{3,}/.test(question)) {
+        return { error: `${label} needs a "_____" blank in the question` };
+      }
+      const acceptedAnswers = Array.isArray(item.acceptedAnswers)
+        ? parseStrings(item.acceptedAnswers)
+        : [];
+      if (acceptedAnswers.length === 0) {
+        return { error: `${label} needs an "acceptedAnswers" array` };
+      }
+      return {
+        type: "fill_blank",
+        question: question.replace(/_{3,}/g, "_____"),
+        acceptedAnswers,
+        explanation,
+      };
+    }
+
+    case "short_answer": {
+      const rubric = text(item.rubric);
+      const sampleAnswer = text(item.sampleAnswer);
+      if (!rubric || !sampleAnswer) {
+        return { error: `${label} needs a "rubric" and a "sampleAnswer"` };
+      }
+      return { type: "short_answer", question, rubric, sampleAnswer, explanation };
+    }
+
+    case "ordering": {
+      const items = Array.isArray(item.items) ? parseStrings(item.items) : [];
+      if (items.length < 2 || !distinct(items)) {
+        return { error: `${label} needs an "items" array of at least two distinct steps` };
+      }
+      return { type: "ordering", question, items, explanation };
+    }
+
+    case "matching": {
+      const pairs = Array.isArray(item.pairs)
+        ? item.pairs
+            .filter(isRecord)
+            .map((pair) => ({ left: text(pair.left), right: text(pair.right) }))
+            .filter((pair) => pair.left && pair.right)
+        : [];
+      if (
+        pairs.length < 2 ||
+        !distinct(pairs.map((pair) => pair.left)) ||
+        !distinct(pairs.map((pair) => pair.right))
+      ) {
+        return {
+          error: `${label} needs a "pairs" array of at least two distinct {"left", "right"} pairs`,
+        };
+      }
+      return { type: "matching", question, pairs, explanation };
+    }
+  }
+}
+
+// Sources are attached by the server, so a malformed one is dropped rather
+// than failing the question
+function parseSource(value: unknown): QuestionSource | null {
+  if (!isRecord(value) || !isRecord(value.location)) return null;
+  const { fileId, fileName, location } = value;
+  if (typeof fileId !== "string" || typeof fileName !== "string") return null;
+  if (
+    !["page", "slide", "text"].includes(location.kind as string) ||
+    !Number.isInteger(location.number)
+  ) {
+    return null;
+  }
+  const excerpt = text(value.excerpt).slice(0, MAX_EXCERPT_CHARS);
+  return {
+    fileId,
+    fileName,
+    location: {
+      kind: location.kind as QuestionSource["location"]["kind"],
+      number: location.number as number,
+    },
+    ...(excerpt ? { excerpt } : {}),
+  };
+}
+
+// Validates one question of any kind
+export function parseQuestion(item: unknown, position: number): ParsedQuestion {
+  const parsed = parseKind(item, position);
+  if ("error" in parsed || !isRecord(item)) return parsed;
+
+  const topic = text(item.topic);
+  const source = parseSource(item.source);
+  return {
+    ...parsed,
+    ...(topic ? { topic } : {}),
+    ...(source ? { source } : {}),
+  };
+}
+
+export function parseQuestions(raw: string): ParseResult {
+  const json = extractJson(raw);
+  if (!json) {
+    return { questions: [], errors: ["Response did not contain a JSON object"] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return {
+      questions: [],
+      errors: [`Response was not valid JSON: ${(error as Error).message}`],
+    };
+  }
+
+  const items = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.questions)
+      ? data.questions
+      : null;
+  if (!items) {
+    return { questions: [], errors: ['Expected an object with a "questions" array'] };
+  }
+
+  const questions: Question[] = [];
+  const errors: string[] = [];
+  items.forEach((item, index) => {
+    const parsed = parseQuestion(item, index);
+    if ("error" in parsed) {
+      errors.push(parsed.error);
+    } else {
+      questions.push({ id: questions.length + 1, ...parsed });
+    }
+  });
+
+  return { questions, errors };
+}
+
+// Reads a {"score", "feedback"} grade from a model reply; correctness is left
+// to the caller
+export function parseGrade(raw: string): Omit<GradeResult, "correct"> | null {
+  const json = extractJson(raw);
+  if (!json) return null;
+
+  try {
+    const data: unknown = JSON.parse(json);
+    if (!isRecord(data) || typeof data.score !== "number") return null;
+    return {
+      score: Math.min(Math.max(data.score, 0), 1),
+      feedback: text(data.feedback) || undefined,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { gradeLocally } from "./grading";
+import { getQuizProvider, offlineQuizProvider } from "./providers";
+import { DEFAULT_QUIZ_SETTINGS } from "./settings";
+import {
+  QuizGenerationError,
+  type Question,
+  type QuizAnswer,
+  type QuizGenerationInput,
+} from "./types";
+
+const MATERIAL = `Photosynthesis converts light energy into chemical energy inside chloroplasts.
+Chlorophyll absorbs mostly blue and red wavelengths of visible light.
+The light-dependent reactions split water molecules and release oxygen as a byproduct.
+The Calvin cycle fixes atmospheric carbon dioxide into three-carbon sugars.
+Stomata on the leaf surface regulate the exchange of gases with the atmosphere.
+Mitochondria release the stored energy through cellular respiration in every living cell.
+Glucose produced by plants feeds nearly every food chain on the planet.
+Temperature and carbon dioxide concentration both limit the overall photosynthesis rate.`;
+
+function input(overrides: Partial<QuizGenerationInput> = {}): QuizGenerationInput {
+  const { count, difficulty, bloomLevel, questionTypes } = DEFAULT_QUIZ_SETTINGS;
+  return {
+    count,
+    difficulty,
+    bloomLevel,
+    questionTypes,
+    content: MATERIAL,
+    fileName: "biology.txt",
+    ...overrides,
+  };
+}
+
+// The answer the question's own key says is right
+function correctAnswer(question: Question): QuizAnswer {
+  switch (question.type) {
+    case "single":
+      return { type: "single", choice: question.correctAnswer };
+    case "true_false":
+      return { type: "true_false", value: question.correctAnswer };
+    case "fill_blank":
+      return { type: "fill_blank", text: question.acceptedAnswers[0] };
+    case "ordering":
+      return { type: "ordering", order: question.items.map((_, index) => index) };
+    default:
+      throw new Error(`Unexpected ${question.type} question`);
+  }
+}
+
+describe("offlineQuizProvider", () => {
+  it("writes the requested number of questions, numbered from 1", async () => {
+    const questions = await offlineQuizProvider.generateQuestions(input({ count: 4 }));
+
+    expect(questions).toHaveLength(4);
+    expect(questions.map((question) => question.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("writes the same quiz for the same material", async () => {
+    const first = await offlineQuizProvider.generateQuestions(input());
+    const second = await offlineQuizProvider.generateQuestions(input());
+
+    expect(second).toEqual(first);
+  });
+
+  it("only writes the requested kinds of question", async () => {
+    const questions = await offlineQuizProvider.generateQuestions(
+      input({ count: 6, questionTypes: ["true_false", "fill_blank"] })
+    );
+
+    expect(new Set(questions.map((question) => question.type))).toEqual(
+      new Set(["true_false", "fill_blank"])
+    );
+  });
+
+  it("falls back to single-choice for kinds it can't write", async () => {
+    const questions = await offlineQuizProvider.generateQuestions(
+      input({ count: 3, questionTypes: ["matching", "short_answer"] })
+    );
+
+    expect(questions.every((question) => question.type === "single")).toBe(true);
+  });
+
+  it("writes questions whose answer key grades as correct", async () => {
+    const questions = await offlineQuizProvider.generateQuestions(
+      input({ count: 8, questionTypes: ["single", "true_false", "fill_blank", "ordering"] })
+    );
+
+    for (const question of questions) {
+      expect(gradeLocally(question, correctAnswer(question))?.correct).toBe(true);
+    }
+  });
+
+  it("refuses material too short to quiz on", async () => {
+    await expect(
+      offlineQuizProvider.generateQuestions(input({ content: "Too short." }))
+    ).rejects.toBeInstanceOf(QuizGenerationError);
+  });
+
+  it("grades short answers by the sample answer's key terms", async () => {
+    const question = {
+      id: 1,
+      type: "short_answer" as const,
+      question: "What does the Calvin cycle do?",
+      sampleAnswer: "It fixes carbon dioxide into sugars.",
+      rubric: "Mentions carbon fixation",
+      explanation: "",
+    };
+
+    const good = await offlineQuizProvider.gradeShortAnswer(
+      question,
+      "The Calvin cycle fixes carbon dioxide to make sugars"
+    );
+    const poor = await offlineQuizProvider.gradeShortAnswer(question, "It makes oxygen");
+
+    expect(good.correct).toBe(true);
+    expect(poor.correct).toBe(false);
+    expect(poor.feedback).toContain("missing");
+  });
+});
+
+describe("getQuizProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the offline provider in offline mode", () => {
+    vi.stubEnv("LLM_PROVIDER", "offline");
+    expect(getQuizProvider()).toBe(offlineQuizProvider);
+  });
+});
@@ -0,0 +1,316 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { CHAT_MODEL, getLLMProvider, getOpenAI } from "@/lib/llm";
+import { normalizeAnswer } from "./grading";
+import { parseGrade, parseQuestions } from "./parse";
+import type { BloomLevel, Difficulty } from "./settings";
+import {
+  QuizGenerationError,
+  type GradeResult,
+  type Question,
+  type QuestionType,
+  type QuizGenerationInput,
+  type QuizProvider,
+} from "./types";
+
+const MAX_ATTEMPTS = 3;
+const MAX_CONTENT_CHARS = 12000;
+// Share of the rubric a short answer has to cover to count as correct
+const PASS_SCORE = 0.7;
+
+const SYSTEM_PROMPT = `You are Wiz AI, a tutor who writes quizzes from study material.
+Only ask about facts and ideas stated in the material, and mix the question types below.
+Respond with JSON only, in the shape {"questions": [...]}. Every question has "type", "question",
+"explanation" (why the answer is correct, citing the material) and "topic" (2 to 4 words naming the
+concept it tests, reused across questions on the same concept), plus the fields for its type:
+- "single": "options" (2 to 4 distinct answers) and "correctAnswer" (zero-based index of the correct option)
+- "multiple": "options" (3 to 5 distinct answers) and "correctAnswers" (zero-based indexes of every correct option)
+- "true_false": "correctAnswer" (true or false)
+- "fill_blank": a "question" containing "_____" and "acceptedAnswers" (the missing words and close variants)
+- "short_answer": "rubric" (what a full-credit answer must mention) and "sampleAnswer"
+- "ordering": "items" (3 to 6 steps or events, in the correct order)
+- "matching": "pairs" (3 to 5 {"left": string, "right": string} pairs)`;
+
+const GRADING_PROMPT = `You are Wiz AI, grading a learner's short answer against a rubric.
+Accept paraphrases and minor spelling mistakes; judge only what the rubric asks for.
+Respond with JSON only, in this exact shape: {"score": number, "feedback": string}
+- "score" is from 0 to 1: the share of the rubric the answer covers
+- "feedback" is one or two sentences to the learner on what they got right or missed`;
+
+const DIFFICULTY_GUIDANCE: Record<Difficulty, string> = {
+  easy: "Easy: ask about facts the material states directly, with clearly wrong distractors.",
+  medium: "Medium: ask the learner to connect ideas, with plausible distractors.",
+  hard: "Hard: ask for multi-step reasoning or subtle distinctions, with distractors based on common misconceptions.",
+};
+
+const BLOOM_GUIDANCE: Record<BloomLevel, string> = {
+  remember: "recall facts and definitions",
+  understand: "explain ideas in their own words",
+  apply: "use the ideas in a new situation",
+  analyze: "break ideas apart and compare them",
+  evaluate: "judge or justify a claim",
+  create: "combine ideas into something new",
+};
+
+function buildPrompt({
+  content,
+  fileName,
+  count,
+  difficulty,
+  bloomLevel,
+  questionTypes,
+}: QuizGenerationInput) {
+  const material = content.slice(0, MAX_CONTENT_CHARS);
+  const level = bloomLevel
+    ? `Target Bloom's taxonomy level "${bloomLevel}": questions that make the learner ${BLOOM_GUIDANCE[bloomLevel]}.`
+    : "Mix Bloom's taxonomy levels, from recall to analysis.";
+  return `Write ${count} questions about the following material${
+    fileName ? ` from "${fileName}"` : ""
+  }.
+${DIFFICULTY_GUIDANCE[difficulty]}
+${level}
+Use only these question types, mixed as evenly as the material allows: ${questionTypes.join(", ")}.
+
+--- MATERIAL ---
+${material}
+--- END MATERIAL ---`;
+}
+
+export const openAIQuizProvider: QuizProvider = {
+  async generateQuestions(input) {
+    const messages: ChatCompletionMessageParam[] = [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: buildPrompt(input) },
+    ];
+    let best: Question[] = [];
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const completion = await getOpenAI().chat.completions.create({
+        model: CHAT_MODEL,
+        messages,
+        temperature: 0.4,
+        response_format: { type: "json_object" },
+      });
+      const raw = completion.choices[0]?.message?.content || "";
+      const parsed = parseQuestions(raw);
+      const errors = [...parsed.errors];
+      const questions = parsed.questions.filter((question, index) => {
+        if (input.questionTypes.includes(question.type)) return true;
+        errors.push(
+          `Question ${index + 1} is a "${question.type}" question, which was not asked for`
+        );
+        return false;
+      });
+
+      if (questions.length > best.length) best = questions;
+      if (best.length >= input.count) break;
+
+      // Ask the model to repair its own output, keeping what was valid
+      messages.push(
+        { role: "assistant", content: raw },
+        {
+          role: "user",
+          content: `That response had problems:\n${errors
+            .map((error) => `- ${error}`)
+            .join("\n")}\nReturn the full corrected JSON with ${
+            input.count
+          } valid questions and nothing else.`,
+        }
+      );
+    }
+
+    if (best.length === 0) {
+      throw new QuizGenerationError(
+        "The quiz generator did not return any valid questions"
+      );
+    }
+    // Renumbered, since questions of the wrong type leave gaps
+    return best
+      .slice(0, input.count)
+      .map((question, index) => ({ ...question, id: index + 1 }));
+  },
+
+  async gradeShortAnswer(question, answer) {
+    const completion = await getOpenAI().chat.completions.create({
+      model: CHAT_MODEL,
+      messages: [
+        { role: "system", content: GRADING_PROMPT },
+        {
+          role: "user",
+          content: `Question: ${question.question}
+Rubric: ${question.rubric}
+Sample answer: ${question.sampleAnswer}
+
+Learner's answer: ${answer}`,
+        },
+      ],
+      temperature: 0,
+      response_format: { type: "json_object" },
+    });
+    const grade = parseGrade(completion.choices[0]?.message?.content || "");
+    if (!grade) {
+      throw new QuizGenerationError("The grader did not return a score");
+    }
+    return { ...grade, correct: grade.score >= PASS_SCORE };
+  },
+};
+
+const STOP_WORDS = new Set([
+  "about", "after", "again", "also", "because", "been", "before", "being",
+  "between", "could", "does", "each", "from", "have", "into", "more", "most",
+  "other", "should", "some", "such", "than", "that", "their", "them", "then",
+  "there", "these", "they", "this", "those", "through", "under", "very",
+  "were", "what", "when", "where", "which", "while", "with", "would", "your",
+]);
+
+export function keywords(sentence: string) {
+  return (sentence.match(/[A-Za-z][A-Za-z-]{4,}/g) || []).filter(
+    (word) => !STOP_WORDS.has(word.toLowerCase())
+  );
+}
+
+export function sentences(content: string) {
+  return content
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => {
+      const words = sentence.split(" ").length;
+      return words >= 6 && words <= 60 && keywords(sentence).length > 0;
+    });
+}
+
+// Scores a short answer by how many of the sample answer's key terms it
+// mentions. Rubrics describe what to look for, so their words don't count.
+function gradeByKeywords(expected: string, answer: string): GradeResult {
+  const terms = Array.from(
+    new Set(keywords(expected).map((word) => normalizeAnswer(word)))
+  );
+  const given = normalizeAnswer(answer);
+  const missing = terms.filter((term) => !given.includes(term));
+  const score = terms.length ? (terms.length - missing.length) / terms.length : 0;
+  const correct = score >= PASS_SCORE;
+
+  return {
+    correct,
+    score,
+    feedback:
+      correct || missing.length === 0
+        ? `Your answer covers ${terms.length - missing.length} of ${terms.length} key ideas.`
+        : `Your answer is missing: ${missing.slice(0, 5).join(", ")}.`,
+  };
+}
+
+// The kinds of question the offline provider can write. Settings asking only
+// for others get single-choice questions instead.
+const OFFLINE_QUESTION_TYPES: QuestionType[] = [
+  "single",
+  "true_false",
+  "fill_blank",
+  "ordering",
+];
+
+// Builds fill-in-the-blank, true/false and ordering questions straight from
+// the text so quizzes work (and are reproducible) without calling OpenAI.
+// Difficulty and Bloom's level don't apply to them.
+export const offlineQuizProvider: QuizProvider = {
+  async generateQuestions({ content, count, questionTypes }) {
+    const kinds = OFFLINE_QUESTION_TYPES.filter((type) =>
+      questionTypes.includes(type)
+    );
+    if (kinds.length === 0) kinds.push("single");
+
+    const candidates = sentences(content);
+    const vocabulary = Array.from(
+      new Map(
+        candidates
+          .flatMap((sentence) => keywords(sentence))
+          .map((word) => [word.toLowerCase(), word])
+      ).values()
+    ).sort((a, b) => b.length - a.length || a.localeCompare(b));
+
+    const step = Math.max(1, Math.floor(candidates.length / count));
+    const questions: Question[] = [];
+
+    for (let i = 0; i < candidates.length && questions.length < count; i += step) {
+      const sentence = candidates[i];
+      const answer = keywords(sentence).sort((a, b) => b.length - a.length)[0];
+      const blanked = sentence.replace(answer, "_____");
+      const position = questions.length;
+      const kind = kinds[position % kinds.length];
+      const base = {
+        id: position + 1,
+        explanation: `The material states: "${sentence}"`,
+        topic: answer,
+      };
+
+      // Asks for the order of a run of sentences, when there are enough left
+      const run = candidates.slice(i, i + 3);
+      if (kind === "ordering" && run.length === 3) {
+        questions.push({
+          id: position + 1,
+          type: "ordering",
+          question: "Put these statements in the order the material makes them.",
+          items: run,
+          explanation: `The material says: "${run.join(" ")}"`,
+        });
+        continue;
+      }
+
+      if (kind === "fill_blank") {
+        questions.push({
+          ...base,
+          type: "fill_blank",
+          question: `Fill in the blank: "${blanked}"`,
+          acceptedAnswers: [answer],
+        });
+        continue;
+      }
+
+      const distractors = vocabulary
+        .filter((word) => word.toLowerCase() !== answer.toLowerCase())
+        .filter((_, index) => index % (position + 2) === 0)
+        .slice(0, 3);
+
+      if (kind === "true_false" || distractors.length === 0) {
+        // Every other statement has its key term swapped, making it false
+        const swapped = distractors.length > 0 && position % 2 === 1;
+        questions.push({
+          ...base,
+          type: "true_false",
+          question: `True or false: "${
+            swapped ? sentence.replace(answer, distractors[0]) : sentence
+          }"`,
+          correctAnswer: !swapped,
+        });
+        continue;
+      }
+
+      const options = [...distractors];
+      const correctAnswer = position % (options.length + 1);
+      options.splice(correctAnswer, 0, answer);
+
+      questions.push({
+        ...base,
+        type: "single",
+        question: `Fill in the blank: "${blanked}"`,
+        options,
+        correctAnswer,
+      });
+    }
+
+    if (questions.length === 0) {
+      throw new QuizGenerationError(
+        "The material does not contain enough text to build a quiz"
+      );
+    }
+    return questions;
+  },
+
+  async gradeShortAnswer(question, answer) {
+    return gradeByKeywords(question.sampleAnswer, answer);
+  },
+};
+
+export function getQuizProvider(): QuizProvider {
+  return getLLMProvider() === "offline" ? offlineQuizProvider : openAIQuizProvider;
+}
@@ -0,0 +1,64 @@
+import { randomUUID } from "crypto";
+import { getDb } from "@/lib/db";
+import type { QuizPreset, QuizPresetInput } from "./settings";
+
+export interface QuizPresetRepository {
+  list(userId: string): Promise<QuizPreset[]>;
+  create(userId: string, input: QuizPresetInput): Promise<QuizPreset>;
+  // Returns false when there was no such preset
+  delete(userId: string, id: string): Promise<boolean>;
+}
+
+interface QuizPresetRow {
+  id: string;
+  name: string;
+  settings: string;
+  created_at: string;
+}
+
+function toPreset(row: QuizPresetRow): QuizPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    settings: JSON.parse(row.settings),
+    createdAt: row.created_at,
+  };
+}
+
+export const sqliteQuizPresetRepository: QuizPresetRepository = {
+  async list(userId) {
+    const rows = getDb()
+      .prepare(
+        "SELECT * FROM quiz_presets WHERE user_id = ? ORDER BY name COLLATE NOCASE"
+      )
+      .all(userId) as QuizPresetRow[];
+    return rows.map(toPreset);
+  },
+
+  async create(userId, { name, settings }) {
+    const preset: QuizPreset = {
+      id: randomUUID(),
+      name: name.trim(),
+      settings,
+      createdAt: new Date().toISOString(),
+    };
+    getDb()
+      .prepare(
+        `INSERT INTO quiz_presets (id, user_id, name, settings, created_at)
+        VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(preset.id, userId, preset.name, JSON.stringify(settings), preset.createdAt);
+    return preset;
+  },
+
+  async delete(userId, id) {
+    const result = getDb()
+      .prepare("DELETE FROM quiz_presets WHERE user_id = ? AND id = ?")
+      .run(userId, id);
+    return result.changes > 0;
+  },
+};
+
+export function getQuizPresetRepository(): QuizPresetRepository {
+  return sqliteQuizPresetRepository;
+}
@@ -0,0 +1,124 @@
+import { isOneOf } from "@/lib/api/validate";
+import { QUESTION_TYPES, type QuestionType } from "./types";
+
+export const DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+export const BLOOM_LEVELS = [
+  "remember",
+  "understand",
+  "apply",
+  "analyze",
+  "evaluate",
+  "create",
+] as const;
+
+export type Difficulty = (typeof DIFFICULTIES)[number];
+export type BloomLevel = (typeof BLOOM_LEVELS)[number];
+
+export const MIN_QUESTION_COUNT = 1;
+export const MAX_QUESTION_COUNT = 20;
+const MAX_PRESET_NAME_LENGTH = 60;
+const MAX_SECTIONS = 500;
+
+export interface QuizSettings {
+  count: number;
+  difficulty: Difficulty;
+  // null mixes levels
+  bloomLevel: BloomLevel | null;
+  questionTypes: QuestionType[];
+  // Page or slide numbers to draw from; null uses the whole document
+  sections: number[] | null;
+}
+
+export const DEFAULT_QUIZ_SETTINGS: QuizSettings = {
+  count: 5,
+  difficulty: "medium",
+  bloomLevel: null,
+  questionTypes: ["single", "multiple", "true_false", "fill_blank"],
+  sections: null,
+};
+
+export interface QuizPresetInput {
+  name: string;
+  settings: QuizSettings;
+}
+
+export interface QuizPreset extends QuizPresetInput {
+  id: string;
+  createdAt: string;
+}
+
+// "1-3, 7" -> [1, 2, 3, 7]. Returns null when the text isn't a page list.
+export function parseSectionRange(text: string): number[] | null {
+  const sections = new Set<number>();
+  for (const part of text.split(",").map((part) => part.trim())) {
+    if (!part) continue;
+    const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+    if (!match) return null;
+
+    const from = parseInt(match[1], 10);
+    const to = match[2] ? parseInt(match[2], 10) : from;
+    if (from < 1 || to < from || to - from >= MAX_SECTIONS) return null;
+    for (let number = from; number <= to; number++) sections.add(number);
+  }
+  return sections.size ? Array.from(sections).sort((a, b) => a - b) : null;
+}
+
+// [1, 2, 3, 7] -> "1-3, 7"
+export function formatSectionRange(sections: number[]) {
+  const ranges: string[] = [];
+  let start = sections[0];
+  for (let i = 1; i <= sections.length; i++) {
+    if (sections[i] === sections[i - 1] + 1) continue;
+    const end = sections[i - 1];
+    ranges.push(start === end ? `${start}` : `${start}-${end}`);
+    start = sections[i];
+  }
+  return ranges.join(", ");
+}
+
+// Returns an error message, or null when the input is valid settings
+export function validateQuizSettings(input: unknown): string | null {
+  const value = input as Partial<QuizSettings> | null;
+  if (typeof value !== "object" || value === null) return "Invalid quiz settings";
+  if (
+    !Number.isInteger(value.count) ||
+    value.count! < MIN_QUESTION_COUNT ||
+    value.count! > MAX_QUESTION_COUNT
+  ) {
+    return `Choose between ${MIN_QUESTION_COUNT} and ${MAX_QUESTION_COUNT} questions`;
+  }
+  if (!isOneOf(DIFFICULTIES, value.difficulty)) return "Select a valid difficulty";
+  if (value.bloomLevel !== null && !isOneOf(BLOOM_LEVELS, value.bloomLevel)) {
+    return "Select a valid Bloom's level";
+  }
+  if (
+    !Array.isArray(value.questionTypes) ||
+    value.questionTypes.length === 0 ||
+    !value.questionTypes.every((type) => isOneOf(QUESTION_TYPES, type))
+  ) {
+    return "Select at least one question type";
+  }
+  if (
+    value.sections !== null &&
+    (!Array.isArray(value.sections) ||
+      value.sections.length === 0 ||
+      value.sections.length > MAX_SECTIONS ||
+      !value.sections.every((number) => Number.isInteger(number) && number > 0))
+  ) {
+    return "Select valid pages or slides";
+  }
+  return null;
+}
+
+export function validateQuizPresetInput(input: unknown): string | null {
+  const value = input as Partial<QuizPresetInput> | null;
+  if (typeof value !== "object" || value === null) return "Invalid preset";
+  if (typeof value.name !== "string" || !value.name.trim()) {
+    return "Name your preset";
+  }
+  if (value.name.length > MAX_PRESET_NAME_LENGTH) {
+    return `Preset names must be ${MAX_PRESET_NAME_LENGTH} characters or fewer`;
+  }
+  return validateQuizSettings(value.settings);
+}
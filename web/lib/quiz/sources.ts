@@ -0,0 +1,88 @@
+import type { DocumentLocation, DocumentSection } from "@/lib/documents/types";
+import { describeCorrectAnswer, normalizeAnswer } from "./grading";
+import type { Question } from "./types";
+
+// Quizzes can draw on a whole course, but each document needs a question
+export const MAX_QUIZ_FILES = 10;
+export const MAX_EXCERPT_CHARS = 400;
+const MIN_EXCERPT_CHARS = 80;
+
+// Splits a question count as evenly as possible; earlier documents take
+// the remainder. 7 across 3 -> [3, 2, 2]
+export function splitCount(count: number, parts: number) {
+  return Array.from(
+    { length: parts },
+    (_, index) => Math.floor(count / parts) + (index < count % parts ? 1 : 0)
+  );
+}
+
+// Takes one question from each document in turn, so sources are mixed
+export function interleave<T>(groups: T[][]): T[] {
+  const longest = Math.max(0, ...groups.map((group) => group.length));
+  const mixed: T[] = [];
+  for (let i = 0; i < longest; i++) {
+    for (const group of groups) {
+      if (i < group.length) mixed.push(group[i]);
+    }
+  }
+  return mixed;
+}
+
+function words(text: string) {
+  return new Set(
+    normalizeAnswer(text)
+      .split(" ")
+      .filter((word) => word.length >= 4)
+  );
+}
+
+function sentences(text: string) {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function excerptFrom(split: string[], start: number) {
+  let excerpt = split[start];
+  // Short sentences read better with the one after them
+  if (excerpt.length < MIN_EXCERPT_CHARS && start + 1 < split.length) {
+    excerpt = `${excerpt} ${split[start + 1]}`;
+  }
+  return excerpt.length > MAX_EXCERPT_CHARS
+    ? `${excerpt.slice(0, MAX_EXCERPT_CHARS - 3).trimEnd()}...`
+    : excerpt;
+}
+
+// Finds the sentence sharing the most words with the question, its answer
+// and its explanation (which quotes the material), and the page or slide
+// it's on. Null when nothing overlaps.
+export function locateQuestion(
+  question: Question,
+  sections: DocumentSection[]
+): { location: DocumentLocation; excerpt: string } | null {
+  const query = words(
+    `${question.question} ${describeCorrectAnswer(question)} ${question.explanation}`
+  );
+  let best: { location: DocumentLocation; excerpt: string } | null = null;
+  let bestScore = 0;
+
+  for (const section of sections) {
+    const split = sentences(section.text);
+    for (const [index, sentence] of split.entries()) {
+      let score = 0;
+      for (const word of words(sentence)) {
+        if (query.has(word)) score++;
+      }
+      if (score > bestScore) {
+        best = {
+          location: { kind: section.kind, number: section.number },
+          excerpt: excerptFrom(split, index),
+        };
+        bestScore = score;
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { spokenAnswer } from "./spoken";
+import type { TrueFalseQuestion } from "./types";
+
+const QUESTION: TrueFalseQuestion = {
+  id: 1,
+  type: "true_false",
+  question: "True or false: chlorophyll absorbs green light.",
+  correctAnswer: false,
+  explanation: "",
+};
+
+describe("spokenAnswer for true/false questions", () => {
+  it.each(["true", "Yes.", "that's correct", "I think it's right"])(
+    "hears %j as true",
+    (transcript) => {
+      expect(spokenAnswer(QUESTION, transcript)).toEqual({ type: "true_false", value: true });
+    }
+  );
+
+  it.each([
+    "false",
+    "No.",
+    "not true",
+    "that's not correct",
+    "not right",
+    "it isn't true",
+    "I don't think that's true",
+  ])("hears %j as false", (transcript) => {
+    expect(spokenAnswer(QUESTION, transcript)).toEqual({ type: "true_false", value: false });
+  });
+
+  it("hears a negated false as true", () => {
+    expect(spokenAnswer(QUESTION, "that's not false")).toEqual({
+      type: "true_false",
+      value: true,
+    });
+  });
+
+  it("asks again when there is no verdict", () => {
+    expect(spokenAnswer(QUESTION, "I'm not sure")).toBeNull();
+  });
+});
@@ -0,0 +1,289 @@
+import { describeCorrectAnswer, optionLetter } from "./grading";
+import type { GradeResult, Question, QuizAnswer } from "./types";
+
+// How speech recognition tends to spell single letters
+const LETTER_SOUNDS: Record<string, string> = {
+  ay: "a",
+  eh: "a",
+  be: "b",
+  bee: "b",
+  see: "c",
+  sea: "c",
+  dee: "d",
+  ee: "e",
+  ef: "f",
+};
+
+const ORDINALS: Record<string, number> = {
+  first: 0,
+  one: 0,
+  "1": 0,
+  "1st": 0,
+  second: 1,
+  two: 1,
+  "2": 1,
+  "2nd": 1,
+  third: 2,
+  three: 2,
+  "3": 2,
+  "3rd": 2,
+  fourth: 3,
+  four: 3,
+  "4": 3,
+  "4th": 3,
+  fifth: 4,
+  five: 4,
+  "5": 4,
+  "5th": 4,
+};
+
+const YES = new Set(["yes", "yeah", "yep", "true", "correct", "right"]);
+const NO = new Set(["no", "nope", "false", "incorrect", "wrong"]);
+// Turn the verdict after them around: "not true", "that isn't right"
+const NEGATIONS = new Set(["not", "isnt", "arent", "wasnt", "dont", "doesnt", "never"]);
+
+// Words around a list of letters: "the answers are A, C and D"
+const LIST_FILLER = new Set([
+  "i", "think", "its", "it", "is", "the", "answers", "answer", "are",
+  "options", "option", "letters", "letter", "and", "or", "plus", "both",
+]);
+
+const FILLER = new Set([
+  "a", "an", "the", "is", "its", "it", "i", "think", "answer", "option",
+  "choice", "letter", "number", "one", "um", "uh", "of", "and", "to", "in",
+  "that", "would", "be", "say", "going", "with", "go",
+]);
+
+function normalize(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function words(text: string) {
+  return normalize(text)
+    .split(" ")
+    .filter((word) => word && !FILLER.has(word));
+}
+
+// Allows one typo in longer words, since transcripts misspell terms
+function similarWord(a: string, b: string) {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < 5 || Math.abs(a.length - b.length) > 1) {
+    return false;
+  }
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else {
+      i++;
+      j++;
+    }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
+
+// Share of the option's words that were heard
+function overlap(heard: string[], option: string) {
+  const optionWords = words(option);
+  if (optionWords.length === 0) return 0;
+  const found = optionWords.filter((word) =>
+    heard.some((spoken) => similarWord(spoken, word))
+  );
+  return found.length / optionWords.length;
+}
+
+function trueFalseAnswer(transcript: string, options: string[]) {
+  const normalized = options.map(normalize);
+  const trueIndex = normalized.indexOf("true");
+  const falseIndex = normalized.indexOf("false");
+  if (trueIndex === -1 || falseIndex === -1) return null;
+
+  const spoken = normalize(transcript).split(" ");
+  const verdict = spoken.findIndex((word) => YES.has(word) || NO.has(word));
+  if (verdict === -1) return null;
+
+  const negated = spoken.slice(0, verdict).some((word) => NEGATIONS.has(word));
+  return YES.has(spoken[verdict]) !== negated ? trueIndex : falseIndex;
+}
+
+function letterAnswer(transcript: string, optionCount: number) {
+  const match =
+    /^(?:i think )?(?:(?:it s|its|it is|the answer is|answer|option|letter|choice) )?([a-z]+)$/.exec(
+      normalize(transcript)
+    );
+  if (!match) return null;
+
+  const letter = LETTER_SOUNDS[match[1]] ?? match[1];
+  const index = letter.length === 1 ? letter.charCodeAt(0) - 97 : -1;
+  return index >= 0 && index < optionCount ? index : null;
+}
+
+// Every word left after the filler has to be an option's letter
+function letterListAnswer(transcript: string, optionCount: number) {
+  const choices = new Set<number>();
+  for (const word of normalize(transcript).split(" ")) {
+    if (!word || LIST_FILLER.has(word)) continue;
+    const letter = LETTER_SOUNDS[word] ?? word;
+    const index = letter.length === 1 ? letter.charCodeAt(0) - 97 : -1;
+    if (index < 0 || index >= optionCount) return null;
+    choices.add(index);
+  }
+  return choices.size > 0 ? Array.from(choices).sort((a, b) => a - b) : null;
+}
+
+function ordinalAnswer(transcript: string, optionCount: number) {
+  const spoken = normalize(transcript);
+  if (/\blast\b/.test(spoken)) return optionCount - 1;
+
+  const match =
+    /\b(first|second|third|fourth|fifth|1st|2nd|3rd|4th|5th)\b/.exec(spoken) ??
+    /\b(?:option|number|answer|choice) (one|two|three|four|five|\d)\b/.exec(spoken);
+  if (!match) return null;
+
+  const index = ORDINALS[match[1]];
+  return index !== undefined && index < optionCount ? index : null;
+}
+
+// Maps a spoken answer onto an option index: "B", "the second one",
+// "false", or (roughly) the option's own text. Returns null when unsure.
+export function matchSpokenAnswer(transcript: string, options: string[]) {
+  const byTrueFalse = trueFalseAnswer(transcript, options);
+  if (byTrueFalse !== null) return byTrueFalse;
+
+  const byLetter = letterAnswer(transcript, options.length);
+  if (byLetter !== null) return byLetter;
+
+  const heard = words(transcript);
+  const scores = options.map((option) => overlap(heard, option));
+  const best = scores.indexOf(Math.max(...scores));
+  const runnerUp = Math.max(...scores.filter((_, index) => index !== best), 0);
+
+  // A near-complete match on the text wins over incidental ordinal words
+  if (scores[best] >= 0.8 && scores[best] > runnerUp) return best;
+
+  const byOrdinal = ordinalAnswer(transcript, options.length);
+  if (byOrdinal !== null) return byOrdinal;
+
+  return scores[best] >= 0.5 && scores[best] - runnerUp >= 0.25 ? best : null;
+}
+
+export function isNextCommand(transcript: string) {
+  return /\b(next|continue|go on|move on|finish|done)\b/.test(normalize(transcript));
+}
+
+export function isRepeatCommand(transcript: string) {
+  return /\b(repeat|again|say that)\b/.test(normalize(transcript));
+}
+
+// Ordering and matching need the screen; everything else can be answered
+// out loud
+export function canAnswerBySpeech(question: Question) {
+  return question.type !== "ordering" && question.type !== "matching";
+}
+
+// Turns a transcript into an answer to the question, or null when unsure
+export function spokenAnswer(
+  question: Question,
+  transcript: string
+): QuizAnswer | null {
+  switch (question.type) {
+    case "single": {
+      const choice = matchSpokenAnswer(transcript, question.options);
+      return choice === null ? null : { type: "single", choice };
+    }
+    case "multiple": {
+      const choices = letterListAnswer(transcript, question.options.length);
+      return choices === null ? null : { type: "multiple", choices };
+    }
+    case "true_false": {
+      const choice = matchSpokenAnswer(transcript, ["True", "False"]);
+      return choice === null ? null : { type: "true_false", value: choice === 0 };
+    }
+    case "fill_blank":
+    case "short_answer":
+      return transcript.trim()
+        ? { type: question.type, text: transcript.trim() }
+        : null;
+    default:
+      return null;
+  }
+}
+
+export function questionScript(question: Question, number: number) {
+  const options = (choices: string[]) =>
+    choices.map((option, index) => `${optionLetter(index)}: ${option}.`).join(" ");
+  const text = question.question.replace(/_{3,}/g, "blank");
+
+  switch (question.type) {
+    case "single":
+      return `Question ${number}. ${text} ${options(question.options)}`;
+    case "multiple":
+      return `Question ${number}. ${text} Pick every answer that applies. ${options(
+        question.options
+      )} Say the letters of your answers.`;
+    case "true_false":
+      return /^true or false/i.test(text)
+        ? `Question ${number}. ${text}`
+        : `Question ${number}. True or false: ${text}`;
+    case "short_answer":
+      return `Question ${number}. ${text} Answer in a sentence or two.`;
+    case "fill_blank":
+      return `Question ${number}. ${text}`;
+    default:
+      return `Question ${number}. ${text} Answer this one on screen, then say "next".`;
+  }
+}
+
+export function retryScript(question: Question) {
+  switch (question.type) {
+    case "single":
+      return `Sorry, I didn't catch that. Say a letter from A to ${optionLetter(
+        question.options.length - 1
+      )}, or the answer itself.`;
+    case "multiple":
+      return `Sorry, I didn't catch that. Say the letters of every answer that applies, like "A and ${optionLetter(
+        question.options.length - 1
+      )}".`;
+    case "true_false":
+      return "Sorry, I didn't catch that. Say true or false.";
+    case "fill_blank":
+    case "short_answer":
+      return "Sorry, I didn't catch that. Please say your answer again.";
+    default:
+      return 'Please answer this one on screen, then say "next".';
+  }
+}
+
+export function feedbackScript(question: Question, result: GradeResult) {
+  const answer =
+    question.type === "short_answer"
+      ? `A full answer would be: ${question.sampleAnswer}`
+      : `The answer is ${describeCorrectAnswer(question)}.`;
+  const verdict = result.correct
+    ? "Correct!"
+    : result.score > 0
+      ? `Partly right. ${answer}`
+      : `Not quite. ${answer}`;
+  return [
+    verdict,
+    result.feedback,
+    question.explanation,
+    'Say "next" when you\'re ready.',
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
@@ -0,0 +1,127 @@
+import type { Citation } from "@/lib/documents/types";
+import type { QuizSettings } from "./settings";
+
+export const QUESTION_TYPES = [
+  "single",
+  "multiple",
+  "true_false",
+  "fill_blank",
+  "short_answer",
+  "ordering",
+  "matching",
+] as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[number];
+
+interface BaseQuestion {
+  id: number;
+  question: string;
+  explanation: string;
+  // A few words naming what the question tests, for progress by topic
+  topic?: string;
+  // The document and page it was written from, when generated from a file
+  source?: QuestionSource;
+}
+
+// Its excerpt is the passage the question was drawn from
+export type QuestionSource = Citation;
+
+export interface SingleChoiceQuestion extends BaseQuestion {
+  type: "single";
+  options: string[];
+  correctAnswer: number;
+}
+
+export interface MultipleSelectQuestion extends BaseQuestion {
+  type: "multiple";
+  options: string[];
+  correctAnswers: number[];
+}
+
+export interface TrueFalseQuestion extends BaseQuestion {
+  type: "true_false";
+  correctAnswer: boolean;
+}
+
+// The question text contains a "_____" blank
+export interface FillBlankQuestion extends BaseQuestion {
+  type: "fill_blank";
+  acceptedAnswers: string[];
+}
+
+// Graded by the LLM against the rubric
+export interface ShortAnswerQuestion extends BaseQuestion {
+  type: "short_answer";
+  rubric: string;
+  sampleAnswer: string;
+}
+
+// Items are stored in the correct order and shuffled for display
+export interface OrderingQuestion extends BaseQuestion {
+  type: "ordering";
+  items: string[];
+}
+
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+export interface MatchingQuestion extends BaseQuestion {
+  type: "matching";
+  pairs: MatchingPair[];
+}
+
+export type Question =
+  | SingleChoiceQuestion
+  | MultipleSelectQuestion
+  | TrueFalseQuestion
+  | FillBlankQuestion
+  | ShortAnswerQuestion
+  | OrderingQuestion
+  | MatchingQuestion;
+
+type WithoutId<Q> = Q extends Question ? Omit<Q, "id"> : never;
+
+// A question as stored outside a quiz, e.g. in the review deck
+export type QuestionContent = WithoutId<Question>;
+
+export type QuizAnswer =
+  | { type: "single"; choice: number }
+  | { type: "multiple"; choices: number[] }
+  | { type: "true_false"; value: boolean }
+  | { type: "fill_blank"; text: string }
+  | { type: "short_answer"; text: string }
+  // Item indices in the order the learner put them
+  | { type: "ordering"; order: number[] }
+  // For each left-hand item, the index of the pair whose right side was
+  // chosen, or -1
+  | { type: "matching"; matches: number[] };
+
+export interface GradeResult {
+  correct: boolean;
+  // Share of the answer that was right, 0-1
+  score: number;
+  feedback?: string;
+}
+
+export interface QuizGenerationInput
+  extends Omit<QuizSettings, "sections"> {
+  content: string;
+  fileName?: string;
+}
+
+export interface QuizProvider {
+  generateQuestions(input: QuizGenerationInput): Promise<Question[]>;
+  gradeShortAnswer(
+    question: ShortAnswerQuestion,
+    answer: string
+  ): Promise<GradeResult>;
+}
+
+export class QuizGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuizGenerationError";
+  }
+}
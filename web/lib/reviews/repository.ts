@@ -0,0 +1,165 @@
+import { createHash, randomUUID } from "crypto";
+import { getDb } from "@/lib/db";
+import { gradeAnswer, schedule } from "./sm2";
+import type { ReviewAnswerInput, ReviewItem } from "./types";
+
+export interface ReviewRepository {
+  // Records an answer and reschedules the question
+  recordAnswer(userId: string, answer: ReviewAnswerInput, now?: Date): Promise<ReviewItem>;
+  due(userId: string, limit: number, now?: Date): Promise<ReviewItem[]>;
+  countDue(userId: string, now?: Date): Promise<number>;
+}
+
+interface ReviewItemRow {
+  id: string;
+  file_id: string | null;
+  file_name: string | null;
+  question: string;
+  repetitions: number;
+  ease: number;
+  interval_days: number;
+  due_at: string;
+  last_reviewed_at: string | null;
+  created_at: string;
+}
+
+function toItem(row: ReviewItemRow): ReviewItem {
+  return {
+    id: row.id,
+    fileId: row.file_id,
+    fileName: row.file_name,
+    question: JSON.parse(row.question),
+    repetitions: row.repetitions,
+    ease: row.ease,
+    intervalDays: row.interval_days,
+    dueAt: row.due_at,
+    lastReviewedAt: row.last_reviewed_at,
+    createdAt: row.created_at,
+  };
+}
+
+function normalize(text: string) {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function sorted(texts: string[]) {
+  return texts.map(normalize).sort();
+}
+
+// What makes an answer right, independent of how options were ordered
+function answerKey(question: ReviewAnswerInput["question"]) {
+  switch (question.type) {
+    case "single":
+      return [
+        sorted(question.options),
+        normalize(question.options[question.correctAnswer] ?? ""),
+      ];
+    case "multiple":
+      return [
+        sorted(question.options),
+        sorted(question.correctAnswers.map((index) => question.options[index] ?? "")),
+      ];
+    case "true_false":
+      return question.correctAnswer;
+    case "fill_blank":
+      return sorted(question.acceptedAnswers);
+    case "short_answer":
+      return normalize(question.sampleAnswer);
+    case "ordering":
+      return question.items.map(normalize);
+    case "matching":
+      return sorted(question.pairs.map(({ left, right }) => `${left}\n${right}`));
+  }
+}
+
+// The same question comes back from review quizzes and regenerated ones;
+// identify it by its wording and answer rather than by per-quiz ids, topic
+// tags or the excerpt it was drawn from
+function questionKey(question: ReviewAnswerInput["question"]) {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([question.type, normalize(question.question), answerKey(question)])
+    )
+    .digest("hex");
+}
+
+export const sqliteReviewRepository: ReviewRepository = {
+  async recordAnswer(userId, answer, now = new Date()) {
+    const db = getDb();
+    const key = questionKey(answer.question);
+
+    const record = db.transaction(() => {
+      const existing = db
+        .prepare("SELECT * FROM review_items WHERE user_id = ? AND question_key = ?")
+        .get(userId, key) as ReviewItemRow | undefined;
+      const state = schedule(
+        existing
+          ? {
+              repetitions: existing.repetitions,
+              ease: existing.ease,
+              intervalDays: existing.interval_days,
+            }
+          : null,
+        gradeAnswer(answer.correct),
+        now
+      );
+
+      const id = existing?.id ?? randomUUID();
+      db.prepare(
+        `INSERT INTO review_items
+          (id, user_id, question_key, file_id, file_name, question, repetitions,
+           ease, interval_days, due_at, last_reviewed_at, created_at)
+        VALUES
+          (@id, @userId, @key, @fileId, @fileName, @question, @repetitions,
+           @ease, @intervalDays, @dueAt, @now, @now)
+        ON CONFLICT (user_id, question_key) DO UPDATE SET
+          repetitions = excluded.repetitions,
+          ease = excluded.ease,
+          interval_days = excluded.interval_days,
+          due_at = excluded.due_at,
+          last_reviewed_at = excluded.last_reviewed_at`
+      ).run({
+        id,
+        userId,
+        key,
+        fileId: answer.fileId,
+        fileName: answer.fileName,
+        question: JSON.stringify(answer.question),
+        ...state,
+        now: now.toISOString(),
+      });
+      db.prepare(
+        "INSERT INTO review_answers (item_id, correct, answered_at) VALUES (?, ?, ?)"
+      ).run(id, answer.correct ? 1 : 0, now.toISOString());
+
+      return db.prepare("SELECT * FROM review_items WHERE id = ?").get(id) as ReviewItemRow;
+    })();
+
+    return toItem(record);
+  },
+
+  async due(userId, limit, now = new Date()) {
+    const rows = getDb()
+      .prepare(
+        `SELECT * FROM review_items
+        WHERE user_id = ? AND due_at <= ?
+        ORDER BY due_at
+        LIMIT ?`
+      )
+      .all(userId, now.toISOString(), limit) as ReviewItemRow[];
+    return rows.map(toItem);
+  },
+
+  async countDue(userId, now = new Date()) {
+    const { count } = getDb()
+      .prepare(
+        "SELECT COUNT(*) AS count FROM review_items WHERE user_id = ? AND due_at <= ?"
+      )
+      .get(userId, now.toISOString()) as { count: number };
+    return count;
+  },
+};
+
+export function getReviewRepository(): ReviewRepository {
+  return sqliteReviewRepository;
+}
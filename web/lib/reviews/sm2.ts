@@ -0,0 +1,48 @@
+import type { ReviewState } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export const INITIAL_EASE = 2.5;
+
+// Quiz answers are right or wrong, so map them onto SM-2's 0-5 grades
+export function gradeAnswer(correct: boolean) {
+  return correct ? 4 : 1;
+}
+
+// SuperMemo 2: a lapse restarts the item at a one-day interval; each
+// success grows the interval by the item's ease, which drifts with grades.
+export function schedule(
+  state: Omit<ReviewState, "dueAt"> | null,
+  grade: number,
+  now: Date
+): ReviewState {
+  const previous = state ?? { repetitions: 0, ease: INITIAL_EASE, intervalDays: 0 };
+
+  const ease = Math.max(
+    MIN_EASE,
+    previous.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (grade < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = previous.repetitions + 1;
+    intervalDays =
+      repetitions === 1
+        ? 1
+        : repetitions === 2
+          ? 6
+          : Math.round(previous.intervalDays * previous.ease);
+  }
+
+  return {
+    repetitions,
+    ease: Math.round(ease * 100) / 100,
+    intervalDays,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+  };
+}
@@ -0,0 +1,40 @@
+import { parseQuestion } from "@/lib/quiz/parse";
+import type { QuestionContent } from "@/lib/quiz/types";
+
+// SM-2 scheduling state for one question
+export interface ReviewState {
+  repetitions: number;
+  ease: number;
+  intervalDays: number;
+  dueAt: string;
+}
+
+export interface ReviewItem extends ReviewState {
+  id: string;
+  fileId: string | null;
+  fileName: string | null;
+  question: QuestionContent;
+  lastReviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface ReviewAnswerInput {
+  fileId: string | null;
+  fileName: string | null;
+  question: QuestionContent;
+  correct: boolean;
+}
+
+// Returns an error message, or null when the input is a valid answer
+export function validateReviewAnswer(input: unknown): string | null {
+  const value = input as Partial<ReviewAnswerInput> | null;
+  if (typeof value !== "object" || value === null) return "Invalid answer";
+  if (typeof value.correct !== "boolean") return "correct must be true or false";
+  if (value.fileId != null && typeof value.fileId !== "string") {
+    return "fileId must be a string or null";
+  }
+
+  const question = parseQuestion(value.question, 0);
+  if ("error" in question) return question.error;
+  return null;
+}
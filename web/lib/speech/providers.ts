@@ -0,0 +1,180 @@
+import { getLLMProvider, getOpenAI } from "@/lib/llm";
+import {
+  SPEECH_PROVIDERS,
+  SpeechProviderError,
+  type SpeechProvider,
+  type SpeechProviderInfo,
+  type SpeechProviderName,
+} from "./types";
+
+const OPENAI_VOICES = ["alloy", "echo", "fable", "onyx", "nova", "shimmer"] as const;
+
+export const openAISpeechProvider: SpeechProvider = {
+  name: "openai",
+  label: "OpenAI",
+  voices: OPENAI_VOICES,
+  defaultVoice: "alloy",
+  formats: ["mp3", "opus", "wav"],
+  minSpeed: 0.25,
+  maxSpeed: 4,
+
+  isConfigured() {
+    return !!process.env.OPENAI_API_KEY;
+  },
+
+  async synthesize(text, { voice, speed, format }) {
+    const response = await getOpenAI().audio.speech.create({
+      model: process.env.OPENAI_TTS_MODEL || "tts-1",
+      voice: voice as (typeof OPENAI_VOICES)[number],
+      input: text,
+      speed,
+      response_format: format,
+    });
+    return Buffer.from(await response.arrayBuffer());
+  },
+};
+
+// ELEVEN_LABS_VOICE_ID is the default; ELEVEN_LABS_VOICES lists any others
+// (comma-separated voice ids) learners may pick from.
+const ELEVEN_LABS_VOICES = Array.from(
+  new Set(
+    [
+      process.env.ELEVEN_LABS_VOICE_ID,
+      ...(process.env.ELEVEN_LABS_VOICES || "").split(","),
+    ]
+      .map((voice) => voice?.trim())
+      .filter((voice): voice is string => !!voice)
+  )
+);
+
+export const elevenLabsSpeechProvider: SpeechProvider = {
+  name: "elevenlabs",
+  label: "ElevenLabs",
+  voices: ELEVEN_LABS_VOICES,
+  defaultVoice: ELEVEN_LABS_VOICES[0] ?? "",
+  formats: ["mp3"],
+  minSpeed: 0.7,
+  maxSpeed: 1.2,
+
+  isConfigured() {
+    return !!process.env.ELEVEN_LABS_API_KEY && ELEVEN_LABS_VOICES.length > 0;
+  },
+
+  async synthesize(text, { voice, speed }) {
+    const response = await fetch(
+      `https://api.elevenlabs.io/v1/text-to-speech/${encodeURIComponent(
+        voice
+      )}?output_format=mp3_44100_128`,
+      {
+        method: "POST",
+        headers: {
+          Accept: "audio/mpeg",
+          "Content-Type": "application/json",
+          "xi-api-key": process.env.ELEVEN_LABS_API_KEY!,
+        },
+        body: JSON.stringify({
+          text,
+          model_id: process.env.ELEVEN_LABS_MODEL_ID || "eleven_monolingual_v1",
+          voice_settings: {
+            stability: 0.5,
+            similarity_boost: 0.5,
+            speed,
+          },
+        }),
+      }
+    );
+    if (!response.ok) {
+      throw new SpeechProviderError(
+        `ElevenLabs request failed: ${await response.text()}`,
+        response.status
+      );
+    }
+    return Buffer.from(await response.arrayBuffer());
+  },
+};
+
+const SAMPLE_RATE = 16000;
+const SECONDS_PER_WORD = 0.3;
+
+// A quiet tone lasting about as long as the text would take to read, so
+// playback and highlighting can be exercised without any API.
+export const localSpeechProvider: SpeechProvider = {
+  name: "local",
+  label: "Offline (placeholder tone)",
+  voices: ["tone"],
+  defaultVoice: "tone",
+  formats: ["wav"],
+  minSpeed: 0.25,
+  maxSpeed: 4,
+
+  isConfigured() {
+    return true;
+  },
+
+  async synthesize(text, { speed }) {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    const samples = Math.ceil(
+      (Math.max(words, 1) * SECONDS_PER_WORD * SAMPLE_RATE) / speed
+    );
+
+    const wav = Buffer.alloc(44 + samples * 2);
+    wav.write("RIFF", 0);
+    wav.writeUInt32LE(36 + samples * 2, 4);
+    wav.write("WAVEfmt ", 8);
+    wav.writeUInt32LE(16, 16);
+    wav.writeUInt16LE(1, 20); // PCM
+    wav.writeUInt16LE(1, 22); // mono
+    wav.writeUInt32LE(SAMPLE_RATE, 24);
+    wav.writeUInt32LE(SAMPLE_RATE * 2, 28);
+    wav.writeUInt16LE(2, 32);
+    wav.writeUInt16LE(16, 34);
+    wav.write("data", 36);
+    wav.writeUInt32LE(samples * 2, 40);
+    for (let i = 0; i < samples; i++) {
+      const sample = Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) * 2000;
+      wav.writeInt16LE(Math.round(sample), 44 + i * 2);
+    }
+    return wav;
+  },
+};
+
+const PROVIDERS: Record<SpeechProviderName, SpeechProvider> = {
+  openai: openAISpeechProvider,
+  elevenlabs: elevenLabsSpeechProvider,
+  local: localSpeechProvider,
+};
+
+// Providers with the credentials they need
+export function availableSpeechProviders() {
+  return SPEECH_PROVIDERS.map((name) => PROVIDERS[name]).filter((provider) =>
+    provider.isConfigured()
+  );
+}
+
+export function toProviderInfo(provider: SpeechProvider): SpeechProviderInfo {
+  return {
+    name: provider.name,
+    label: provider.label,
+    voices: provider.voices,
+    defaultVoice: provider.defaultVoice,
+    formats: provider.formats,
+    minSpeed: provider.minSpeed,
+    maxSpeed: provider.maxSpeed,
+  };
+}
+
+// SPEECH_PROVIDER picks the default; a learner's saved preference wins when
+// that provider is available.
+export function getSpeechProvider(
+  preference?: SpeechProviderName | null
+): SpeechProvider {
+  if (preference && PROVIDERS[preference].isConfigured()) {
+    return PROVIDERS[preference];
+  }
+
+  const configured = process.env.SPEECH_PROVIDER as SpeechProviderName | undefined;
+  if (configured && configured in PROVIDERS) {
+    return PROVIDERS[configured];
+  }
+  return getLLMProvider() === "offline" ? localSpeechProvider : openAISpeechProvider;
+}
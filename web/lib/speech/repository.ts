@@ -0,0 +1,42 @@
+import { getDb } from "@/lib/db";
+import type { SpeechSettings } from "./types";
+
+export interface SpeechSettingsRepository {
+  get(userId: string): Promise<SpeechSettings | null>;
+  upsert(userId: string, settings: SpeechSettings): Promise<SpeechSettings>;
+}
+
+interface SpeechSettingsRow {
+  provider: SpeechSettings["provider"];
+  voice: string | null;
+  speed: number;
+}
+
+export const sqliteSpeechSettingsRepository: SpeechSettingsRepository = {
+  async get(userId) {
+    const row = getDb()
+      .prepare("SELECT provider, voice, speed FROM speech_settings WHERE user_id = ?")
+      .get(userId) as SpeechSettingsRow | undefined;
+    return row ? { provider: row.provider, voice: row.voice, speed: row.speed } : null;
+  },
+
+  async upsert(userId, settings) {
+    getDb()
+      .prepare(
+        `INSERT INTO speech_settings (user_id, provider, voice, speed, updated_at)
+        VALUES (@userId, @provider, @voice, @speed, @now)
+        ON CONFLICT (user_id) DO UPDATE SET
+          provider = excluded.provider,
+          voice = excluded.voice,
+          speed = excluded.speed,
+          updated_at = excluded.updated_at`
+      )
+      .run({ userId, ...settings, now: new Date().toISOString() });
+
+    return (await this.get(userId))!;
+  },
+};
+
+export function getSpeechSettingsRepository(): SpeechSettingsRepository {
+  return sqliteSpeechSettingsRepository;
+}
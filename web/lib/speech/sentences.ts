@@ -0,0 +1,30 @@
+// Sentence ends: terminal punctuation with any closing quotes, brackets and
+// citation markers, followed by whitespace that doesn't lead into a
+// lowercase word (so "e.g. this" stays together). Blank lines also count.
+const SENTENCE_END = /[.!?]+["'’”)\]]*(?:\s*\[\d+\])*\s+(?![a-z])|\n+/g;
+
+// Splits text into sentences that concatenate back to the original, so
+// they can be rendered as spans and spoken one at a time
+export function splitSentences(text: string) {
+  const sentences: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index + match[0].length;
+    sentences.push(text.slice(start, end));
+    start = end;
+  }
+  if (start < text.length) {
+    sentences.push(text.slice(start));
+  }
+  return sentences;
+}
+
+// Strips citation markers and markdown that would be read out literally
+export function speakable(sentence: string) {
+  return sentence
+    .replace(/\s*\[\d+\]/g, "")
+    .replace(/[*_#`>]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
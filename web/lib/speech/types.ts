@@ -0,0 +1,114 @@
+import { isOneOf } from "@/lib/api/validate";
+
+export const SPEECH_PROVIDERS = ["openai", "elevenlabs", "local"] as const;
+export const SPEECH_FORMATS = ["mp3", "opus", "wav"] as const;
+
+export type SpeechProviderName = (typeof SPEECH_PROVIDERS)[number];
+export type SpeechFormat = (typeof SPEECH_FORMATS)[number];
+
+export const MAX_SPEECH_CHARS = 4096;
+
+export const SPEECH_CONTENT_TYPES: Record<SpeechFormat, string> = {
+  mp3: "audio/mpeg",
+  opus: "audio/ogg",
+  wav: "audio/wav",
+};
+
+export interface SpeechOptions {
+  voice: string;
+  speed: number;
+  format: SpeechFormat;
+}
+
+// What the settings UI needs to know about each provider
+export interface SpeechProviderInfo {
+  name: SpeechProviderName;
+  label: string;
+  voices: readonly string[];
+  defaultVoice: string;
+  formats: readonly SpeechFormat[];
+  minSpeed: number;
+  maxSpeed: number;
+}
+
+export interface SpeechProvider extends SpeechProviderInfo {
+  isConfigured(): boolean;
+  synthesize(text: string, options: SpeechOptions): Promise<Buffer>;
+}
+
+// Thrown by providers that call their API directly rather than via an SDK
+export class SpeechProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "SpeechProviderError";
+    this.status = status;
+  }
+}
+
+// A learner's saved choice; null fields fall back to the provider defaults
+export interface SpeechSettings {
+  provider: SpeechProviderName | null;
+  voice: string | null;
+  speed: number;
+}
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  provider: null,
+  voice: null,
+  speed: 1,
+};
+
+// Returns an error message, or null when the options suit the provider
+export function validateSpeechOptions(
+  provider: SpeechProviderInfo,
+  options: Partial<Record<keyof SpeechOptions, unknown>>
+): string | null {
+  if (options.voice !== undefined && !isOneOf(provider.voices, options.voice)) {
+    return `Voice must be one of: ${provider.voices.join(", ")}`;
+  }
+  if (
+    options.speed !== undefined &&
+    (typeof options.speed !== "number" ||
+      options.speed < provider.minSpeed ||
+      options.speed > provider.maxSpeed)
+  ) {
+    return `Speed must be between ${provider.minSpeed} and ${provider.maxSpeed}`;
+  }
+  if (options.format !== undefined && !isOneOf(provider.formats, options.format)) {
+    return `Format must be one of: ${provider.formats.join(", ")}`;
+  }
+  return null;
+}
+
+// Returns an error message, or null when the input is valid settings
+export function validateSpeechSettings(
+  input: unknown,
+  providers: SpeechProviderInfo[]
+): string | null {
+  const value = input as Partial<SpeechSettings> | null;
+  if (typeof value !== "object" || value === null) return "Invalid settings";
+  if (value.provider !== null && !isOneOf(SPEECH_PROVIDERS, value.provider)) {
+    return "Select a valid speech provider";
+  }
+
+  const provider = providers.find((p) => p.name === value.provider);
+  if (value.provider !== null && !provider) {
+    return "That speech provider isn't available";
+  }
+  if (value.voice !== null && typeof value.voice !== "string") {
+    return "Select a valid voice";
+  }
+  if (typeof value.speed !== "number") return "Select a valid speed";
+
+  // Without a provider choice there's no voice list to check against
+  if (!provider) {
+    if (value.voice !== null) return "Choose a provider before picking a voice";
+    return value.speed > 0 && value.speed <= 4 ? null : "Select a valid speed";
+  }
+  return validateSpeechOptions(provider, {
+    voice: value.voice ?? undefined,
+    speed: value.speed,
+  });
+}
@@ -0,0 +1,22 @@
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+import type { StorageBackend } from "./types";
+
+let storage: StorageBackend | null = null;
+
+// STORAGE_BACKEND=s3 stores uploads in a bucket; local disk is the default
+export function getStorage() {
+  if (!storage) {
+    storage =
+      process.env.STORAGE_BACKEND === "s3" ? createS3Storage() : createLocalStorage();
+  }
+  return storage;
+}
+
+export async function readAll(key: string) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of await getStorage().get(key)) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,36 @@
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { DATA_DIR } from "@/lib/paths";
+import type { StorageBackend } from "./types";
+
+export function createLocalStorage(
+  root = process.env.STORAGE_DIR || path.join(DATA_DIR, "uploads")
+): StorageBackend {
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    // Keys are generated server-side, but never let one escape the root
+    if (!file.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async put(key, body) {
+      const file = resolve(key);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await pipeline(body, fs.createWriteStream(file));
+    },
+
+    async get(key) {
+      const file = resolve(key);
+      await fs.promises.access(file);
+      return fs.createReadStream(file);
+    },
+
+    async delete(key) {
+      await fs.promises.rm(resolve(key), { force: true });
+    },
+  };
+}
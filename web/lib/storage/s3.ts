@@ -0,0 +1,49 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import type { Readable } from "stream";
+import type { StorageBackend } from "./types";
+
+// Works with AWS S3 and S3-compatible services (MinIO, R2, ...) via S3_ENDPOINT
+export function createS3Storage(): StorageBackend {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error("S3_BUCKET must be set when STORAGE_BACKEND=s3");
+  }
+
+  const client = new S3Client({
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT,
+    forcePathStyle: !!process.env.S3_ENDPOINT,
+    credentials: process.env.S3_ACCESS_KEY_ID
+      ? {
+          accessKeyId: process.env.S3_ACCESS_KEY_ID,
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+        }
+      : undefined,
+  });
+
+  return {
+    async put(key, body, contentType) {
+      // Multipart upload, so large files are never buffered in full
+      await new Upload({
+        client,
+        params: { Bucket: bucket, Key: key, Body: body, ContentType: contentType },
+      }).done();
+    },
+
+    async get(key) {
+      const object = await client.send(
+        new GetObjectCommand({ Bucket: bucket, Key: key })
+      );
+      return object.Body as Readable;
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
@@ -0,0 +1,7 @@
+import type { Readable } from "stream";
+
+export interface StorageBackend {
+  put(key: string, body: Readable, contentType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
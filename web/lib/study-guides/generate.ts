@@ -0,0 +1,146 @@
+import type { DocumentSection, ExtractedDocument } from "@/lib/documents/types";
+import {
+  StudyGuideGenerationError,
+  type DocumentPart,
+  type GuideNotes,
+  type StudyGuideContent,
+  type StudyGuideProvider,
+} from "./types";
+
+// Sized to fit a model prompt with room for the reply
+const PART_CHARS = 12000;
+// How many notes one reduce call merges
+const MERGE_BATCH = 6;
+// Parts summarized at once
+const CONCURRENCY = 3;
+
+// Splits text longer than a part on paragraph, then sentence, boundaries
+function splitText(text: string) {
+  const pieces: string[] = [];
+  let current = "";
+  for (const segment of text.split(/\n{2,}|(?<=[.!?])\s+/)) {
+    if (current && current.length + segment.length + 1 > PART_CHARS) {
+      pieces.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n${segment}` : segment;
+    while (current.length > PART_CHARS) {
+      pieces.push(current.slice(0, PART_CHARS));
+      current = current.slice(PART_CHARS);
+    }
+  }
+  if (current.trim()) pieces.push(current);
+  return pieces;
+}
+
+function label(sections: DocumentSection[]) {
+  const { kind } = sections[0];
+  const first = sections[0].number;
+  const last = sections[sections.length - 1].number;
+  const noun = kind === "slide" ? "Slide" : "Page";
+  return first === last ? `${noun} ${first}` : `${noun}s ${first}-${last}`;
+}
+
+// Groups consecutive pages or slides into parts of at most PART_CHARS.
+// Plain text has no pages, so it is cut into numbered parts.
+export function splitDocument(document: ExtractedDocument): DocumentPart[] {
+  const parts: DocumentPart[] = [];
+  let group: DocumentSection[] = [];
+
+  const flush = () => {
+    if (group.length === 0) return;
+    parts.push({
+      label: label(group),
+      text: group.map((section) => section.text).join("\n\n"),
+    });
+    group = [];
+  };
+
+  for (const section of document.sections) {
+    if (!section.text) continue;
+    if (section.kind === "text" || section.text.length > PART_CHARS) {
+      flush();
+      const pieces = splitText(section.text);
+      pieces.forEach((text, index) =>
+        parts.push({
+          label:
+            section.kind === "text"
+              ? `Part ${parts.length + 1}`
+              : `${label([section])}${pieces.length > 1 ? ` (${index + 1}/${pieces.length})` : ""}`,
+          text,
+        })
+      );
+      continue;
+    }
+
+    const size = group.reduce((total, { text }) => total + text.length + 2, 0);
+    if (size + section.text.length > PART_CHARS) flush();
+    group.push(section);
+  }
+  flush();
+
+  return parts;
+}
+
+// Calls the provider makes for a document of `parts` parts: one summary
+// each, then merges in batches until a single guide is left
+export function countSteps(parts: number) {
+  let steps = parts;
+  let remaining = parts;
+  do {
+    remaining = Math.ceil(remaining / MERGE_BATCH);
+    steps += remaining;
+  } while (remaining > 1);
+  return steps;
+}
+
+async function mapInOrder<T, R>(items: T[], fn: (item: T) => Promise<R>) {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(CONCURRENCY, items.length) }, worker)
+  );
+  return results;
+}
+
+// Map-reduce: summarizes each part, then merges the notes a batch at a time
+// so long textbooks never have to fit in one prompt
+export async function writeStudyGuide(
+  document: ExtractedDocument,
+  provider: StudyGuideProvider,
+  onProgress?: (done: number, total: number) => void
+): Promise<StudyGuideContent> {
+  const parts = splitDocument(document);
+  if (parts.length === 0) {
+    throw new StudyGuideGenerationError(`${document.fileName} doesn't contain any text.`);
+  }
+  const total = countSteps(parts.length);
+  let done = 0;
+  const step = <T>(result: T) => {
+    onProgress?.(++done, total);
+    return result;
+  };
+
+  let notes: GuideNotes[] = await mapInOrder(parts, async (part) =>
+    step(await provider.summarizePart(part, document.fileName))
+  );
+
+  while (true) {
+    const batches: GuideNotes[][] = [];
+    for (let i = 0; i < notes.length; i += MERGE_BATCH) {
+      batches.push(notes.slice(i, i + MERGE_BATCH));
+    }
+    if (batches.length === 1) {
+      return step(await provider.combineNotes(batches[0], document.fileName));
+    }
+    notes = await mapInOrder(batches, async (batch) =>
+      step(await provider.combineNotes(batch, document.fileName))
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import type { StudyGuide } from "./types";
+
+function bullets(items: string[]) {
+  return items.map((item) => `- ${item}`).join("\n");
+}
+
+export function toMarkdown(guide: StudyGuide) {
+  const blocks = [
+    `# ${guide.title}`,
+    `*Study guide for ${guide.fileName}*`,
+    guide.overview,
+  ];
+
+  for (const section of guide.sections) {
+    blocks.push(`## ${section.title}`);
+    if (section.summary) blocks.push(section.summary);
+    if (section.keyConcepts.length > 0) {
+      blocks.push("### Key concepts", bullets(section.keyConcepts));
+    }
+    if (section.definitions.length > 0) {
+      blocks.push(
+        "### Definitions",
+        bullets(section.definitions.map(({ term, definition }) => `**${term}**: ${definition}`))
+      );
+    }
+    if (section.formulas.length > 0) {
+      blocks.push(
+        "### Formulas",
+        bullets(
+          section.formulas.map(({ expression, description }) => `\`${expression}\`: ${description}`)
+        )
+      );
+    }
+  }
+
+  if (guide.examQuestions.length > 0) {
+    blocks.push(
+      "## Likely exam questions",
+      guide.examQuestions.map((question, index) => `${index + 1}. ${question}`).join("\n")
+    );
+  }
+
+  return `${blocks.filter(Boolean).join("\n\n")}\n`;
+}
@@ -0,0 +1,86 @@
+import { extractJson } from "@/lib/quiz/parse";
+import type {
+  Definition,
+  Formula,
+  GuideNotes,
+  GuideSection,
+  StudyGuideContent,
+} from "./types";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function text(value: unknown) {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function strings(value: unknown) {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.map(text).filter(Boolean)));
+}
+
+// Keeps the items that have both fields, e.g. a term and its definition
+function pairs<K extends string>(value: unknown, [first, second]: [K, K]) {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isRecord).flatMap((item) => {
+    const a = text(item[first]);
+    const b = text(item[second]);
+    return a && b ? [{ [first]: a, [second]: b } as Record<K, string>] : [];
+  });
+}
+
+function parseSection(value: unknown): GuideSection | null {
+  if (!isRecord(value)) return null;
+  const title = text(value.title);
+  if (!title) return null;
+
+  return {
+    title,
+    summary: text(value.summary),
+    keyConcepts: strings(value.keyConcepts),
+    definitions: pairs(value.definitions, ["term", "definition"]) as Definition[],
+    formulas: pairs(value.formulas, ["expression", "description"]) as Formula[],
+  };
+}
+
+function parseNotesObject(value: Record<string, unknown>): GuideNotes {
+  return {
+    sections: Array.isArray(value.sections)
+      ? value.sections.map(parseSection).filter((section) => section !== null)
+      : [],
+    examQuestions: strings(value.examQuestions),
+  };
+}
+
+function parseObject(raw: string) {
+  const json = extractJson(raw);
+  if (!json) return null;
+  try {
+    const value: unknown = JSON.parse(json);
+    return isRecord(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Reads the notes the model wrote on one part, or null when it wrote none
+export function parseNotes(raw: string): GuideNotes | null {
+  const value = parseObject(raw);
+  if (!value) return null;
+  const notes = parseNotesObject(value);
+  return notes.sections.length > 0 ? notes : null;
+}
+
+export function parseGuide(raw: string): StudyGuideContent | null {
+  const value = parseObject(raw);
+  if (!value) return null;
+  const notes = parseNotesObject(value);
+  if (notes.sections.length === 0) return null;
+
+  return {
+    title: text(value.title),
+    overview: text(value.overview),
+    ...notes,
+  };
+}
@@ -0,0 +1,243 @@
+import type { StudyGuide } from "./types";
+
+// A small PDF writer for text-only documents. It sticks to the standard
+// fonts every PDF reader has built in, so nothing is embedded; characters
+// outside their Windows-1252 encoding print as "?".
+
+type FontName = "regular" | "bold" | "italic" | "mono";
+
+const FONTS: Record<FontName, { resource: string; base: string }> = {
+  regular: { resource: "F1", base: "Helvetica" },
+  bold: { resource: "F2", base: "Helvetica-Bold" },
+  italic: { resource: "F3", base: "Helvetica-Oblique" },
+  mono: { resource: "F4", base: "Courier" },
+};
+
+// Helvetica advance widths for " " to "~", in thousandths of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+// Bold glyphs run wider; measuring them a little generously keeps lines
+// inside the margin
+const BOLD_FACTOR = 1.08;
+const DEFAULT_WIDTH = 556;
+const MONO_WIDTH = 600;
+
+// Windows-1252 codes for the punctuation outside Latin-1
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94,
+  "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+const SUBSTITUTES: Record<string, string> = { "−": "-", "→": "->", "←": "<-", "≤": "<=", "≥": ">=", "≠": "!=" };
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const BULLET_INDENT = 16;
+
+type BlockStyle = "title" | "caption" | "heading" | "subheading" | "body" | "item";
+
+const STYLES: Record<BlockStyle, { font: FontName; size: number; spaceBefore: number }> = {
+  title: { font: "bold", size: 20, spaceBefore: 0 },
+  caption: { font: "italic", size: 10, spaceBefore: 4 },
+  heading: { font: "bold", size: 14, spaceBefore: 18 },
+  subheading: { font: "bold", size: 11, spaceBefore: 10 },
+  body: { font: "regular", size: 11, spaceBefore: 6 },
+  item: { font: "regular", size: 11, spaceBefore: 3 },
+};
+
+interface Block {
+  style: BlockStyle;
+  text: string;
+  // Overrides the style's font, e.g. for formulas
+  font?: FontName;
+  // Hangs in front of an item: "•" or "1."
+  marker?: string;
+}
+
+function encode(text: string) {
+  return Array.from(text, (char) => {
+    const substitute = SUBSTITUTES[char];
+    if (substitute) return substitute;
+    const code = char.codePointAt(0)!;
+    if (code <= 0xff || WIN_ANSI[char]) return char;
+    return "?";
+  }).join("");
+}
+
+function charWidth(char: string, font: FontName) {
+  if (font === "mono") return MONO_WIDTH;
+  const code = char.charCodeAt(0);
+  const width = code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH;
+  return font === "bold" ? width * BOLD_FACTOR : width;
+}
+
+function textWidth(text: string, font: FontName, size: number) {
+  let width = 0;
+  for (const char of text) width += charWidth(char, font);
+  return (width * size) / 1000;
+}
+
+// Greedy word wrap; words wider than a line are broken where they overflow
+function wrap(text: string, font: FontName, size: number, maxWidth: number) {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (textWidth(candidate, font, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    line = "";
+    for (const char of word) {
+      if (line && textWidth(line + char, font, size) > maxWidth) {
+        lines.push(line);
+        line = "";
+      }
+      line += char;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// A PDF string literal, with non-ASCII characters as octal escapes so the
+// whole file stays ASCII and byte offsets match string lengths
+function pdfString(text: string) {
+  const body = Array.from(text, (char) => {
+    if (char === "\\" || char === "(" || char === ")") return `\\${char}`;
+    const code = WIN_ANSI[char] ?? char.charCodeAt(0);
+    return code < 32 || code > 126 ? `\\${code.toString(8).padStart(3, "0")}` : char;
+  }).join("");
+  return `(${body})`;
+}
+
+// Lays the blocks out top to bottom, starting a new page when one fills up.
+// Returns each page's content stream.
+function layout(blocks: Block[]) {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+  const width = PAGE_WIDTH - 2 * MARGIN;
+
+  const show = (text: string, font: FontName, size: number, x: number) => {
+    pages[pages.length - 1].push(
+      `BT /${FONTS[font].resource} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`
+    );
+  };
+
+  for (const block of blocks) {
+    const style = STYLES[block.style];
+    const font = block.font ?? style.font;
+    const leading = style.size * 1.35;
+    const indent = block.marker ? BULLET_INDENT : 0;
+    const lines = wrap(encode(block.text), font, style.size, width - indent);
+
+    y -= style.spaceBefore;
+    // Keep headings with the first lines of what follows them
+    const keep = block.style === "heading" || block.style === "subheading" ? 3 : 1;
+    lines.forEach((line, index) => {
+      if (y - leading * (index === 0 ? keep : 1) < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      if (index === 0 && block.marker) {
+        show(encode(block.marker), "regular", style.size, MARGIN);
+      }
+      show(line, font, style.size, MARGIN + indent);
+    });
+  }
+
+  return pages.map((commands) => commands.join("\n"));
+}
+
+function guideBlocks(guide: StudyGuide): Block[] {
+  const blocks: Block[] = [
+    { style: "title", text: guide.title },
+    { style: "caption", text: `Study guide for ${guide.fileName}` },
+    { style: "body", text: guide.overview },
+  ];
+  const items = (texts: string[], font?: FontName) =>
+    texts.map((text): Block => ({ style: "item", text, marker: "•", font }));
+
+  for (const section of guide.sections) {
+    blocks.push({ style: "heading", text: section.title });
+    if (section.summary) blocks.push({ style: "body", text: section.summary });
+    if (section.keyConcepts.length > 0) {
+      blocks.push({ style: "subheading", text: "Key concepts" }, ...items(section.keyConcepts));
+    }
+    if (section.definitions.length > 0) {
+      blocks.push(
+        { style: "subheading", text: "Definitions" },
+        ...items(section.definitions.map(({ term, definition }) => `${term}: ${definition}`))
+      );
+    }
+    if (section.formulas.length > 0) {
+      blocks.push({ style: "subheading", text: "Formulas" });
+      for (const { expression, description } of section.formulas) {
+        blocks.push(...items([expression], "mono"), {
+          style: "item",
+          text: description,
+          marker: " ",
+        });
+      }
+    }
+  }
+
+  if (guide.examQuestions.length > 0) {
+    blocks.push(
+      { style: "heading", text: "Likely exam questions" },
+      ...guide.examQuestions.map(
+        (text, index): Block => ({ style: "item", text, marker: `${index + 1}.` })
+      )
+    );
+  }
+  return blocks.filter((block) => block.text);
+}
+
+export function toPdf(guide: StudyGuide) {
+  const pages = layout(guideBlocks(guide));
+  const fontNames = Object.keys(FONTS) as FontName[];
+  // 1: catalog, 2: page tree, then the fonts, then a page and its content
+  // stream for each page
+  const firstPage = 3 + fontNames.length;
+  const pageIds = pages.map((_, index) => firstPage + index * 2);
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    ...fontNames.map(
+      (name) =>
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[name].base} /Encoding /WinAnsiEncoding >>`
+    ),
+  ];
+  const fontResources = fontNames
+    .map((name, index) => `/${FONTS[name].resource} ${3 + index} 0 R`)
+    .join(" ");
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
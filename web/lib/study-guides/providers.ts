@@ -0,0 +1,198 @@
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { DEFINITION } from "@/lib/flashcards/providers";
+import { CHAT_MODEL, getLLMProvider, getOpenAI } from "@/lib/llm";
+import { keywords, sentences } from "@/lib/quiz/providers";
+import { parseGuide, parseNotes } from "./parse";
+import {
+  StudyGuideGenerationError,
+  type GuideNotes,
+  type GuideSection,
+  type StudyGuideContent,
+  type StudyGuideProvider,
+} from "./types";
+
+const MAX_ATTEMPTS = 2;
+const MAX_EXAM_QUESTIONS = 12;
+const MAX_TERM_WORDS = 5;
+const SUMMARY_CHARS = 300;
+
+const NOTES_SHAPE = `{"sections": [{"title": string, "summary": string, "keyConcepts": [string],
+"definitions": [{"term": string, "definition": string}], "formulas": [{"expression": string, "description": string}]}],
+"examQuestions": [string]}`;
+
+const SUMMARIZE_PROMPT = `You are Wiz AI, a tutor who writes study guides from course material.
+Summarize the part of the material you are given as one or more sections following its own headings.
+Only include what the material states. Respond with JSON only, in the shape
+${NOTES_SHAPE}
+- "summary": two to four sentences on what the section teaches
+- "keyConcepts": the ideas a learner must understand, a few words each
+- "definitions": every term the material defines, in its words
+- "formulas": every equation or formula, exactly as written, with what it computes (empty if there are none)
+- "examQuestions": two or three questions an exam on this part would likely ask`;
+
+const COMBINE_PROMPT = `You are Wiz AI, a tutor who writes study guides from course material.
+You are given notes on consecutive parts of one document, in order. Merge them into a single guide:
+join sections that cover the same topic, keep the document's order, and keep every definition and
+formula. Respond with JSON only, in the shape
+{"title": string, "overview": string, ${NOTES_SHAPE.slice(1)}
+- "title": what the document is about, in a few words
+- "overview": a paragraph on what the document covers and how its sections fit together
+- "examQuestions": up to ${MAX_EXAM_QUESTIONS} of the most likely exam questions across the whole document`;
+
+// Joins notes without rewording them: the offline guide, and the fallback
+// when the model can't merge them
+export function concatNotes(notes: GuideNotes[], fileName: string): StudyGuideContent {
+  const sections = notes.flatMap((note) => note.sections);
+  const concepts = Array.from(
+    new Set(sections.flatMap((section) => section.keyConcepts))
+  ).slice(0, 5);
+
+  return {
+    title: fileName.replace(/\.[^.]+$/, ""),
+    overview: `${fileName} is summarized in ${sections.length} section${
+      sections.length === 1 ? "" : "s"
+    }${concepts.length > 0 ? `, covering ${concepts.join(", ")}` : ""}.`,
+    sections,
+    examQuestions: Array.from(
+      new Set(notes.flatMap((note) => note.examQuestions))
+    ).slice(0, MAX_EXAM_QUESTIONS),
+  };
+}
+
+// Asks again with the problem spelled out until the reply parses
+async function complete<T>(
+  system: string,
+  prompt: string,
+  parse: (raw: string) => T | null
+): Promise<T | null> {
+  const messages: ChatCompletionMessageParam[] = [
+    { role: "system", content: system },
+    { role: "user", content: prompt },
+  ];
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const completion = await getOpenAI().chat.completions.create({
+      model: CHAT_MODEL,
+      messages,
+      temperature: 0.3,
+      response_format: { type: "json_object" },
+    });
+    const raw = completion.choices[0]?.message?.content || "";
+    const parsed = parse(raw);
+    if (parsed) return parsed;
+
+    messages.push(
+      { role: "assistant", content: raw },
+      {
+        role: "user",
+        content: "That response was not valid JSON with at least one titled section. Return the full corrected JSON and nothing else.",
+      }
+    );
+  }
+  return null;
+}
+
+export const openAIStudyGuideProvider: StudyGuideProvider = {
+  generator: `openai:${CHAT_MODEL}`,
+
+  async summarizePart(part, fileName) {
+    const notes = await complete(
+      SUMMARIZE_PROMPT,
+      `Summarize ${part.label} of "${fileName}".
+
+--- MATERIAL ---
+${part.text}
+--- END MATERIAL ---`,
+      parseNotes
+    );
+    if (!notes) {
+      throw new StudyGuideGenerationError(
+        `The study guide writer could not summarize ${part.label.toLowerCase()}`
+      );
+    }
+    return notes;
+  },
+
+  async combineNotes(notes, fileName) {
+    const guide = await complete(
+      COMBINE_PROMPT,
+      `Merge these notes on "${fileName}".
+
+${notes.map((note, index) => `--- PART ${index + 1} ---\n${JSON.stringify(note)}`).join("\n\n")}`,
+      parseGuide
+    );
+    if (!guide) return concatNotes(notes, fileName);
+    return { ...guide, title: guide.title || concatNotes(notes, fileName).title };
+  },
+};
+
+// The most frequent key words, in the casing they first appear in
+function topKeywords(text: string, count: number) {
+  const counts = new Map<string, { word: string; count: number }>();
+  for (const word of keywords(text)) {
+    const key = word.toLowerCase();
+    const entry = counts.get(key) ?? { word, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  }
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, count)
+    .map((entry) => entry.word);
+}
+
+// "v = d / t" on a line of its own
+const FORMULA = /^[\w\s().,^*/+\-−×÷√²³]{1,40}=[\w\s().,^*/+\-−×÷√²³]{1,80}$/;
+
+// Sections built from the text itself, so guides work without calling OpenAI
+export const offlineStudyGuideProvider: StudyGuideProvider = {
+  generator: "offline",
+
+  async summarizePart(part) {
+    const lines = sentences(part.text);
+
+    const terms = new Set<string>();
+    const definitions = lines.flatMap((sentence) => {
+      const match = DEFINITION.exec(sentence);
+      const term = match?.[1].trim();
+      if (!match || !term || term.split(" ").length > MAX_TERM_WORDS) return [];
+      if (terms.has(term.toLowerCase())) return [];
+      terms.add(term.toLowerCase());
+      return [{ term, definition: match[2].replace(/[.!?]$/, "") }];
+    });
+    const section: GuideSection = {
+      title: part.label,
+      // Slides of bullet points have no full sentences to quote
+      summary:
+        lines.length > 0
+          ? lines.slice(0, 2).join(" ")
+          : part.text.replace(/\s+/g, " ").slice(0, SUMMARY_CHARS),
+      keyConcepts: topKeywords(part.text, 6),
+      definitions: definitions.slice(0, 6),
+      formulas: Array.from(
+        new Set(part.text.split("\n").map((line) => line.trim()))
+      )
+        .filter((line) => FORMULA.test(line) && /\d|[a-z]\s*=/i.test(line))
+        .slice(0, 4)
+        .map((expression) => ({ expression, description: `From ${part.label}` })),
+    };
+
+    return {
+      sections: [section],
+      examQuestions: [
+        ...definitions.map(({ term }) => `What is ${term}?`),
+        ...section.keyConcepts.map((concept) => `Explain the role of ${concept}.`),
+      ].slice(0, 3),
+    };
+  },
+
+  async combineNotes(notes, fileName) {
+    return concatNotes(notes, fileName);
+  },
+};
+
+export function getStudyGuideProvider(): StudyGuideProvider {
+  return getLLMProvider() === "offline"
+    ? offlineStudyGuideProvider
+    : openAIStudyGuideProvider;
+}
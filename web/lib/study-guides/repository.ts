@@ -0,0 +1,70 @@
+import { getDb } from "@/lib/db";
+import type { StoredFile } from "@/lib/files/types";
+import type { StudyGuide, StudyGuideContent } from "./types";
+
+export interface CachedStudyGuide {
+  content: StudyGuideContent;
+  createdAt: string;
+}
+
+// Guides are cached per learner, document version (its content hash) and
+// generator, so re-uploading a file finds its guide and editing it makes a
+// new one. Rewriting a guide only replaces the learner's own copy.
+export interface StudyGuideRepository {
+  get(
+    userId: string,
+    documentId: string,
+    generator: string
+  ): Promise<CachedStudyGuide | null>;
+  save(
+    userId: string,
+    documentId: string,
+    generator: string,
+    content: StudyGuideContent,
+    now?: Date
+  ): Promise<CachedStudyGuide>;
+}
+
+interface StudyGuideRow {
+  content: string;
+  created_at: string;
+}
+
+export const sqliteStudyGuideRepository: StudyGuideRepository = {
+  async get(userId, documentId, generator) {
+    const row = getDb()
+      .prepare(
+        `SELECT content, created_at FROM study_guides
+        WHERE user_id = ? AND document_id = ? AND generator = ?`
+      )
+      .get(userId, documentId, generator) as StudyGuideRow | undefined;
+    return row ? { content: JSON.parse(row.content), createdAt: row.created_at } : null;
+  },
+
+  async save(userId, documentId, generator, content, now = new Date()) {
+    const createdAt = now.toISOString();
+    getDb()
+      .prepare(
+        `INSERT INTO study_guides (user_id, document_id, generator, content, created_at)
+        VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (user_id, document_id, generator)
+        DO UPDATE SET content = excluded.content, created_at = excluded.created_at`
+      )
+      .run(userId, documentId, generator, JSON.stringify(content), createdAt);
+    return { content, createdAt };
+  },
+};
+
+export function getStudyGuideRepository(): StudyGuideRepository {
+  return sqliteStudyGuideRepository;
+}
+
+export function toStudyGuide(file: StoredFile, { content, createdAt }: CachedStudyGuide): StudyGuide {
+  return {
+    ...content,
+    fileId: file.id,
+    fileName: file.name,
+    documentId: file.documentId,
+    createdAt,
+  };
+}
@@ -0,0 +1,73 @@
+import type { ApiErrorBody } from "@/lib/api/errors";
+
+export interface Definition {
+  term: string;
+  definition: string;
+}
+
+export interface Formula {
+  // As written in the material, e.g. "F = m * a"
+  expression: string;
+  description: string;
+}
+
+export interface GuideSection {
+  title: string;
+  summary: string;
+  keyConcepts: string[];
+  definitions: Definition[];
+  formulas: Formula[];
+}
+
+// Notes on one stretch of a document, or several stretches merged together
+export interface GuideNotes {
+  sections: GuideSection[];
+  examQuestions: string[];
+}
+
+export interface StudyGuideContent extends GuideNotes {
+  title: string;
+  overview: string;
+}
+
+export interface StudyGuide extends StudyGuideContent {
+  fileId: string;
+  fileName: string;
+  // The document version it was written from
+  documentId: string;
+  createdAt: string;
+}
+
+// A run of consecutive pages or slides, summarized in one call
+export interface DocumentPart {
+  // e.g. "Pages 3-7"
+  label: string;
+  text: string;
+}
+
+export interface StudyGuideProvider {
+  // Who writes the guides; cached guides from another generator are redone
+  readonly generator: string;
+  // The map step: notes on one part of the document
+  summarizePart(part: DocumentPart, fileName: string): Promise<GuideNotes>;
+  // The reduce step: merges notes in document order into one guide
+  combineNotes(notes: GuideNotes[], fileName: string): Promise<StudyGuideContent>;
+}
+
+export class StudyGuideGenerationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StudyGuideGenerationError";
+  }
+}
+
+// Newline-delimited JSON events sent by POST /api/files/[id]/study-guide
+// while a guide is written, one "progress" per summarizing or merging call
+export type StudyGuideStreamEvent =
+  | { type: "progress"; done: number; total: number }
+  | { type: "done"; guide: StudyGuide }
+  | ({ type: "error" } & ApiErrorBody);
+
+export const GUIDE_EXPORT_FORMATS = ["markdown", "pdf"] as const;
+
+export type StudyGuideExportFormat = (typeof GUIDE_EXPORT_FORMATS)[number];
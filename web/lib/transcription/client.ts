@@ -0,0 +1,44 @@
+import { getJson, readJson } from "@/lib/api/client";
+import { ApiRequestError } from "@/lib/api/errors";
+import type { TranscriptionJob } from "./types";
+
+const POLL_INTERVAL_MS = 1000;
+// The server times jobs out well before this; it only guards the loop
+const MAX_POLLS = 180;
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+}
+
+// Uploads a recording as a transcription job and polls until it finishes
+export async function transcribe(audio: Blob, signal?: AbortSignal) {
+  const formData = new FormData();
+  formData.append("audio", audio, "audio.webm");
+
+  let { job } = await readJson<{ job: TranscriptionJob }>(
+    await fetch("/api/transcriptions", { method: "POST", body: formData, signal })
+  );
+
+  for (let poll = 0; job.status === "processing" && poll < MAX_POLLS; poll++) {
+    await wait(POLL_INTERVAL_MS, signal);
+    ({ job } = await getJson<{ job: TranscriptionJob }>(
+      `/api/transcriptions/${job.id}`,
+      signal
+    ));
+  }
+
+  if (job.status !== "completed") {
+    throw new ApiRequestError(
+      "upstream_error",
+      job.error ?? "Transcription took too long. Please try again.",
+      502
+    );
+  }
+  return job.text ?? "";
+}
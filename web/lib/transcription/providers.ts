@@ -0,0 +1,161 @@
+import { toFile } from "openai";
+import { getLLMProvider, getOpenAI } from "@/lib/llm";
+import {
+  TRANSCRIPTION_PROVIDERS,
+  TranscriptionProviderError,
+  type TranscriptionProvider,
+  type TranscriptionProviderName,
+  type TranscriptionResult,
+} from "./types";
+
+// Upper bound on any single call to a provider
+export const REQUEST_TIMEOUT_MS = 30_000;
+
+export const whisperTranscriptionProvider: TranscriptionProvider = {
+  name: "whisper",
+
+  async submit({ data, fileName, contentType }) {
+    const transcription = await getOpenAI().audio.transcriptions.create(
+      {
+        file: await toFile(data, fileName, { type: contentType }),
+        model: process.env.OPENAI_TRANSCRIPTION_MODEL || "whisper-1",
+      },
+      { timeout: REQUEST_TIMEOUT_MS }
+    );
+    return { status: "completed", text: transcription.text };
+  },
+
+  // Whisper answers synchronously, so there is never anything to poll
+  async poll() {
+    return { status: "failed", error: "Whisper jobs cannot be polled" };
+  },
+};
+
+const ASSEMBLY_AI_URL = "https://api.assemblyai.com/v2";
+
+async function assemblyAI<T>(path: string, init: RequestInit = {}) {
+  const response = await fetch(`${ASSEMBLY_AI_URL}${path}`, {
+    ...init,
+    headers: {
+      authorization: process.env.ASSEMBLY_AI_API_KEY!,
+      ...init.headers,
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new TranscriptionProviderError(
+      `AssemblyAI request failed: ${await response.text()}`,
+      response.status
+    );
+  }
+  return (await response.json()) as T;
+}
+
+interface AssemblyAITranscript {
+  id: string;
+  status: "queued" | "processing" | "completed" | "error";
+  text: string | null;
+  error?: string;
+}
+
+function fromAssemblyAI(transcript: AssemblyAITranscript): TranscriptionResult {
+  if (transcript.status === "completed") {
+    return { status: "completed", text: transcript.text ?? "" };
+  }
+  if (transcript.status === "error") {
+    return { status: "failed", error: transcript.error || "Transcription failed" };
+  }
+  return { status: "processing", remoteId: transcript.id };
+}
+
+export const assemblyAITranscriptionProvider: TranscriptionProvider = {
+  name: "assemblyai",
+
+  async submit({ data }) {
+    const { upload_url } = await assemblyAI<{ upload_url: string }>("/upload", {
+      method: "POST",
+      headers: { "content-type": "application/octet-stream" },
+      body: data,
+    });
+    const transcript = await assemblyAI<AssemblyAITranscript>("/transcript", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ audio_url: upload_url }),
+    });
+    return fromAssemblyAI(transcript);
+  },
+
+  async poll(remoteId) {
+    return fromAssemblyAI(
+      await assemblyAI<AssemblyAITranscript>(
+        `/transcript/${encodeURIComponent(remoteId)}`
+      )
+    );
+  },
+};
+
+export interface MockTranscriptionOptions {
+  text?: string;
+  // Number of polls that report "processing" before the job completes
+  pollsUntilDone?: number;
+  error?: string;
+}
+
+// Deterministic stand-in for offline development and tests
+export function createMockTranscriptionProvider({
+  text = "This is a mock transcription.",
+  pollsUntilDone = 0,
+  error,
+}: MockTranscriptionOptions = {}): TranscriptionProvider {
+  const polls = new Map<string, number>();
+  let nextId = 1;
+
+  const result = (): TranscriptionResult =>
+    error ? { status: "failed", error } : { status: "completed", text };
+
+  return {
+    name: "mock",
+
+    async submit() {
+      if (pollsUntilDone === 0) return result();
+      const remoteId = `mock-${nextId++}`;
+      polls.set(remoteId, 0);
+      return { status: "processing", remoteId };
+    },
+
+    async poll(remoteId) {
+      const count = (polls.get(remoteId) ?? 0) + 1;
+      polls.set(remoteId, count);
+      return count >= pollsUntilDone
+        ? result()
+        : { status: "processing", remoteId };
+    },
+  };
+}
+
+export const mockTranscriptionProvider = createMockTranscriptionProvider({
+  text: process.env.MOCK_TRANSCRIPT || undefined,
+});
+
+const PROVIDERS: Record<TranscriptionProviderName, TranscriptionProvider> = {
+  whisper: whisperTranscriptionProvider,
+  assemblyai: assemblyAITranscriptionProvider,
+  mock: mockTranscriptionProvider,
+};
+
+export function getTranscriptionProviderByName(name: TranscriptionProviderName) {
+  return PROVIDERS[name];
+}
+
+// TRANSCRIPTION_PROVIDER picks the service; offline mode defaults to the mock
+export function getTranscriptionProvider(): TranscriptionProvider {
+  const configured = process.env.TRANSCRIPTION_PROVIDER as
+    | TranscriptionProviderName
+    | undefined;
+  if (configured && TRANSCRIPTION_PROVIDERS.includes(configured)) {
+    return PROVIDERS[configured];
+  }
+  return getLLMProvider() === "offline"
+    ? mockTranscriptionProvider
+    : whisperTranscriptionProvider;
+}
@@ -0,0 +1,107 @@
+import { randomUUID } from "crypto";
+import { getDb } from "@/lib/db";
+import type {
+  TranscriptionJobRecord,
+  TranscriptionProviderName,
+  TranscriptionResult,
+} from "./types";
+
+export interface TranscriptionJobRepository {
+  create(
+    userId: string,
+    provider: TranscriptionProviderName
+  ): Promise<TranscriptionJobRecord>;
+  get(userId: string, id: string): Promise<TranscriptionJobRecord | null>;
+  // Records a provider response, counting it as a poll when `polled`.
+  // Finished jobs are left as they are, so a late submit can't overwrite a
+  // timeout. Returns the job as stored.
+  update(
+    id: string,
+    result: TranscriptionResult,
+    polled: boolean
+  ): Promise<TranscriptionJobRecord>;
+}
+
+interface TranscriptionJobRow {
+  id: string;
+  user_id: string;
+  provider: TranscriptionProviderName;
+  status: TranscriptionJobRecord["status"];
+  remote_id: string | null;
+  text: string | null;
+  error: string | null;
+  polls: number;
+  created_at: string;
+  updated_at: string;
+}
+
+function toRecord(row: TranscriptionJobRow): TranscriptionJobRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    provider: row.provider,
+    status: row.status,
+    remoteId: row.remote_id,
+    text: row.text,
+    error: row.error,
+    polls: row.polls,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function load(id: string) {
+  return getDb()
+    .prepare("SELECT * FROM transcription_jobs WHERE id = ?")
+    .get(id) as TranscriptionJobRow;
+}
+
+export const sqliteTranscriptionJobRepository: TranscriptionJobRepository = {
+  async create(userId, provider) {
+    const id = randomUUID();
+    const now = new Date().toISOString();
+    getDb()
+      .prepare(
+        `INSERT INTO transcription_jobs
+          (id, user_id, provider, status, created_at, updated_at)
+        VALUES (?, ?, ?, 'processing', ?, ?)`
+      )
+      .run(id, userId, provider, now, now);
+    return toRecord(load(id));
+  },
+
+  async get(userId, id) {
+    const row = getDb()
+      .prepare("SELECT * FROM transcription_jobs WHERE user_id = ? AND id = ?")
+      .get(userId, id) as TranscriptionJobRow | undefined;
+    return row ? toRecord(row) : null;
+  },
+
+  async update(id, result, polled) {
+    getDb()
+      .prepare(
+        `UPDATE transcription_jobs SET
+          status = @status,
+          remote_id = COALESCE(@remoteId, remote_id),
+          text = @text,
+          error = @error,
+          polls = polls + @polled,
+          updated_at = @now
+        WHERE id = @id AND status = 'processing'`
+      )
+      .run({
+        id,
+        status: result.status,
+        remoteId: result.status === "processing" ? result.remoteId : null,
+        text: result.status === "completed" ? result.text : null,
+        error: result.status === "failed" ? result.error : null,
+        polled: polled ? 1 : 0,
+        now: new Date().toISOString(),
+      });
+    return toRecord(load(id));
+  },
+};
+
+export function getTranscriptionJobRepository(): TranscriptionJobRepository {
+  return sqliteTranscriptionJobRepository;
+}
@@ -0,0 +1,135 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  createMockTranscriptionProvider,
+  getTranscriptionProvider,
+  mockTranscriptionProvider,
+  type MockTranscriptionOptions,
+} from "./providers";
+import { createTranscriptionService, type TranscriptionServiceOptions } from "./service";
+import type { TranscriptionAudio, TranscriptionResult } from "./types";
+
+const AUDIO: TranscriptionAudio = {
+  data: Buffer.from("audio"),
+  fileName: "recording.webm",
+  contentType: "audio/webm",
+};
+
+let dataDir: string;
+
+beforeAll(() => {
+  dataDir = mkdtempSync(path.join(tmpdir(), "wiz-transcription-"));
+  vi.stubEnv("DATABASE_PATH", path.join(dataDir, "wiz.db"));
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+function service(
+  mock: MockTranscriptionOptions,
+  options: Omit<TranscriptionServiceOptions, "provider"> = {}
+) {
+  return createTranscriptionService({
+    provider: createMockTranscriptionProvider(mock),
+    ...options,
+  });
+}
+
+describe("transcription jobs", () => {
+  it("completes straight away with a synchronous provider", async () => {
+    const transcription = service({ text: "Hello there" });
+    const { job, done } = await transcription.create("user-1", AUDIO);
+    expect(job.status).toBe("processing");
+
+    await done;
+    const finished = await transcription.get("user-1", job.id);
+    expect(finished).toMatchObject({ status: "completed", text: "Hello there" });
+  });
+
+  it("advances one provider poll per status request", async () => {
+    const transcription = service({ text: "Polled", pollsUntilDone: 2 });
+    const { job, done } = await transcription.create("user-1", AUDIO);
+    await done;
+
+    expect(await transcription.get("user-1", job.id)).toMatchObject({
+      status: "processing",
+      polls: 1,
+    });
+    expect(await transcription.get("user-1", job.id)).toMatchObject({
+      status: "completed",
+      text: "Polled",
+    });
+  });
+
+  it("records the provider's failure", async () => {
+    const transcription = service({ error: "Audio was silent" });
+    const { job, done } = await transcription.create("user-1", AUDIO);
+    await done;
+
+    expect(await transcription.get("user-1", job.id)).toMatchObject({
+      status: "failed",
+      error: "Audio was silent",
+    });
+  });
+
+  it("gives up after too many polls", async () => {
+    const transcription = service({ pollsUntilDone: 10 }, { maxPolls: 1 });
+    const { job, done } = await transcription.create("user-1", AUDIO);
+    await done;
+
+    await transcription.get("user-1", job.id);
+    const timedOut = await transcription.get("user-1", job.id);
+    expect(timedOut?.status).toBe("failed");
+    expect(timedOut?.error).toMatch(/too long/);
+  });
+
+  it("keeps a timed-out job failed when the provider answers late", async () => {
+    let answer: (result: TranscriptionResult) => void = () => {};
+    const transcription = createTranscriptionService({
+      provider: {
+        ...createMockTranscriptionProvider(),
+        submit: () => new Promise((resolve) => (answer = resolve)),
+      },
+      timeoutMs: -1,
+    });
+    const { job, done } = await transcription.create("user-1", AUDIO);
+
+    expect((await transcription.get("user-1", job.id))?.status).toBe("failed");
+    answer({ status: "completed", text: "Too late" });
+    await done;
+
+    expect(await transcription.get("user-1", job.id)).toMatchObject({
+      status: "failed",
+      text: null,
+    });
+  });
+
+  it("only shows a job to the learner who started it", async () => {
+    const transcription = service({});
+    const { job, done } = await transcription.create("user-1", AUDIO);
+    await done;
+
+    expect(await transcription.get("user-2", job.id)).toBeNull();
+  });
+});
+
+describe("getTranscriptionProvider", () => {
+  afterEach(() => {
+    vi.stubEnv("TRANSCRIPTION_PROVIDER", undefined);
+    vi.stubEnv("LLM_PROVIDER", undefined);
+  });
+
+  it("uses the mock provider in offline mode", () => {
+    vi.stubEnv("LLM_PROVIDER", "offline");
+    expect(getTranscriptionProvider()).toBe(mockTranscriptionProvider);
+  });
+
+  it("uses the configured provider", () => {
+    vi.stubEnv("TRANSCRIPTION_PROVIDER", "mock");
+    expect(getTranscriptionProvider()).toBe(mockTranscriptionProvider);
+  });
+});
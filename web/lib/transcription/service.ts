@@ -0,0 +1,87 @@
+import {
+  getTranscriptionProvider,
+  getTranscriptionProviderByName,
+} from "./providers";
+import {
+  getTranscriptionJobRepository,
+  type TranscriptionJobRepository,
+} from "./repository";
+import type {
+  TranscriptionAudio,
+  TranscriptionJobRecord,
+  TranscriptionProvider,
+} from "./types";
+
+const MAX_POLLS = 60;
+const JOB_TIMEOUT_MS = 2 * 60 * 1000;
+
+const FAILED_MESSAGE = "Failed to transcribe audio. Please try again.";
+const TIMED_OUT_MESSAGE = "Transcription took too long. Please try again.";
+
+export interface TranscriptionServiceOptions {
+  jobs?: TranscriptionJobRepository;
+  provider?: TranscriptionProvider;
+  maxPolls?: number;
+  timeoutMs?: number;
+}
+
+// Jobs are submitted in the background and advanced one provider poll per
+// status request, so no request ever waits on a slow transcription.
+export function createTranscriptionService({
+  jobs = getTranscriptionJobRepository(),
+  provider = getTranscriptionProvider(),
+  maxPolls = MAX_POLLS,
+  timeoutMs = JOB_TIMEOUT_MS,
+}: TranscriptionServiceOptions = {}) {
+  // Jobs keep the provider they started with if the configuration changes
+  const providerFor = (job: TranscriptionJobRecord) =>
+    job.provider === provider.name
+      ? provider
+      : getTranscriptionProviderByName(job.provider);
+
+  const fail = (job: TranscriptionJobRecord, error: unknown, message: string) => {
+    console.error(`Transcription job ${job.id} failed:`, error);
+    return jobs.update(job.id, { status: "failed", error: message }, false);
+  };
+
+  return {
+    // Starts a job and submits the audio in the background. `done` settles
+    // once the provider has answered; routes respond without waiting for it.
+    async create(userId: string, audio: TranscriptionAudio) {
+      const job = await jobs.create(userId, provider.name);
+      const done = provider
+        .submit(audio)
+        .then((result) => jobs.update(job.id, result, false))
+        .catch((error) => fail(job, error, FAILED_MESSAGE));
+      return { job, done };
+    },
+
+    async get(userId: string, id: string) {
+      const job = await jobs.get(userId, id);
+      if (!job || job.status !== "processing") return job;
+
+      const age = Date.now() - new Date(job.createdAt).getTime();
+      if (age > timeoutMs || job.polls >= maxPolls) {
+        return fail(job, "timed out", TIMED_OUT_MESSAGE);
+      }
+      // Still uploading, or a synchronous provider that hasn't answered yet
+      if (!job.remoteId) return job;
+
+      try {
+        const result = await providerFor(job).poll(job.remoteId);
+        return jobs.update(job.id, result, true);
+      } catch (error) {
+        return fail(job, error, FAILED_MESSAGE);
+      }
+    },
+  };
+}
+
+export type TranscriptionService = ReturnType<typeof createTranscriptionService>;
+
+let service: TranscriptionService | null = null;
+
+export function getTranscriptionService() {
+  if (!service) service = createTranscriptionService();
+  return service;
+}
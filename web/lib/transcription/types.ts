@@ -0,0 +1,62 @@
+export const TRANSCRIPTION_PROVIDERS = ["whisper", "assemblyai", "mock"] as const;
+
+export type TranscriptionProviderName = (typeof TRANSCRIPTION_PROVIDERS)[number];
+
+export type TranscriptionStatus = "processing" | "completed" | "failed";
+
+export interface TranscriptionJob {
+  id: string;
+  status: TranscriptionStatus;
+  text: string | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Server-side view of a job, with what's needed to keep polling it
+export interface TranscriptionJobRecord extends TranscriptionJob {
+  userId: string;
+  provider: TranscriptionProviderName;
+  remoteId: string | null;
+  polls: number;
+}
+
+export interface TranscriptionAudio {
+  data: Buffer;
+  fileName: string;
+  contentType: string;
+}
+
+// Providers either finish straight away or hand back an id to poll
+export type TranscriptionResult =
+  | { status: "completed"; text: string }
+  | { status: "processing"; remoteId: string }
+  | { status: "failed"; error: string };
+
+export interface TranscriptionProvider {
+  name: TranscriptionProviderName;
+  submit(audio: TranscriptionAudio): Promise<TranscriptionResult>;
+  poll(remoteId: string): Promise<TranscriptionResult>;
+}
+
+// Thrown by providers that call their API directly rather than via an SDK
+export class TranscriptionProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "TranscriptionProviderError";
+    this.status = status;
+  }
+}
+
+export function toTranscriptionJob(record: TranscriptionJobRecord): TranscriptionJob {
+  return {
+    id: record.id,
+    status: record.status,
+    text: record.text,
+    error: record.error,
+    createdAt: record.createdAt,
+    updatedAt: record.updatedAt,
+  };
+}
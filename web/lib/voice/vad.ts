@@ -0,0 +1,70 @@
+export type VoiceActivityEvent = "start" | "end";
+
+export interface VoiceActivityOptions {
+  // RMS level (0-1) that counts as speech
+  threshold: number;
+  // How long the level must stay above the threshold to start an utterance
+  minSpeechMs: number;
+  // How long it must stay below to end one
+  silenceMs: number;
+}
+
+// Root-mean-square level of a block of samples in [-1, 1]
+export function rms(samples: Float32Array) {
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  return samples.length ? Math.sqrt(sum / samples.length) : 0;
+}
+
+// Energy-based voice activity detection. Feed it one level per audio frame;
+// it reports when an utterance starts and when it ends. The threshold can be
+// raised per frame, e.g. while the assistant is talking.
+export function createVoiceActivityDetector(options: VoiceActivityOptions) {
+  let speaking = false;
+  let aboveSince: number | null = null;
+  let belowSince: number | null = null;
+
+  return {
+    get speaking() {
+      return speaking;
+    },
+
+    update(
+      level: number,
+      now: number,
+      threshold = options.threshold
+    ): VoiceActivityEvent | null {
+      if (level >= threshold) {
+        belowSince = null;
+        aboveSince ??= now;
+        if (!speaking && now - aboveSince >= options.minSpeechMs) {
+          speaking = true;
+          return "start";
+        }
+        return null;
+      }
+
+      aboveSince = null;
+      // Trailing silence is measured against the normal threshold so a raised
+      // one doesn't cut the learner off
+      if (!speaking) return null;
+      if (level >= options.threshold) {
+        belowSince = null;
+        return null;
+      }
+      belowSince ??= now;
+      if (now - belowSince >= options.silenceMs) {
+        speaking = false;
+        belowSince = null;
+        return "end";
+      }
+      return null;
+    },
+
+    reset() {
+      speaking = false;
+      aboveSince = null;
+      belowSince = null;
+    },
+  };
+}